@@ -16,6 +16,10 @@ import cors from 'cors';
 import fetch from 'node-fetch';
 import dotenv from 'dotenv';
 import { CookieJar } from 'tough-cookie';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { decodeNetCDFGrid, gridToDataPoints } from './src/utils/netcdfDecoder.js';
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +32,11 @@ const NASA_PASSWORD = process.env.NASA_PASSWORD;
 // Configuration
 const DOWNLOAD_TIMEOUT = 60000; // 60 seconds
 const MAX_RETRIES = 2;
+const MAX_POINT_FILES = 250; // ~30 days of 3-hourly granules
+const POINT_CONCURRENCY = 3; // Parallel NASA downloads per /api/gldas-points call
+const CACHE_DIR = process.env.PROXY_CACHE_DIR || '.cache/nasa-proxy';
+const CACHE_TTL = Number(process.env.PROXY_CACHE_TTL_HOURS || 24 * 30) * 60 * 60 * 1000; // Archive data rarely changes
+const CACHE_MAX_BYTES = Number(process.env.PROXY_CACHE_MAX_MB || 2048) * 1024 * 1024;
 
 // ============================================================================
 // VALIDATE CREDENTIALS ON STARTUP
@@ -81,7 +90,8 @@ app.get('/api/health', (req, res) => {
     username: NASA_USERNAME ? `${NASA_USERNAME.substring(0, 3)}***` : 'not configured',
     uptime: process.uptime(),
     timeout: `${DOWNLOAD_TIMEOUT / 1000}s`,
-    format: 'Binary NetCDF (DODS) + ASCII supported'
+    format: 'Binary NetCDF (DODS) + ASCII supported',
+    cache: diskCache.getMetrics()
   });
 });
 
@@ -92,7 +102,7 @@ app.get('/api/health', (req, res) => {
 async function downloadWithAuth(url) {
   console.log('🔐 Starting NASA authentication flow...');
   
-  const isBinaryFormat = url.includes('.dods?') || url.includes('.nc4');
+  const isBinaryFormat = url.includes('.dods?') || url.includes('.nc4') || url.includes('.nc?');
   console.log(`   Format detected: ${isBinaryFormat ? 'Binary NetCDF (DODS)' : 'ASCII text'}`);
   
   const cookieJar = new CookieJar();
@@ -188,9 +198,8 @@ async function downloadWithAuth(url) {
         console.log('   📦 Downloading as binary ArrayBuffer...');
         const arrayBuffer = await response.arrayBuffer();
         const buffer = Buffer.from(arrayBuffer);
-        const base64Data = buffer.toString('base64');
         console.log(`   ✅ Binary data downloaded: ${(buffer.length / 1024).toFixed(2)} KB`);
-        return { success: true, data: base64Data, dataSize: buffer.length, format: 'binary' };
+        return { success: true, data: buffer, dataSize: buffer.length, format: 'binary' };
       } else {
         console.log('   📄 Downloading as ASCII text...');
         const textData = await response.text();
@@ -238,6 +247,214 @@ async function downloadWithRetry(url, maxRetries = MAX_RETRIES) {
   throw lastError;
 }
 
+// ============================================================================
+// DISK CACHE (CONTENT-ADDRESSED)
+// ============================================================================
+
+/**
+ * On-disk cache of NASA responses shared by everyone using this proxy
+ *
+ * Layout under CACHE_DIR:
+ *   entries/<sha256(normalized URL)>.json  { url, blob, format, size, storedAt, lastAccess }
+ *   blobs/<sha256(content)>                response body
+ *
+ * Bodies are stored by content hash, so identical responses requested
+ * through different URLs share one file. Entries expire after CACHE_TTL;
+ * when the blobs exceed CACHE_MAX_BYTES the least recently used entries
+ * are evicted. Concurrent requests for the same URL share one download.
+ */
+class DiskCache {
+  constructor(dir, ttl, maxBytes) {
+    this.dir = dir;
+    this.ttl = ttl;
+    this.maxBytes = maxBytes;
+    this.entries = new Map(); // url hash -> entry
+    this.inFlight = new Map(); // url hash -> Promise<result>
+    this.metrics = { hits: 0, misses: 0, expired: 0, evictions: 0, sharedDownloads: 0, writeErrors: 0, bytesServed: 0 };
+    this.ready = this.load();
+  }
+
+  /**
+   * Lower-case scheme/host, drop fragments and default ports, and decode
+   * the constraint expression so "%5B0:0%5D" and "[0:0]" share an entry.
+   * Projection order is kept: it determines the response layout.
+   */
+  static normalizeUrl(url) {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    const query = decodeURIComponent(parsed.search.replace(/^\?/, '')).replace(/\s+/g, '').replace(/&+$/, '');
+    const origin = `${parsed.protocol}//${parsed.host}`.toLowerCase();
+    return `${origin}${decodeURIComponent(parsed.pathname)}${query ? `?${query}` : ''}`;
+  }
+
+  static hash(data) {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  async load() {
+    try {
+      await fs.mkdir(path.join(this.dir, 'entries'), { recursive: true });
+      await fs.mkdir(path.join(this.dir, 'blobs'), { recursive: true });
+
+      for (const file of await fs.readdir(path.join(this.dir, 'entries'))) {
+        if (!file.endsWith('.json')) continue;
+        try {
+          const entry = JSON.parse(await fs.readFile(path.join(this.dir, 'entries', file), 'utf8'));
+          this.entries.set(file.slice(0, -5), entry);
+        } catch {
+          console.log(`   ⚠️ Skipping unreadable cache entry ${file}`);
+        }
+      }
+      console.log(`💾 Disk cache: ${this.entries.size} entries, ${(this.getSizeBytes() / 1024 / 1024).toFixed(1)} MB in ${this.dir}`);
+    } catch (error) {
+      console.error('❌ Disk cache unavailable:', error.message);
+    }
+  }
+
+  /**
+   * Return the cached response for a URL, or run download() and cache it
+   *
+   * @param {string} url - NASA OPeNDAP URL
+   * @param {() => Promise<{ data: Buffer | string, format: string }>} download
+   */
+  async fetch(url, download) {
+    await this.ready;
+    const key = DiskCache.hash(DiskCache.normalizeUrl(url));
+
+    const cached = await this.read(key);
+    if (cached) {
+      this.metrics.hits++;
+      this.metrics.bytesServed += cached.dataSize;
+      console.log(`   💾 Cache hit (${(cached.dataSize / 1024).toFixed(2)} KB)`);
+      return cached;
+    }
+
+    if (this.inFlight.has(key)) {
+      this.metrics.sharedDownloads++;
+      console.log('   💾 Joining in-flight download for the same URL');
+      return this.inFlight.get(key);
+    }
+
+    this.metrics.misses++;
+    const pending = download()
+      .then(async result => {
+        await this.write(key, url, result).catch(error => {
+          this.metrics.writeErrors++;
+          console.error('   ⚠️ Cache write failed:', error.message);
+        });
+        return { ...result, cached: false };
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+
+  async read(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.storedAt > this.ttl) {
+      this.metrics.expired++;
+      await this.remove(key);
+      return null;
+    }
+
+    try {
+      const buffer = await fs.readFile(path.join(this.dir, 'blobs', entry.blob));
+      // Access time is tracked in memory only (LRU order resets on restart)
+      entry.lastAccess = Date.now();
+      const data = entry.format === 'binary' ? buffer : buffer.toString('utf8');
+      return { success: true, data, dataSize: data.length, format: entry.format, responseTime: 0, cached: true };
+    } catch {
+      await this.remove(key);
+      return null;
+    }
+  }
+
+  async write(key, url, result) {
+    const body = Buffer.isBuffer(result.data) ? result.data : Buffer.from(result.data, 'utf8');
+    const blob = DiskCache.hash(body);
+    const blobPath = path.join(this.dir, 'blobs', blob);
+
+    if (!this.isBlobReferenced(blob)) {
+      const tempPath = `${blobPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, body);
+      await fs.rename(tempPath, blobPath);
+    }
+
+    const now = Date.now();
+    const entry = { url, blob, format: result.format, size: body.length, storedAt: now, lastAccess: now };
+    await fs.writeFile(path.join(this.dir, 'entries', `${key}.json`), JSON.stringify(entry));
+    this.entries.set(key, entry);
+
+    await this.evict();
+  }
+
+  async remove(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    await fs.rm(path.join(this.dir, 'entries', `${key}.json`), { force: true });
+    if (!this.isBlobReferenced(entry.blob)) {
+      await fs.rm(path.join(this.dir, 'blobs', entry.blob), { force: true });
+    }
+  }
+
+  isBlobReferenced(blob) {
+    for (const entry of this.entries.values()) {
+      if (entry.blob === blob) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Bytes on disk (each shared blob counted once)
+   */
+  getSizeBytes() {
+    const blobs = new Map();
+    for (const entry of this.entries.values()) blobs.set(entry.blob, entry.size);
+    let total = 0;
+    for (const size of blobs.values()) total += size;
+    return total;
+  }
+
+  async evict() {
+    if (this.getSizeBytes() <= this.maxBytes) return;
+
+    const byAge = [...this.entries.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key] of byAge) {
+      if (this.getSizeBytes() <= this.maxBytes) break;
+      await this.remove(key);
+      this.metrics.evictions++;
+    }
+    console.log(`   🧹 Cache evicted to ${(this.getSizeBytes() / 1024 / 1024).toFixed(1)} MB`);
+  }
+
+  getMetrics() {
+    const lookups = this.metrics.hits + this.metrics.misses;
+    return {
+      ...this.metrics,
+      hitRate: lookups > 0 ? Number((this.metrics.hits / lookups).toFixed(3)) : 0,
+      entries: this.entries.size,
+      sizeBytes: this.getSizeBytes(),
+      maxBytes: this.maxBytes,
+      ttlHours: this.ttl / (60 * 60 * 1000),
+      inFlight: this.inFlight.size
+    };
+  }
+}
+
+const diskCache = new DiskCache(CACHE_DIR, CACHE_TTL, CACHE_MAX_BYTES);
+
+/**
+ * downloadWithRetry behind the shared disk cache
+ */
+function cachedDownload(url) {
+  return diskCache.fetch(url, () => downloadWithRetry(url));
+}
+
 // ============================================================================
 // API ENDPOINT
 // ============================================================================
@@ -253,14 +470,15 @@ app.post('/api/download-gldas', async (req, res) => {
     return res.status(400).json({ success: false, error: 'Only NASA GES DISC URLs are allowed' });
 
   try {
-    const result = await downloadWithRetry(url);
+    const result = await cachedDownload(url);
     res.status(200).json({
       success: true,
-      data: result.data,
+      data: result.format === 'binary' ? result.data.toString('base64') : result.data,
       dataSize: result.dataSize,
       format: result.format,
       metadata: {
         responseTime: result.responseTime,
+        cached: result.cached,
         dataSize: result.dataSize,
         format: result.format,
         timestamp: new Date().toISOString()
@@ -278,6 +496,107 @@ app.post('/api/download-gldas', async (req, res) => {
   }
 });
 
+// ============================================================================
+// PARSED POINTS ENDPOINT (NDJSON STREAM)
+// ============================================================================
+
+/**
+ * POST /api/gldas-points
+ * Body: { urls: string[], lat: number, lon: number }
+ *
+ * Downloads each binary NetCDF granule, parses it server-side with the
+ * shared netcdfDecoder and streams one NDJSON line per file as it
+ * completes, so the browser never handles binary data:
+ *
+ *   {"type":"points","index":0,"url":"...","points":[WeatherDataPoint...]}
+ *   {"type":"error","index":1,"url":"...","error":"Timeout","status":504}
+ *   {"type":"done","totalFiles":2,"successCount":1,"failCount":1}
+ *
+ * URLs are built by the client (dateHelpers + dataset registry) so URL
+ * construction stays in one place.
+ */
+app.post('/api/gldas-points', async (req, res) => {
+  console.log('\n📥 ========================================');
+  console.log(' GLDAS POINTS REQUEST');
+  console.log('========================================');
+
+  const { urls, lat, lon } = req.body;
+  if (!Array.isArray(urls) || urls.length === 0)
+    return res.status(400).json({ success: false, error: 'urls must be a non-empty array' });
+  if (urls.length > MAX_POINT_FILES)
+    return res.status(400).json({ success: false, error: `At most ${MAX_POINT_FILES} files per request` });
+  if (!urls.every(url => typeof url === 'string' && url.includes('gesdisc.eosdis.nasa.gov')))
+    return res.status(400).json({ success: false, error: 'Only NASA GES DISC URLs are allowed' });
+
+  console.log(`   Files: ${urls.length}, location: ${lat}, ${lon}`);
+
+  // Downloads can be silent for longer than the default socket timeout
+  req.setTimeout(0);
+  res.setTimeout(0);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+
+  let clientClosed = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientClosed = true;
+      console.log('   ⚠️ Client disconnected, stopping downloads');
+    }
+  });
+
+  const writeEvent = (event) => {
+    if (!clientClosed) res.write(JSON.stringify(event) + '\n');
+  };
+
+  let nextIndex = 0;
+  let successCount = 0;
+  let failCount = 0;
+
+  const worker = async () => {
+    while (!clientClosed && nextIndex < urls.length) {
+      const index = nextIndex++;
+      const url = urls[index];
+
+      try {
+        const result = await cachedDownload(url);
+        if (result.format !== 'binary') {
+          throw new Error('Expected binary NetCDF response');
+        }
+
+        const buffer = result.data;
+        const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+        const points = gridToDataPoints(decodeNetCDFGrid(arrayBuffer));
+
+        successCount++;
+        writeEvent({ type: 'points', index, url, points });
+        console.log(`   ✅ File ${index + 1}/${urls.length}: ${points.length} points`);
+      } catch (error) {
+        failCount++;
+        const timedOut = error.name === 'AbortError' || error.name === 'TimeoutError';
+        // Upstream status (e.g. "Unexpected response: 429") lets the client retry
+        const upstreamStatus = error.message.match(/\b(429|5\d\d)\b/);
+        writeEvent({
+          type: 'error',
+          index,
+          url,
+          error: timedOut ? 'Timeout' : error.message,
+          status: timedOut ? 504 : upstreamStatus ? Number(upstreamStatus[1]) : undefined
+        });
+        console.error(`   ❌ File ${index + 1}/${urls.length} failed:`, error.message);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(POINT_CONCURRENCY, urls.length) }, worker));
+
+  writeEvent({ type: 'done', totalFiles: urls.length, successCount, failCount });
+  res.end();
+  console.log(`✅ Points stream complete: ${successCount}/${urls.length} files\n`);
+});
+
 // ============================================================================
 // 404 + ERROR HANDLERS
 // ============================================================================
@@ -312,9 +631,11 @@ app.use((err, req, res, next) => {
     console.log(' ============================================');
     console.log(` ✅ Server: http://localhost:${PORT}`);
     console.log(` 📥 Endpoint: POST /api/download-gldas`);
+    console.log(` 📍 Endpoint: POST /api/gldas-points (NDJSON)`);
     console.log(` ❤️  Health: GET /api/health`);
     console.log(` 👤 Username: ${NASA_USERNAME.substring(0, 3)}***`);
     console.log(` ⏱️ Timeout: ${DOWNLOAD_TIMEOUT / 1000}s`);
+    console.log(` 💾 Cache: ${CACHE_DIR} (max ${CACHE_MAX_BYTES / 1024 / 1024} MB, TTL ${CACHE_TTL / 3600000}h)`);
     console.log(` 📦 Formats: Binary NetCDF (DODS) + ASCII`);
     console.log('🚀 ============================================\n');
   });
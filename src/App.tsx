@@ -1,33 +1,41 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { InputForm, FormData } from './components/InputForm';
-import { getUrlsForDateRangeBinary } from './utils/dateHelpers';
-import { parseNetCDFData, WeatherDataPoint } from './utils/netcdfParser';
+import { NASAAuthTest } from './components/NASAAuthTest';
+import { WeatherAnalyzer } from './components/WeatherAnalyzer';
+import { LoadingIndicator } from './components/LoadingIndicator';
+import { CacheManagerPanel } from './components/CacheManagerPanel';
+import { WeatherDataPoint } from './utils/netcdfParser';
+import { gldasPointService } from './services/gldasPointService';
+import { cacheManager, GranuleQuotaReport } from './services/cacheManager';
 import { generateCSV, getDatasetSummary } from './utils/csvGenerator';
+import { LoadingProgress, ThresholdConfig } from './types/weather';
+import { DEFAULT_THRESHOLDS } from './utils/thresholds';
+import { formatDateTime, getLocationTimeZone, TimeDisplayMode } from './utils/timeZones';
 import './index.css';
 
+type AppView = 'extractor' | 'analysis' | 'cache';
+
 function App() {
+  const [view, setView] = useState<AppView>('extractor');
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState('');
   const [data, setData] = useState<WeatherDataPoint[]>([]);
   const [error, setError] = useState('');
-
-  /**
-   * Convert base64 string to ArrayBuffer
-   * Required for binary NetCDF parsing
-   */
-  const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes.buffer;
-  };
+  const [sourceProgress, setSourceProgress] = useState<LoadingProgress[]>([]);
+  const [cacheStatus, setCacheStatus] = useState<{ cachedFiles: number; totalFiles: number; report: GranuleQuotaReport } | null>(null);
+  const [thresholds, setThresholds] = useState<ThresholdConfig>(DEFAULT_THRESHOLDS);
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplayMode>('utc');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleFetchData = async (formData: FormData) => {
     setLoading(true);
     setError('');
     setData([]);
+    setSourceProgress([]);
+    setCacheStatus(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
       console.log('🚀 ============================================');
@@ -35,118 +43,28 @@ function App() {
       console.log('   ALL 36 GLDAS VARIABLES');
       console.log('============================================');
 
-      // Generate BINARY NetCDF URLs (NOT ASCII)
-      const urls = getUrlsForDateRangeBinary(
+      // One time-range request for the whole period where the product
+      // supports it; otherwise one binary NetCDF file per 3-hour step,
+      // several in flight at once. Download + parse happens on the proxy.
+      setProgress('Requesting Binary NetCDF data for the selected date range (ALL 36 variables)...');
+
+      const result = await gldasPointService.fetchDateRange(
         formData.startDate,
         formData.endDate,
         formData.latitude,
-        formData.longitude
-      );
-
-      // Warning for large date ranges
-      if (urls.length > 80) {
-        const days = Math.ceil(urls.length / 8);
-        console.warn(`⚠️ Large date range: ${urls.length} files (~${days} days)`);
-        console.warn('   Estimated time: ' + (urls.length * 2) + '-' + (urls.length * 5) + ' seconds');
-      }
-
-      setProgress(
-        `Found ${urls.length} files to download using Binary NetCDF format (ALL 36 variables)...`
-      );
-
-      const allData: WeatherDataPoint[] = [];
-      let successCount = 0;
-      let failCount = 0;
-
-      // Download and process each file
-      for (let i = 0; i < urls.length; i++) {
-        const fileNum = i + 1;
-        const progressPercent = Math.round((fileNum / urls.length) * 100);
-        setProgress(
-          `[${progressPercent}%] Downloading Binary NetCDF file ${fileNum} of ${urls.length}...`
-        );
-
-        try {
-          const response = await fetch('http://localhost:3000/api/download-gldas', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              url: urls[i]
-            })
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json();
-
-            // Handle specific errors differently
-            if (response.status === 504) {
-              throw new Error(
-                `File ${fileNum}: Timeout (NASA server slow). ` +
-                (errorData.suggestion || 'Try a smaller date range.')
-              );
-            }
-
-            throw new Error(
-              errorData.error || errorData.message || `HTTP ${response.status}`
-            );
-          }
-
-          const result = await response.json();
-
-          if (!result.success) {
-            throw new Error(result.error || 'Download failed');
-          }
-
-          if (!result.data) {
-            throw new Error('No data received from proxy');
-          }
-
-          setProgress(
-            `[${progressPercent}%] Parsing Binary NetCDF file ${fileNum}/${urls.length}...`
-          );
-
-          console.log(`📦 File ${fileNum}: Processing binary data (${(result.data.length / 1024).toFixed(2)} KB base64)...`);
-
-          // Convert base64 to ArrayBuffer
-          const arrayBuffer = base64ToArrayBuffer(result.data);
-
-          console.log(`   Converted to ArrayBuffer: ${(arrayBuffer.byteLength / 1024).toFixed(2)} KB`);
-
-          // Parse NetCDF binary format
-          const fileData = parseNetCDFData(
-            arrayBuffer,
-            formData.latitude,
-            formData.longitude
-          );
-
-          if (fileData.length > 0) {
-            const varCount = Object.keys(fileData[0]?.variables || {}).length;
-            console.log(`✅ File ${fileNum}: Extracted ${varCount} variables from ${fileData.length} data points`);
-          }
-
-          // Accumulate data
-          allData.push(...fileData);
-          successCount++;
-
-          // Update progress with success count
-          setProgress(
-            `[${progressPercent}%] Downloaded ${successCount}/${urls.length} files successfully ` +
-            `(${allData.length} data points, ${Object.keys(allData[0]?.variables || {}).length} variables)...`
-          );
-
-        } catch (error) {
-          failCount++;
-          console.error(`❌ File ${fileNum} failed:`, error);
-
-          // Continue with remaining files unless too many failures
-          if (failCount > 5 && failCount > urls.length * 0.3) {
-            throw new Error(
-              `Too many failures (${failCount}/${urls.length}). ` +
-              'Please check your credentials and try again.'
-            );
+        formData.longitude,
+        {
+          signal: controller.signal,
+          onProgress: progress => {
+            setSourceProgress(progress);
+            const overall = progress[0]?.overallProgress ?? 0;
+            setProgress(`[${overall}%] Downloading Binary NetCDF data...`);
           }
         }
-      }
+      );
+
+      const allData = result.points;
+      const { successCount, failCount, totalFiles, mode, cachedFiles } = result;
 
       // Check if we got any data
       if (allData.length === 0) {
@@ -156,14 +74,13 @@ function App() {
         );
       }
 
-      // Sort all data by timestamp
-      allData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
       console.log(`\n✅ ========================================`);
       console.log('   DOWNLOAD COMPLETE - BINARY NETCDF');
       console.log('========================================');
-      console.log(`   Success: ${successCount}/${urls.length} files`);
-      console.log(`   Failed: ${failCount}/${urls.length} files`);
+      console.log(`   Mode: ${mode === 'aggregated' ? 'single time-range request' : mode === 'cache' ? 'cache only' : 'per-granule files'}`);
+      console.log(`   From cache: ${cachedFiles}/${totalFiles} files`);
+      console.log(`   Success: ${successCount}/${totalFiles} files`);
+      console.log(`   Failed: ${failCount}/${totalFiles} files`);
       console.log(`   Total data points: ${allData.length}`);
       console.log(`   Format: Binary NetCDF (DODS)`);
 
@@ -181,8 +98,14 @@ function App() {
       console.log('========================================\n');
 
       setData(allData);
+
+      // Quota report is informational; IndexedDB may be unavailable
+      cacheManager.getGranuleQuotaReport()
+        .then(report => setCacheStatus({ cachedFiles, totalFiles, report }))
+        .catch(reportError => console.warn('⚠️ Cache quota report unavailable:', reportError));
+
       setProgress(
-        `✅ Successfully downloaded ${successCount}/${urls.length} Binary NetCDF files! ` +
+        `✅ Successfully downloaded ${successCount}/${totalFiles} Binary NetCDF files! ` +
         `${allData.length} data points with ${summary.variables.length} variables. ` +
         `Click "Download CSV" to export.`
       );
@@ -192,6 +115,12 @@ function App() {
       }
 
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        console.log('🛑 Download cancelled by user');
+        setProgress('');
+        setError('Download cancelled.');
+        return;
+      }
       console.error('❌ Fetch error:', error);
       setError(
         error instanceof Error
@@ -200,10 +129,18 @@ function App() {
       );
       setProgress('');
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  /**
+   * Cancel all pending and in-flight downloads
+   */
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   /**
    * Download consolidated CSV with all data from all files.
    * This is the ONLY place where CSV download happens.
@@ -241,6 +178,11 @@ function App() {
     console.log(`   Contains ${data.length} data points with ${Object.keys(data[0]?.variables || {}).length} variables`);
   };
 
+  // Timestamps are UTC; the location's zone is derived from the data's grid cell
+  const locationTimeZone = data.length > 0
+    ? getLocationTimeZone({ lat: data[0].lat, lng: data[0].lon }).timeZone
+    : 'UTC';
+
   return (
     <div className="app">
       <div className="app-header">
@@ -251,69 +193,132 @@ function App() {
         </p>
       </div>
 
-      <InputForm onSubmit={handleFetchData} loading={loading} />
+      <div className="flex justify-center gap-sm mb-lg">
+        <button
+          className={view === 'extractor' ? 'btn' : 'btn btn-secondary'}
+          onClick={() => setView('extractor')}
+        >
+          📥 Data Extractor
+        </button>
+        <button
+          className={view === 'analysis' ? 'btn' : 'btn btn-secondary'}
+          onClick={() => setView('analysis')}
+        >
+          📊 Probability Analysis
+        </button>
+        <button
+          className={view === 'cache' ? 'btn' : 'btn btn-secondary'}
+          onClick={() => setView('cache')}
+        >
+          💾 Cache
+        </button>
+      </div>
 
-      {loading && (
-        <div className="loading">
-          <div className="loading-spinner"></div>
-          <p>{progress}</p>
-        </div>
-      )}
+      {view === 'cache' && <CacheManagerPanel />}
 
-      {error && (
-        <div className="error">
-          <p>{error}</p>
-        </div>
+      {view === 'analysis' && (
+        <>
+          <NASAAuthTest />
+          <WeatherAnalyzer thresholds={thresholds} onThresholdsChange={setThresholds} />
+        </>
       )}
 
-      {data.length > 0 && (
-        <div className="results">
-          <h3>📊 Extracted Weather Data (Binary NetCDF)</h3>
-          <p className="results-count">
-            Total: {data.length} data points • {Object.keys(data[0]?.variables || {}).length} variables
-          </p>
-
-          <div className="table-container">
-            <table>
-              <thead>
-                <tr>
-                  <th>Date/Time</th>
-                  <th>Latitude</th>
-                  <th>Longitude</th>
-                  <th>Variables</th>
-                </tr>
-              </thead>
-              <tbody>
-                {data.slice(0, 20).map((point, i) => {
-                  const varCount = Object.keys(point.variables).length;
-                  const varNames = Object.keys(point.variables).slice(0, 3).join(", ");
-                  return (
-                    <tr key={i}>
-                      <td>{point.timestamp.toLocaleString()}</td>
-                      <td>{point.lat.toFixed(4)}</td>
-                      <td>{point.lon.toFixed(4)}</td>
-                      <td>{varNames}{varCount > 3 ? ` +${varCount - 3} more` : ''}</td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-
-          {data.length > 20 && (
-            <p className="results-count">Showing first 20 of {data.length} records</p>
+      {view === 'extractor' && (
+        <>
+          <InputForm
+            onSubmit={handleFetchData}
+            loading={loading}
+            thresholds={thresholds}
+            onThresholdsChange={setThresholds}
+          />
+
+          {loading && (
+            <div className="loading">
+              <div className="loading-spinner"></div>
+              <p>{progress}</p>
+              {sourceProgress.length > 0 && (
+                <LoadingIndicator progress={sourceProgress} title="Downloading NASA GLDAS data" />
+              )}
+              <button className="btn btn-secondary" onClick={handleCancel}>
+                Cancel download
+              </button>
+            </div>
           )}
 
-          <button className="download-btn" onClick={handleDownloadCSV}>
-            📥 Download CSV with All 36 Variables ({data.length} records)
-          </button>
+          {error && (
+            <div className="error">
+              <p>{error}</p>
+            </div>
+          )}
 
-          <p style={{ marginTop: '1rem', fontSize: '0.9rem', color: '#666' }}>
-            💡 CSV includes: Energy fluxes (5), Water balance (6), Surface (4), 
-            Soil moisture (4 layers), Soil temperature (4 layers), Evaporation (4), 
-            Other (3), Forcing (7) = 36 total variables
-          </p>
-        </div>
+          {data.length > 0 && (
+            <div className="results">
+              <h3>📊 Extracted Weather Data (Binary NetCDF)</h3>
+              <p className="results-count">
+                Total: {data.length} data points • {Object.keys(data[0]?.variables || {}).length} variables
+              </p>
+
+              <p className="results-count">
+                Times shown in{' '}
+                <select value={timeDisplay} onChange={(e) => setTimeDisplay(e.target.value as TimeDisplayMode)}>
+                  <option value="utc">UTC</option>
+                  <option value="location">local time ({locationTimeZone})</option>
+                </select>
+              </p>
+
+              <div className="table-container">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Date/Time</th>
+                      <th>Latitude</th>
+                      <th>Longitude</th>
+                      <th>Variables</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.slice(0, 20).map((point, i) => {
+                      const varCount = Object.keys(point.variables).length;
+                      const varNames = Object.keys(point.variables).slice(0, 3).join(", ");
+                      return (
+                        <tr key={i}>
+                          <td>{formatDateTime(point.timestamp, timeDisplay, locationTimeZone)}</td>
+                          <td>{point.lat.toFixed(4)}</td>
+                          <td>{point.lon.toFixed(4)}</td>
+                          <td>{varNames}{varCount > 3 ? ` +${varCount - 3} more` : ''}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {data.length > 20 && (
+                <p className="results-count">Showing first 20 of {data.length} records</p>
+              )}
+
+              {cacheStatus && (
+                <p className="results-count">
+                  💾 {cacheStatus.cachedFiles}/{cacheStatus.totalFiles} files from cache • Cache:{' '}
+                  {(cacheStatus.report.usedBytes / 1024 / 1024).toFixed(1)} of{' '}
+                  {(cacheStatus.report.maxBytes / 1024 / 1024).toFixed(0)} MB ({cacheStatus.report.entries} granules)
+                  {cacheStatus.report.storageQuota !== undefined &&
+                    ` • Browser storage: ${((cacheStatus.report.storageUsage ?? 0) / 1024 / 1024).toFixed(1)} of ${(cacheStatus.report.storageQuota / 1024 / 1024).toFixed(0)} MB`}
+                </p>
+              )}
+
+              <button className="download-btn" onClick={handleDownloadCSV}>
+                📥 Download CSV with All 36 Variables ({data.length} records)
+              </button>
+
+              <p style={{ marginTop: '1rem', fontSize: '0.9rem', color: '#666' }}>
+                💡 CSV includes: Energy fluxes (5), Water balance (6), Surface (4), 
+                Soil moisture (4 layers), Soil temperature (4 layers), Evaporation (4), 
+                Other (3), Forcing (7) = 36 total variables
+              </p>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
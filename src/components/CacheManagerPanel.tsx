@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  cacheManager,
+  CacheEntryFilter,
+  CacheEntryInfo,
+  GranuleQuotaReport
+} from '../services/cacheManager';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 16).replace('T', ' ');
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  borderRadius: '8px',
+  border: '2px solid rgba(59, 130, 246, 0.3)',
+  background: 'rgba(255, 255, 255, 0.05)'
+};
+
+/**
+ * Lists what the browser cache holds (analysis datasets and downloaded
+ * granules), with filters by location, date range and source, and lets
+ * the user delete matching entries to reclaim space.
+ */
+export const CacheManagerPanel: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+  const [sources, setSources] = useState<string[]>([]);
+  const [quota, setQuota] = useState<GranuleQuotaReport | null>(null);
+  const [counters, setCounters] = useState(cacheManager.getCounters());
+  const [status, setStatus] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const [lat, setLat] = useState('');
+  const [lng, setLng] = useState('');
+  const [radius, setRadius] = useState('0.25');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [source, setSource] = useState('');
+
+  // A half-typed or invalid location is reported and left out of the
+  // filter, rather than becoming NaN and matching everything
+  const locationError = useMemo((): string | null => {
+    if (lat.trim() === '' && lng.trim() === '') return null;
+    if (lat.trim() === '' || lng.trim() === '') return 'Enter both latitude and longitude';
+
+    const latValue = Number(lat);
+    const lngValue = Number(lng);
+    const radiusValue = Number(radius);
+    if (!Number.isFinite(latValue) || latValue < -90 || latValue > 90) {
+      return 'Latitude must be a number between -90 and 90';
+    }
+    if (!Number.isFinite(lngValue) || lngValue < -180 || lngValue > 180) {
+      return 'Longitude must be a number between -180 and 180';
+    }
+    if (radius.trim() !== '' && !(Number.isFinite(radiusValue) && radiusValue > 0)) {
+      return 'Radius must be a positive number of degrees';
+    }
+    return null;
+  }, [lat, lng, radius]);
+
+  const filter = useMemo((): CacheEntryFilter => {
+    const result: CacheEntryFilter = {};
+    if (lat.trim() !== '' && lng.trim() !== '' && !locationError) {
+      result.location = { lat: Number(lat), lng: Number(lng) };
+      result.radiusDegrees = radius.trim() !== '' ? Number(radius) : 0.25;
+    }
+    if (start && end) {
+      result.dateRange = { start: new Date(`${start}T00:00:00Z`), end: new Date(`${end}T23:59:59Z`) };
+    }
+    if (source) result.source = source;
+    return result;
+  }, [lat, lng, radius, start, end, source, locationError]);
+
+  const refresh = useCallback(async () => {
+    setBusy(true);
+    try {
+      // Source options come from the whole cache, not just the matches
+      const [list, all, report] = await Promise.all([
+        cacheManager.listEntries(filter),
+        cacheManager.listEntries(),
+        cacheManager.getGranuleQuotaReport()
+      ]);
+      setEntries(list);
+      setSources(Array.from(new Set(all.map(entry => entry.source))).sort());
+      setQuota(report);
+      setCounters(cacheManager.getCounters());
+      setStatus('');
+    } catch (error) {
+      setStatus(`❌ Cache unavailable: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const matchingSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  const handleInvalidate = async () => {
+    const isFiltered = Object.keys(filter).length > 0;
+    if (!window.confirm(isFiltered
+      ? `Delete ${entries.length} matching cache entries (${formatBytes(matchingSize)})?`
+      : 'Clear the entire cache?')) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      // Refresh first: a successful refresh clears the status line
+      if (isFiltered) {
+        const removed = await cacheManager.invalidate(filter);
+        await refresh();
+        setStatus(`🗑️ Removed ${removed} entries`);
+      } else {
+        await cacheManager.clearCache();
+        await refresh();
+        setStatus('🗑️ Cache cleared');
+      }
+    } catch (error) {
+      setStatus(`❌ Could not delete cache entries: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (entry: CacheEntryInfo) => {
+    setBusy(true);
+    try {
+      await cacheManager.deleteEntries([entry]);
+      await refresh();
+    } catch (error) {
+      setStatus(`❌ Could not delete cache entry: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="glass-card" style={{ padding: '1.5rem', margin: '2rem auto' }}>
+      <h3 style={{ marginBottom: '1rem' }}>💾 Cache Manager</h3>
+
+      <p className="results-count">
+        {quota
+          ? `${quota.entries} granules • ${formatBytes(quota.usedBytes)} of ${formatBytes(quota.maxBytes)}`
+          : 'Loading…'}
+        {quota?.storageQuota !== undefined &&
+          ` • Browser storage ${formatBytes(quota.storageUsage ?? 0)} of ${formatBytes(quota.storageQuota)}`}
+      </p>
+      <p className="results-count">
+        Hits: {counters.memoryHits + counters.diskHits + counters.granuleHits} •
+        Misses: {counters.misses + counters.granuleMisses} •
+        Hit rate: {(counters.hitRate * 100).toFixed(0)}%
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '0.5rem', margin: '1rem 0' }}>
+        <input style={inputStyle} placeholder="Latitude" value={lat} onChange={e => setLat(e.target.value)} />
+        <input style={inputStyle} placeholder="Longitude" value={lng} onChange={e => setLng(e.target.value)} />
+        <input style={inputStyle} placeholder="Radius (°)" value={radius} onChange={e => setRadius(e.target.value)} />
+        <input style={inputStyle} type="date" value={start} onChange={e => setStart(e.target.value)} />
+        <input style={inputStyle} type="date" value={end} onChange={e => setEnd(e.target.value)} />
+        <select style={inputStyle} value={source} onChange={e => setSource(e.target.value)}>
+          <option value="">All sources</option>
+          {sources.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-sm mb-lg">
+        <button className="btn btn-secondary" onClick={refresh} disabled={busy}>
+          🔄 Refresh
+        </button>
+        <button className="btn" onClick={handleInvalidate} disabled={busy || entries.length === 0 || locationError !== null}>
+          🗑️ {Object.keys(filter).length > 0 ? `Delete ${entries.length} matching` : 'Clear all'}
+        </button>
+      </div>
+
+      {locationError && <p>⚠️ {locationError} • location filter not applied</p>}
+      {status && <p>{status}</p>}
+
+      <p className="results-count">
+        {entries.length} entries • {formatBytes(matchingSize)}
+      </p>
+
+      {entries.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Type</th>
+                <th>Location</th>
+                <th>Dates (UTC)</th>
+                <th>Source</th>
+                <th>Size</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.slice(0, 100).map(entry => (
+                <tr key={entry.key}>
+                  <td>{entry.kind}</td>
+                  <td>{entry.location.lat.toFixed(3)}, {entry.location.lng.toFixed(3)}</td>
+                  <td>
+                    {formatDate(entry.dateRange.start)}
+                    {entry.dateRange.end.getTime() !== entry.dateRange.start.getTime() && ` → ${formatDate(entry.dateRange.end)}`}
+                  </td>
+                  <td>{entry.source}</td>
+                  <td>{formatBytes(entry.size)}</td>
+                  <td>
+                    <button className="btn btn-secondary" onClick={() => handleDelete(entry)} disabled={busy}>
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {entries.length > 100 && (
+        <p className="results-count">Showing first 100 of {entries.length} entries</p>
+      )}
+    </div>
+  );
+};
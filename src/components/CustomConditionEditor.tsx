@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { CustomCondition } from '../types/weather';
+import { customConditionStore } from '../services/customConditionStore';
+import { CONDITION_VARIABLES, parseCondition } from '../utils/conditionExpression';
+
+interface CustomConditionEditorProps {
+  conditions: CustomCondition[];
+  onChange: (conditions: CustomCondition[]) => void;
+  disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  borderRadius: '8px',
+  border: '2px solid rgba(59, 130, 246, 0.3)',
+  background: 'rgba(255, 255, 255, 0.05)'
+};
+
+/**
+ * Create and delete the user's named conditions, e.g. "Cold rain" =
+ * "rain > 1 mm AND temp < 5°C". Conditions are saved per user.
+ */
+export const CustomConditionEditor: React.FC<CustomConditionEditorProps> = ({ conditions, onChange, disabled = false }) => {
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [error, setError] = useState('');
+
+  const handleExpressionChange = (value: string) => {
+    setExpression(value);
+    if (!value.trim()) {
+      setError('');
+      return;
+    }
+    try {
+      parseCondition(value);
+      setError('');
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      customConditionStore.save({ name, expression });
+      onChange(customConditionStore.list());
+      setName('');
+      setExpression('');
+      setError('');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    customConditionStore.remove(id);
+    onChange(customConditionStore.list());
+  };
+
+  return (
+    <div>
+      {conditions.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, marginBottom: '1rem' }}>
+          {conditions.map(condition => (
+            <li key={condition.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '0.5rem' }}>
+              <strong>{condition.name}</strong>
+              <code style={{ opacity: 0.8, flex: 1 }}>{condition.expression}</code>
+              <button
+                className="btn btn-secondary"
+                onClick={() => handleRemove(condition.id)}
+                disabled={disabled}
+                title="Delete condition"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} style={{ display: 'grid', gridTemplateColumns: '1fr 2fr auto', gap: '0.5rem' }}>
+        <input
+          style={inputStyle}
+          placeholder="Name, e.g. Cold rain"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          disabled={disabled}
+        />
+        <input
+          style={inputStyle}
+          placeholder="rain > 1 mm AND temp < 5°C"
+          value={expression}
+          onChange={e => handleExpressionChange(e.target.value)}
+          disabled={disabled}
+        />
+        <button className="btn" type="submit" disabled={disabled || !name.trim() || !expression.trim() || error !== ''}>
+          Add
+        </button>
+      </form>
+
+      {error && <p style={{ color: '#ef4444', fontSize: '0.8rem', marginTop: '0.5rem' }}>{error}</p>}
+
+      <p style={{ fontSize: '0.75rem', opacity: 0.7, marginTop: '0.5rem' }}>
+        Variables: {Object.values(CONDITION_VARIABLES).map(v => `${v.aliases[0]} (${v.units})`).join(', ')}.
+        Combine comparisons with AND, OR, NOT and parentheses.
+      </p>
+    </div>
+  );
+};
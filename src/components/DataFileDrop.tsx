@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { WeatherDataset } from '../types/weather';
+import { dataFormatRegistry } from '../services/dataProcessor';
+
+interface DataFileDropProps {
+  datasets: WeatherDataset[];
+  onChange: (datasets: WeatherDataset[]) => void;
+  disabled?: boolean;
+}
+
+// Extensions offered by the file dialog; dropped files are recognised by content
+const ACCEPTED_EXTENSIONS = '.nc,.nc4,.netcdf,.grb,.grb2,.grib,.grib2';
+
+/**
+ * Drop zone / file picker for local NetCDF (.nc, .nc4) and GRIB2 files,
+ * e.g. GLDAS granules. Files are decoded in the browser and added to the
+ * loaded datasets; a file that fails to decode is reported and skipped.
+ */
+export const DataFileDrop: React.FC<DataFileDropProps> = ({ datasets, onChange, disabled = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [status, setStatus] = useState<string[]>([]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsReading(true);
+    const loaded: WeatherDataset[] = [];
+    const messages: string[] = [];
+
+    // One at a time: decoded grids can be large
+    for (const file of Array.from(files)) {
+      try {
+        const dataset = await dataFormatRegistry.processFile(file);
+        loaded.push(dataset);
+        messages.push(`✅ ${file.name}: ${dataset.metadata.variables.length} variables, ${dataset.data.coordinates.time.length} time steps`);
+      } catch (error) {
+        messages.push(`❌ ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    setStatus(messages);
+    setIsReading(false);
+    if (loaded.length > 0) {
+      onChange([...datasets, ...loaded]);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!disabled && !isReading) {
+      handleFiles(event.dataTransfer.files);
+    }
+  };
+
+  const handleClear = () => {
+    onChange([]);
+    setStatus([]);
+  };
+
+  return (
+    <div>
+      <label
+        onDragOver={event => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className="clay-inset"
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: '0.5rem',
+          padding: '1.5rem',
+          borderRadius: '12px',
+          border: `2px dashed ${isDragging ? '#3b82f6' : 'rgba(59, 130, 246, 0.3)'}`,
+          cursor: disabled || isReading ? 'not-allowed' : 'pointer',
+          opacity: disabled ? 0.6 : 1
+        }}
+      >
+        <Upload size={24} />
+        <span>{isReading ? 'Reading files...' : 'Drop .nc / .nc4 / GRIB2 files here, or click to choose'}</span>
+        <input
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS}
+          disabled={disabled || isReading}
+          onChange={event => {
+            handleFiles(event.target.files);
+            event.target.value = '';
+          }}
+          style={{ display: 'none' }}
+        />
+      </label>
+
+      {status.length > 0 && (
+        <div style={{ fontFamily: 'monospace', fontSize: '0.875rem', marginTop: '0.75rem' }}>
+          {status.map((message, i) => (
+            <div key={i} style={{ marginBottom: '0.25rem' }}>{message}</div>
+          ))}
+        </div>
+      )}
+
+      {datasets.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginTop: '0.75rem' }}>
+          <span style={{ fontSize: '0.875rem' }}>
+            {datasets.length} file{datasets.length === 1 ? '' : 's'} loaded • analysis uses these instead of NASA downloads
+          </span>
+          <button className="btn btn-secondary" onClick={handleClear} disabled={disabled}>
+            <X size={14} style={{ marginRight: '0.25rem' }} />
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,29 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { MAX_EVENT_WINDOW_DAYS } from '../utils/spellAnalysis';
+import { calendarDaysBetween, formatDateInput, parseDateInput, toCalendarDate } from '../utils/timeZones';
 
 interface DatePickerProps {
   selectedDate: Date;
   onDateSelect: (date: Date) => void;
+  // Last day of a date range (e.g. a trip) starting on the target date;
+  // the same day for a single date. Hidden without a handler
+  endDate?: Date;
+  onEndDateChange?: (date: Date) => void;
+  // Window length for multi-day spells (e.g. a 5-day festival), separate
+  // from the date range; hidden without a handler
+  eventWindowDays?: number;
+  onEventWindowChange?: (days: number) => void;
 }
 
 export const DatePicker: React.FC<DatePickerProps> = ({
   selectedDate,
-  onDateSelect
+  onDateSelect,
+  endDate = selectedDate,
+  onEndDateChange,
+  eventWindowDays = 1,
+  onEventWindowChange
 }) => {
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
@@ -26,9 +40,35 @@ export const DatePicker: React.FC<DatePickerProps> = ({
     onDateSelect(newDate);
   };
 
+  const [endDateError, setEndDateError] = useState('');
+
+  const rangeDays = calendarDaysBetween(toCalendarDate(selectedDate), toCalendarDate(endDate)) + 1;
+  const latestEnd = new Date(selectedDate);
+  latestEnd.setDate(latestEnd.getDate() + MAX_EVENT_WINDOW_DAYS - 1);
+  const formatShort = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  // An end before the start or more than MAX_EVENT_WINDOW_DAYS days after
+  // it is reported, not applied
+  const handleEndDateChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const newEnd = parseDateInput(event.target.value);
+    if (!newEnd || !onEndDateChange) return;
+    const days = calendarDaysBetween(toCalendarDate(selectedDate), toCalendarDate(newEnd)) + 1;
+    if (days < 1) {
+      setEndDateError('The end date is before the target date');
+      return;
+    }
+    if (days > MAX_EVENT_WINDOW_DAYS) {
+      setEndDateError(`Date ranges can be at most ${MAX_EVENT_WINDOW_DAYS} days (latest end ${formatShort(latestEnd)})`);
+      return;
+    }
+    setEndDateError('');
+    onEndDateChange(newEnd);
+  };
+
+  // Local midnight of the picked day, like the arrow and quick-select dates
   const handleDateChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newDate = new Date(event.target.value);
-    if (!isNaN(newDate.getTime())) {
+    const newDate = parseDateInput(event.target.value);
+    if (newDate) {
       onDateSelect(newDate);
     }
   };
@@ -57,7 +97,7 @@ export const DatePicker: React.FC<DatePickerProps> = ({
         <div className="date-input-container clay-inset">
           <input
             type="date"
-            value={selectedDate.toISOString().split('T')[0]}
+            value={formatDateInput(selectedDate)}
             onChange={handleDateChange}
             className="date-input"
           />
@@ -74,6 +114,57 @@ export const DatePicker: React.FC<DatePickerProps> = ({
         </motion.button>
       </div>
 
+      {onEndDateChange && (
+        <div className="date-range" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem', margin: '1rem 0' }}>
+          <label htmlFor="range-end-date" className="quick-dates-label">Until:</label>
+          <input
+            id="range-end-date"
+            type="date"
+            value={formatDateInput(endDate)}
+            min={formatDateInput(selectedDate)}
+            max={formatDateInput(latestEnd)}
+            onChange={handleEndDateChange}
+            className="date-input"
+          />
+          <span style={{ fontSize: '0.875rem', opacity: 0.8 }}>
+            {rangeDays > 1
+              ? `${formatShort(selectedDate)} – ${formatShort(endDate)} (${rangeDays} days)`
+              : 'Single day'}
+          </span>
+          {rangeDays > 1 && (
+            <button
+              className="quick-date-button glass-button"
+              onClick={() => {
+                setEndDateError('');
+                onEndDateChange(selectedDate);
+              }}
+            >
+              Single day
+            </button>
+          )}
+          {endDateError && (
+            <span style={{ fontSize: '0.875rem', color: '#ef4444', width: '100%' }}>⚠️ {endDateError}</span>
+          )}
+        </div>
+      )}
+
+      {onEventWindowChange && (
+        <div className="event-window" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', margin: '1rem 0' }}>
+          <label htmlFor="event-window-days" className="quick-dates-label">Spell Window:</label>
+          <select
+            id="event-window-days"
+            value={eventWindowDays}
+            onChange={e => onEventWindowChange(Number(e.target.value))}
+            style={{ padding: '0.5rem', borderRadius: '8px' }}
+          >
+            {Array.from({ length: MAX_EVENT_WINDOW_DAYS }, (_, i) => i + 1).map(days => (
+              <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+            ))}
+          </select>
+          <span style={{ fontSize: '0.875rem', opacity: 0.8 }}>for multi-day events such as heatwaves</span>
+        </div>
+      )}
+
       <div className="quick-dates">
         <span className="quick-dates-label">Quick Select:</span>
         <div className="quick-dates-grid">
@@ -0,0 +1,92 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DateRange } from '../types/weather';
+import { overallCompleteness, VariableQuality } from '../utils/gapDetection';
+import { formatDateTime, TimeDisplayMode } from '../utils/timeZones';
+
+export interface GapTimelineRow {
+  label: string;
+  range: DateRange;
+  variables: VariableQuality[];
+}
+
+interface GapTimelineProps {
+  rows: GapTimelineRow[];
+  /** Completeness (%) below which a warning is shown */
+  warnBelow?: number;
+  /** Location time zone for gap times (UTC when omitted) */
+  timeZone?: string;
+  timeDisplay?: TimeDisplayMode;
+}
+
+const formatHours = (hours: number): string =>
+  hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours} h`;
+
+/**
+ * One bar per period (e.g. per climatology year) with missing time steps
+ * marked in red, so users can see when probabilities rest on holey data.
+ */
+export const GapTimeline: React.FC<GapTimelineProps> = ({ rows, warnBelow = 90, timeZone = 'UTC', timeDisplay = 'utc' }) => {
+  const formatTime = (date: Date) => formatDateTime(date, timeDisplay, timeZone);
+
+  const all = rows.flatMap(row => row.variables);
+  const completeness = overallCompleteness(all);
+  const fillValues = all.reduce((sum, variable) => sum + variable.fillCount, 0);
+  const longestGap = all.reduce((max, variable) => Math.max(max, variable.longestGapHours), 0);
+
+  return (
+    <div>
+      <h3 style={{ marginBottom: '0.5rem' }}>Data Gaps</h3>
+      <p style={{ fontSize: '0.875rem', opacity: 0.8, marginBottom: '1rem' }}>
+        {completeness.toFixed(1)}% of expected time steps present • Longest gap {formatHours(longestGap)} • {fillValues} fill values
+      </p>
+
+      {completeness < warnBelow && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          padding: '0.75rem 1rem',
+          marginBottom: '1rem',
+          background: 'rgba(245, 158, 11, 0.1)',
+          border: '2px solid rgba(245, 158, 11, 0.3)',
+          borderRadius: '8px',
+          fontSize: '0.875rem'
+        }}>
+          <AlertTriangle size={18} color="#f59e0b" />
+          Only {completeness.toFixed(0)}% of the expected data is present; probabilities may be less reliable.
+        </div>
+      )}
+
+      {rows.map(row => {
+        const start = row.range.start.getTime();
+        const span = Math.max(1, row.range.end.getTime() - start);
+        const rowCompleteness = overallCompleteness(row.variables);
+
+        return (
+          <div key={row.label} style={{ display: 'grid', gridTemplateColumns: '4rem 1fr 4rem', alignItems: 'center', gap: '0.75rem', marginBottom: '0.35rem' }}>
+            <span style={{ fontSize: '0.75rem', opacity: 0.8 }}>{row.label}</span>
+            <div style={{ position: 'relative', height: '10px', borderRadius: '5px', background: 'rgba(16, 185, 129, 0.5)', overflow: 'hidden' }}>
+              {row.variables.flatMap(variable =>
+                variable.missingIntervals.map(gap => {
+                  const left = ((gap.start.getTime() - start) / span) * 100;
+                  const width = Math.max(0.5, (gap.steps * variable.stepHours * 3600000 / span) * 100);
+                  return (
+                    <span
+                      key={`${variable.variable}-${gap.start.getTime()}`}
+                      title={`${variable.variable}: ${formatTime(gap.start)} → ${formatTime(gap.end)} (${gap.steps} steps)`}
+                      style={{ position: 'absolute', top: 0, bottom: 0, left: `${left}%`, width: `${width}%`, background: '#ef4444' }}
+                    />
+                  );
+                })
+              )}
+            </div>
+            <span style={{ fontSize: '0.75rem', textAlign: 'right', color: rowCompleteness < warnBelow ? '#ef4444' : undefined }}>
+              {rowCompleteness.toFixed(0)}%
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
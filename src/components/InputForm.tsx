@@ -1,4 +1,7 @@
 import React, { useState } from 'react';
+import { ThresholdConfig } from '../types/weather';
+import { validateThresholds } from '../utils/thresholds';
+import { ThresholdSettings } from './ThresholdSettings';
 
 export interface FormData {
   latitude: number;
@@ -10,9 +13,12 @@ export interface FormData {
 interface InputFormProps {
   onSubmit: (data: FormData) => void;
   loading?: boolean;
+  /** Condition thresholds shared with the probability analysis */
+  thresholds?: ThresholdConfig;
+  onThresholdsChange?: (thresholds: ThresholdConfig) => void;
 }
 
-export function InputForm({ onSubmit, loading = false }: InputFormProps) {
+export function InputForm({ onSubmit, loading = false, thresholds, onThresholdsChange }: InputFormProps) {
   const [latitude, setLatitude] = useState('40.0');
   const [longitude, setLongitude] = useState('-100.0');
   const [startDate, setStartDate] = useState('2023-07-04');
@@ -36,6 +42,7 @@ export function InputForm({ onSubmit, loading = false }: InputFormProps) {
       return;
     }
 
+    // Date-only strings parse as UTC midnight: the extractor works in UTC days
     const start = new Date(startDate);
     const end = new Date(endDate);
 
@@ -50,6 +57,11 @@ export function InputForm({ onSubmit, loading = false }: InputFormProps) {
       return;
     }
 
+    if (thresholds && Object.keys(validateThresholds(thresholds)).length > 0) {
+      setError('Fix the condition thresholds before continuing');
+      return;
+    }
+
     onSubmit({
       latitude: lat,
       longitude: lon,
@@ -126,6 +138,15 @@ export function InputForm({ onSubmit, loading = false }: InputFormProps) {
             </div>
           </div>
 
+          {thresholds && onThresholdsChange && (
+            <details style={{ padding: '0 var(--spacing-xl) var(--spacing-md)' }}>
+              <summary>🌡️ Condition thresholds (used by Probability Analysis)</summary>
+              <div style={{ marginTop: 'var(--spacing-md)' }}>
+                <ThresholdSettings value={thresholds} onChange={onThresholdsChange} disabled={loading} />
+              </div>
+            </details>
+          )}
+
           <button type="submit" disabled={loading} className="btn-primary">
             {loading ? '⏳ Fetching Data...' : '🚀 Extract Weather Data'}
           </button>
@@ -115,6 +115,9 @@ export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
                   {item.status === 'loading' && 'Processing...'}
                   {item.status === 'complete' && 'Complete'}
                   {item.status === 'error' && 'Error'}
+                  {item.total !== undefined && ` ${item.completed ?? 0}/${item.total}`}
+                  {!!item.retrying && ` • retrying ${item.retrying}`}
+                  {!!item.failed && ` • ${item.failed} failed`}
                 </span>
               </div>
               <span className="source-progress-text">
@@ -50,7 +50,8 @@ export const NASADataFetchTest: React.FC = () => {
         `✅ NASA data fetched successfully!\n\n` +
         `Temperature data points: ${timeSeries.temperature.length}\n` +
         `Precipitation data points: ${timeSeries.precipitation.length}\n` +
-        `Date range: ${quality.dateRange.start.toLocaleDateString()} to ${quality.dateRange.end.toLocaleDateString()}\n\n` +
+        `Date range: ${quality.dateRange.start.toLocaleDateString()} to ${quality.dateRange.end.toLocaleDateString()}\n` +
+        `Completeness: ${quality.completeness.toFixed(1)}% • Longest gap: ${quality.longestGapHours}h • Fill values: ${quality.fillValues}\n\n` +
         `Sample temperature values:\n` +
         timeSeries.temperature.slice(0, 5).map(p => 
           `  ${p.date.toLocaleDateString()}: ${p.value.toFixed(2)}°C`
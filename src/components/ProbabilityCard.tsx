@@ -4,7 +4,8 @@ import { Info, TrendingUp } from 'lucide-react';
 import { WeatherCondition } from '../types/weather';
 
 interface ProbabilityCardProps {
-  condition: WeatherCondition;
+  // Built-in conditions, or user-defined ones with their own type id
+  condition: Omit<WeatherCondition, 'type'> & { type: string };
   icon: React.ComponentType<any>;
   color: string;
 }
@@ -40,7 +41,9 @@ export const ProbabilityCard: React.FC<ProbabilityCardProps> = ({
         </div>
         <div className="condition-info">
           <h3 className="condition-label">{condition.label}</h3>
-          <span className="condition-type">{condition.type.replace(/([A-Z])/g, ' $1').toLowerCase()}</span>
+          <span className="condition-type">
+            {condition.thresholdLabel ?? condition.type.replace(/([A-Z])/g, ' $1').toLowerCase()}
+          </span>
         </div>
       </div>
 
@@ -103,11 +106,22 @@ export const ProbabilityCard: React.FC<ProbabilityCardProps> = ({
       <div className="card-metrics">
         <div className="metric">
           <TrendingUp size={16} />
-          <span>Confidence: {condition.confidence}%</span>
+          <span>
+            {condition.confidenceInterval
+              ? `${condition.confidence}% CI: ${condition.confidenceInterval.lower}–${condition.confidenceInterval.upper}%`
+              : `Confidence: ${condition.confidence}%`}
+          </span>
         </div>
         <div className="metric">
           <span>Historical: {condition.historicalOccurrences} events</span>
         </div>
+        {condition.trend && condition.trend.direction !== 'none' && (
+          <div className="metric">
+            <span>
+              {condition.trend.direction === 'increasing' ? '↑ Becoming more common' : '↓ Becoming less common'}
+            </span>
+          </div>
+        )}
       </div>
 
       <motion.button
@@ -129,7 +143,7 @@ export const ProbabilityCard: React.FC<ProbabilityCardProps> = ({
         >
           <div className="detail-row">
             <span className="detail-label">Threshold:</span>
-            <span className="detail-value">{condition.threshold.toFixed(2)}</span>
+            <span className="detail-value">{condition.thresholdLabel ?? condition.threshold.toFixed(2)}</span>
           </div>
           <div className="detail-row">
             <span className="detail-label">Historical Events:</span>
@@ -139,6 +153,15 @@ export const ProbabilityCard: React.FC<ProbabilityCardProps> = ({
             <span className="detail-label">Confidence Level:</span>
             <span className="detail-value">{condition.confidence}%</span>
           </div>
+          {condition.trend && (
+            <div className="detail-row">
+              <span className="detail-label">Trend:</span>
+              <span className="detail-value">
+                {condition.trend.slopePerDecade >= 0 ? '+' : ''}{condition.trend.slopePerDecade} pts/decade
+                {' '}(p = {condition.trend.pValue.toFixed(3)}{condition.trend.direction === 'none' ? ', not significant' : ''})
+              </span>
+            </div>
+          )}
         </motion.div>
       )}
     </motion.div>
@@ -2,8 +2,9 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { 
   ResponsiveContainer, 
-  AreaChart, 
+  ComposedChart, 
   Area, 
+  Line, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -17,34 +18,62 @@ interface ProbabilityChartProps {
     years: number[];
     values: number[];
   };
+  // One interval per year, or a single interval drawn across all years
   confidenceIntervals: Array<{
     lower: number;
     upper: number;
   }>;
+  // Fitted trend (value = intercept + slope × year), drawn as a line
+  trend?: {
+    slope: number;
+    intercept: number;
+    significant?: boolean;
+  };
+  title?: string;
+  subtitle?: string;
+  valueLabel?: string;
 }
 
 export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
   data,
-  confidenceIntervals
+  confidenceIntervals,
+  trend,
+  title = 'Historical Weather Pattern Analysis',
+  subtitle = 'Composite weather index showing patterns over time',
+  valueLabel = 'Weather Index'
 }) => {
-  // Transform data for recharts
-  const chartData = data.years.map((year, index) => ({
-    year,
-    value: data.values[index],
-    confidenceUpper: confidenceIntervals[0]?.upper || 0,
-    confidenceLower: confidenceIntervals[0]?.lower || 0
-  }));
+  // Transform data for recharts; the band is a [lower, upper] range
+  const chartData = data.years.map((year, index) => {
+    const interval = confidenceIntervals.length === data.years.length
+      ? confidenceIntervals[index]
+      : confidenceIntervals[0];
+    return {
+      year,
+      value: data.values[index],
+      confidence: interval ? [interval.lower, interval.upper] : undefined,
+      trend: trend ? Math.round((trend.intercept + trend.slope * year) * 10) / 10 : undefined
+    };
+  });
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
+      const value = payload.find((entry: { dataKey?: string }) => entry.dataKey === 'value') ?? payload[0];
+      const band = payload.find((entry: { dataKey?: string }) => entry.dataKey === 'confidence')?.value;
+      const fitted = payload.find((entry: { dataKey?: string }) => entry.dataKey === 'trend')?.value;
       return (
         <div className="chart-tooltip glass-surface">
           <p className="tooltip-label">{`Year: ${label}`}</p>
           <p className="tooltip-value">
-            <span style={{ color: payload[0].color }}>
-              Weather Index: {payload[0].value}
+            <span style={{ color: value.color }}>
+              {valueLabel}: {value.value}
             </span>
           </p>
+          {Array.isArray(band) && (
+            <p className="tooltip-value">95% CI: {band[0]}–{band[1]}</p>
+          )}
+          {typeof fitted === 'number' && (
+            <p className="tooltip-value">Trend: {fitted}</p>
+          )}
         </div>
       );
     }
@@ -59,13 +88,13 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
       transition={{ duration: 0.5 }}
     >
       <div className="chart-header">
-        <h4>Historical Weather Pattern Analysis</h4>
-        <p>Composite weather index showing patterns over time</p>
+        <h4>{title}</h4>
+        <p>{subtitle}</p>
       </div>
 
       <div className="chart-container">
         <ResponsiveContainer width="100%" height={300}>
-          <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
             <defs>
               <linearGradient id="valueGradient" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="var(--weather-primary, #3b82f6)" stopOpacity={0.8}/>
@@ -90,20 +119,15 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
             />
             
             {/* Confidence Interval Band */}
-            <Area
-              dataKey="confidenceUpper"
-              stackId="confidence"
-              stroke="none"
-              fill="url(#confidenceGradient)"
-              fillOpacity={0.3}
-            />
-            <Area
-              dataKey="confidenceLower"
-              stackId="confidence"
-              stroke="none"
-              fill="url(#confidenceGradient)"
-              fillOpacity={0.3}
-            />
+            {confidenceIntervals.length > 0 && (
+              <Area
+                dataKey="confidence"
+                name="Confidence Interval (95%)"
+                stroke="none"
+                fill="url(#confidenceGradient)"
+                fillOpacity={0.3}
+              />
+            )}
             
             {/* Main Data Line */}
             <Area
@@ -114,6 +138,19 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
               dot={{ fill: 'var(--weather-primary, #3b82f6)', r: 3 }}
               activeDot={{ r: 5, fill: 'var(--weather-accent, #f97316)' }}
             />
+
+            {/* Trend Line (Sen's slope) */}
+            {trend && (
+              <Line
+                dataKey="trend"
+                name="Trend (Sen's slope)"
+                stroke="#10b981"
+                strokeWidth={2}
+                strokeDasharray={trend.significant ? undefined : '4 4'}
+                dot={false}
+                activeDot={false}
+              />
+            )}
             
             {/* Current Year Reference Line */}
             <ReferenceLine 
@@ -126,7 +163,7 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
             
             <Tooltip content={<CustomTooltip />} />
             <Legend />
-          </AreaChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
@@ -136,15 +173,26 @@ export const ProbabilityChart: React.FC<ProbabilityChartProps> = ({
             className="legend-color" 
             style={{ backgroundColor: 'var(--weather-primary, #3b82f6)' }}
           />
-          <span>Historical Weather Index</span>
-        </div>
-        <div className="legend-item">
-          <div 
-            className="legend-color confidence" 
-            style={{ backgroundColor: 'rgba(59, 130, 246, 0.3)' }}
-          />
-          <span>Confidence Interval (95%)</span>
+          <span>Historical {valueLabel}</span>
         </div>
+        {confidenceIntervals.length > 0 && (
+          <div className="legend-item">
+            <div 
+              className="legend-color confidence" 
+              style={{ backgroundColor: 'rgba(59, 130, 246, 0.3)' }}
+            />
+            <span>Confidence Interval (95%)</span>
+          </div>
+        )}
+        {trend && (
+          <div className="legend-item">
+            <div 
+              className="legend-color" 
+              style={{ backgroundColor: '#10b981' }}
+            />
+            <span>Trend{trend.significant ? '' : ' (not significant)'}</span>
+          </div>
+        )}
         <div className="legend-item">
           <div 
             className="legend-color reference" 
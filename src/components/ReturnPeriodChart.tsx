@@ -0,0 +1,176 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import {
+  empiricalReturnPeriods,
+  ExtremeValueAnalysis,
+  gevReturnLevel,
+  gpdReturnLevel
+} from '../utils/extremeValue';
+
+interface ReturnPeriodChartProps {
+  analysis: ExtremeValueAnalysis;
+  title?: string;
+  subtitle?: string;
+  valueLabel?: string;
+  units?: string;
+}
+
+// Return periods (years) at which the fitted curves are drawn
+const CURVE_PERIODS = [1.1, 1.25, 1.5, 2, 3, 5, 7, 10, 15, 20, 30, 50, 70, 100];
+
+export const ReturnPeriodChart: React.FC<ReturnPeriodChartProps> = ({
+  analysis,
+  title = 'Return Levels',
+  subtitle = 'Fitted return levels with the observed annual maxima',
+  valueLabel = 'Return Level',
+  units = ''
+}) => {
+  const { gev, gpd } = analysis;
+  const round = (value: number | null) => (value === null ? undefined : Math.round(value * 10) / 10);
+
+  const gevCurve = gev
+    ? CURVE_PERIODS.map(period => ({ period, level: round(gevReturnLevel(gev, period)) }))
+    : [];
+  const gpdCurve = gpd
+    ? CURVE_PERIODS.map(period => ({ period, level: round(gpdReturnLevel(gpd, period)) }))
+        .filter(point => point.level !== undefined)
+    : [];
+  const observed = empiricalReturnPeriods(analysis.annualMaxima.values)
+    .map(point => ({ period: Math.round(point.period * 10) / 10, level: round(point.value) }));
+
+  const CustomTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ color?: string; payload: { period: number; level?: number } }>;
+  }) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      return (
+        <div className="chart-tooltip glass-surface">
+          <p className="tooltip-label">{`Return period: ${point.period} years`}</p>
+          <p className="tooltip-value">
+            <span style={{ color: payload[0].color }}>
+              {valueLabel}: {point.level} {units}
+            </span>
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <motion.div
+      className="probability-chart"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="chart-header">
+        <h4>{title}</h4>
+        <p>{subtitle}</p>
+      </div>
+
+      <div className="chart-container">
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+
+            {/* Log scale so 2, 10 and 100 years are evenly readable */}
+            <XAxis
+              dataKey="period"
+              type="number"
+              scale="log"
+              domain={[1, 100]}
+              ticks={[1, 2, 5, 10, 20, 50, 100]}
+              allowDataOverflow
+              stroke="rgba(255,255,255,0.7)"
+              fontSize={12}
+            />
+            <YAxis
+              dataKey="level"
+              type="number"
+              domain={['auto', 'auto']}
+              stroke="rgba(255,255,255,0.7)"
+              fontSize={12}
+            />
+
+            {/* GEV fit of annual maxima */}
+            {gevCurve.length > 0 && (
+              <Line
+                data={gevCurve}
+                dataKey="level"
+                name="GEV (annual maxima)"
+                stroke="var(--weather-primary, #3b82f6)"
+                strokeWidth={2}
+                dot={false}
+              />
+            )}
+
+            {/* GPD fit of peaks over threshold */}
+            {gpdCurve.length > 0 && (
+              <Line
+                data={gpdCurve}
+                dataKey="level"
+                name="GPD (peaks over threshold)"
+                stroke="#10b981"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            )}
+
+            {/* Observed annual maxima at their plotting positions */}
+            <Scatter
+              data={observed}
+              dataKey="level"
+              name="Observed annual maxima"
+              fill="var(--weather-accent, #f97316)"
+            />
+
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="chart-legend">
+        {gev && (
+          <div className="legend-item">
+            <div
+              className="legend-color"
+              style={{ backgroundColor: 'var(--weather-primary, #3b82f6)' }}
+            />
+            <span>GEV (ξ = {gev.shape.toFixed(2)})</span>
+          </div>
+        )}
+        {gpd && (
+          <div className="legend-item">
+            <div
+              className="legend-color"
+              style={{ backgroundColor: '#10b981' }}
+            />
+            <span>GPD above {gpd.threshold.toFixed(1)} {units} (ξ = {gpd.shape.toFixed(2)})</span>
+          </div>
+        )}
+        <div className="legend-item">
+          <div
+            className="legend-color reference"
+            style={{ backgroundColor: 'var(--weather-accent, #f97316)' }}
+          />
+          <span>Observed annual maxima</span>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ConditionThreshold, ThresholdConfig, ThresholdUnit, WeatherCondition } from '../types/weather';
+import {
+  CONDITION_ABOVE,
+  CONDITION_UNITS,
+  DEFAULT_THRESHOLDS,
+  fromDataUnits,
+  toDataUnits,
+  validateThresholds
+} from '../utils/thresholds';
+import { CONDITION_LABELS } from '../utils/probabilityAdapter';
+
+type ConditionType = WeatherCondition['type'];
+
+/**
+ * Starting values when a condition is switched to an absolute threshold
+ */
+const ABSOLUTE_DEFAULTS: Record<ConditionType, Omit<ConditionThreshold, 'mode'>> = {
+  veryHot: { value: 32, units: '°C' },
+  veryCold: { value: 0, units: '°C' },
+  veryWet: { value: 10, units: 'mm/day' },
+  veryWindy: { value: 40, units: 'km/h' },
+  veryUncomfortable: { value: 35, units: '°C' }
+};
+
+interface ThresholdSettingsProps {
+  value: ThresholdConfig;
+  onChange: (value: ThresholdConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editor for the threshold of each condition: a percentile of the
+ * same-season data, or an absolute value in the chosen units.
+ */
+export const ThresholdSettings: React.FC<ThresholdSettingsProps> = ({ value, onChange, disabled = false }) => {
+  const errors = validateThresholds(value);
+
+  const update = (condition: ConditionType, threshold: ConditionThreshold) => {
+    onChange({ ...value, [condition]: threshold });
+  };
+
+  const handleModeChange = (condition: ConditionType, mode: ConditionThreshold['mode']) => {
+    const units = value[condition].units;
+    update(condition, mode === 'percentile'
+      ? { ...DEFAULT_THRESHOLDS[condition], units }
+      : { mode, ...ABSOLUTE_DEFAULTS[condition] });
+  };
+
+  // Absolute values are converted so the threshold keeps its meaning
+  const handleUnitsChange = (condition: ConditionType, units: ThresholdUnit) => {
+    const threshold = value[condition];
+    const converted = threshold.mode === 'absolute'
+      ? Math.round(fromDataUnits(toDataUnits(threshold.value, threshold.units), units) * 10) / 10
+      : threshold.value;
+    update(condition, { ...threshold, value: converted, units });
+  };
+
+  return (
+    <div className="form-grid" style={{ padding: 0 }}>
+      {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(condition => {
+        const threshold = value[condition];
+        return (
+          <div key={condition} className="form-group">
+            <label>
+              {CONDITION_LABELS[condition]} ({CONDITION_ABOVE[condition] ? 'at or above' : 'at or below'})
+            </label>
+            <div style={{ display: 'grid', gridTemplateColumns: '1.2fr 1fr 1fr', gap: '0.5rem' }}>
+              <select
+                value={threshold.mode}
+                onChange={e => handleModeChange(condition, e.target.value as ConditionThreshold['mode'])}
+                disabled={disabled}
+              >
+                <option value="percentile">Percentile</option>
+                <option value="absolute">Absolute</option>
+              </select>
+              <input
+                type="number"
+                step="any"
+                value={isNaN(threshold.value) ? '' : threshold.value}
+                onChange={e => update(condition, { ...threshold, value: parseFloat(e.target.value) })}
+                disabled={disabled}
+              />
+              <select
+                value={threshold.units}
+                onChange={e => handleUnitsChange(condition, e.target.value as ThresholdUnit)}
+                disabled={disabled}
+              >
+                {CONDITION_UNITS[condition].map(units => (
+                  <option key={units} value={units}>{units}</option>
+                ))}
+              </select>
+            </div>
+            {errors[condition] && (
+              <p style={{ color: '#ef4444', fontSize: '0.8rem', marginTop: '0.25rem' }}>{errors[condition]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
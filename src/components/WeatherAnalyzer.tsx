@@ -1,24 +1,123 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MapPin, Calendar, Satellite, Database } from 'lucide-react';
-import { Coordinates } from '../types/weather';
+import { MapPin, Calendar, Satellite, Database, Thermometer, Snowflake, CloudRain, Wind, Droplets, Sparkles, CalendarRange, LucideIcon } from 'lucide-react';
+import { Coordinates, CustomCondition, DateRange, ThresholdConfig, WeatherCondition, WeatherDataset } from '../types/weather';
 import { nasaAuthService } from '../services/nasaAuth';
 import { nasaDataFetcher } from '../services/nasaDataService';
-import { CacheManager } from '../services/cacheManager';
+import { cacheManager } from '../services/cacheManager';
+import { extractNearestCell } from '../services/dataProcessor';
+import { WeatherProbabilityCalculator } from '../services/probabilityCalculator';
+import {
+  CONDITION_LABELS,
+  toAtLeastOnceCards,
+  toCustomConditionCards,
+  toProbabilityResults,
+  toSpellCards
+} from '../utils/probabilityAdapter';
+import { customConditionStore } from '../services/customConditionStore';
 import { ProbabilityCard } from './ProbabilityCard';
+import { ProbabilityChart } from './ProbabilityChart';
+import { ReturnPeriodChart } from './ReturnPeriodChart';
 import { LocationPicker } from './LocationPicker';
 import { DatePicker } from './DatePicker';
 import { LoadingIndicator } from './LoadingIndicator';
+import { GapTimeline, GapTimelineRow } from './GapTimeline';
+import { assessDatasetGaps } from '../utils/gapDetection';
+import { validateThresholds } from '../utils/thresholds';
+import { ThresholdSettings } from './ThresholdSettings';
+import { CustomConditionEditor } from './CustomConditionEditor';
+import { DataFileDrop } from './DataFileDrop';
+import { calendarDaysBetween, getLocationTimeZone, TimeDisplayMode, toCalendarDate } from '../utils/timeZones';
+import { describeTrend } from '../utils/trendAnalysis';
+import { describeReturnLevel } from '../utils/extremeValue';
+import { DEFAULT_EVENT_WINDOW_DAYS } from '../utils/spellAnalysis';
+import { DEFAULT_SEASONAL_WINDOW_DAYS, SEASONAL_WEIGHTING_LABELS, SeasonalWeighting } from '../utils/seasonalWindow';
+
+const CONDITION_STYLES: Record<WeatherCondition['type'], { icon: LucideIcon; color: string }> = {
+  veryHot: { icon: Thermometer, color: '#f97316' },
+  veryCold: { icon: Snowflake, color: '#3b82f6' },
+  veryWet: { icon: CloudRain, color: '#06b6d4' },
+  veryWindy: { icon: Wind, color: '#8b5cf6' },
+  veryUncomfortable: { icon: Droplets, color: '#ef4444' }
+};
+
+type ExtremeVariable = 'temperature' | 'precipitation' | 'windSpeed';
+
+// Daily maxima analysed for return levels (calculator units)
+const EXTREME_VARIABLES: Record<ExtremeVariable, { label: string; quantity: string; units: string }> = {
+  temperature: { label: 'Daily Max Temperature', quantity: 'daily maximum temperature', units: '°C' },
+  precipitation: { label: 'Daily Rainfall', quantity: 'daily rainfall', units: 'mm' },
+  windSpeed: { label: 'Daily Max Wind Speed', quantity: 'daily maximum wind speed', units: 'm/s' }
+};
 
-const cacheManager = new CacheManager();
+// "July 4" or "July 4 – July 8"
+const formatRange = (range: DateRange) => {
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+  return range.end.getTime() === range.start.getTime()
+    ? format(range.start)
+    : `${format(range.start)} – ${format(range.end)}`;
+};
+
+// The target date and the following days, `days` days in all
+const toEventRange = (start: Date, days: number): DateRange => {
+  const end = new Date(start);
+  end.setDate(end.getDate() + days - 1);
+  return { start, end };
+};
 
-export const WeatherAnalyzer: React.FC = () => {
+interface WeatherAnalyzerProps {
+  thresholds: ThresholdConfig;
+  onThresholdsChange: (thresholds: ThresholdConfig) => void;
+}
+
+export const WeatherAnalyzer: React.FC<WeatherAnalyzerProps> = ({ thresholds, onThresholdsChange }) => {
   const [selectedLocation, setSelectedLocation] = useState<Coordinates | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  // Last day of the target range; the target date itself for a single day
+  const [endDate, setEndDate] = useState<Date>(selectedDate);
   const [analysis, setAnalysis] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [chartCondition, setChartCondition] = useState<WeatherCondition['type']>('veryHot');
+  const [appliedThresholds, setAppliedThresholds] = useState<ThresholdConfig>(thresholds);
+  const [customConditions, setCustomConditions] = useState<CustomCondition[]>(() => customConditionStore.list());
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplayMode>('location');
+  const [extremeVariable, setExtremeVariable] = useState<ExtremeVariable>('precipitation');
+  const [eventWindowDays, setEventWindowDays] = useState(DEFAULT_EVENT_WINDOW_DAYS);
+  const [seasonalWindowDays, setSeasonalWindowDays] = useState(DEFAULT_SEASONAL_WINDOW_DAYS);
+  const [seasonalWeighting, setSeasonalWeighting] = useState<SeasonalWeighting>('uniform');
+  // Local files dropped by the user; when present they replace the NASA download
+  const [uploadedDatasets, setUploadedDatasets] = useState<WeatherDataset[]>([]);
+
+  // Only apply thresholds once every condition is valid
+  useEffect(() => {
+    if (Object.keys(validateThresholds(thresholds)).length === 0) {
+      setAppliedThresholds(thresholds);
+    }
+  }, [thresholds]);
+
+  // Re-evaluate the fetched data when thresholds, custom conditions, the
+  // seasonal weighting or the spell window change (no refetch needed)
+  useEffect(() => {
+    setAnalysis((prev: typeof analysis) => {
+      if (!prev) return prev;
+      const calculator = new WeatherProbabilityCalculator({
+        timeZone: prev.timeZone,
+        seasonalWindowDays: prev.seasonalWindowDays,
+        seasonalWeighting
+      });
+      const results = calculator.calculateProbabilities(prev.datasets, prev.range, appliedThresholds, customConditions, { days: eventWindowDays });
+      return {
+        ...prev,
+        results,
+        display: toProbabilityResults(results),
+        customCards: toCustomConditionCards(results),
+        spellCards: toSpellCards(results),
+        onceCards: toAtLeastOnceCards(results)
+      };
+    });
+  }, [appliedThresholds, customConditions, seasonalWeighting, eventWindowDays]);
 
   useEffect(() => {
     cacheManager.initialize().catch(console.error);
@@ -29,15 +128,19 @@ export const WeatherAnalyzer: React.FC = () => {
     setError(null);
   }, []);
 
+  // A new target date moves the whole range, keeping its length
   const handleDateSelect = useCallback((date: Date) => {
+    const rangeDays = calendarDaysBetween(toCalendarDate(selectedDate), toCalendarDate(endDate)) + 1;
     setSelectedDate(date);
+    setEndDate(toEventRange(date, rangeDays).end);
     setError(null);
-  }, []);
+  }, [selectedDate, endDate]);
 
   const performAnalysis = async () => {
     if (!selectedLocation || !selectedDate) return;
 
-    if (!nasaAuthService.isAuthenticated()) {
+    const usingFiles = uploadedDatasets.length > 0;
+    if (!usingFiles && !nasaAuthService.isAuthenticated()) {
       setError('⚠️ Please authenticate with NASA Earthdata first (scroll up to login)');
       return;
     }
@@ -48,51 +151,84 @@ export const WeatherAnalyzer: React.FC = () => {
     setAnalysis(null);
 
     try {
-      setLoadingProgress(prev => [...prev, '🔐 Authenticated with NASA']);
-
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setFullYear(startDate.getFullYear() - 1);
+      setLoadingProgress(prev => [...prev, usingFiles
+        ? `📂 Using ${uploadedDatasets.length} uploaded file${uploadedDatasets.length === 1 ? '' : 's'}`
+        : '🔐 Authenticated with NASA']);
 
-      setLoadingProgress(prev => [...prev, '🛰️ Fetching real NASA satellite data...']);
+      if (!usingFiles) {
+        setLoadingProgress(prev => [...prev, '🛰️ Fetching NASA climatology (same season, 2000-present)...']);
+      }
       setLoadingProgress(prev => [...prev, `📍 Location: ${selectedLocation.lat.toFixed(4)}, ${selectedLocation.lng.toFixed(4)}`]);
-      setLoadingProgress(prev => [...prev, `📅 Date range: ${startDate.toLocaleDateString()} to ${endDate.toLocaleDateString()}`]);
-
-      const timeSeries = await nasaDataFetcher.fetchHistoricalWeatherData(
-        selectedLocation,
-        startDate,
-        endDate
-      );
-
-      setLoadingProgress(prev => [...prev, '✅ NASA data retrieved successfully']);
-
-      const quality = nasaDataFetcher.getDataQuality(timeSeries);
-
-      setLoadingProgress(prev => [...prev, `📊 Temperature points: ${timeSeries.temperature.length}`]);
-      setLoadingProgress(prev => [...prev, `💧 Precipitation points: ${timeSeries.precipitation.length}`]);
-      setLoadingProgress(prev => [...prev, `📈 Data quality: ${quality.completeness}% complete`]);
-
-      const avgTemp = timeSeries.temperature.length > 0
-        ? timeSeries.temperature.reduce((sum, p) => sum + p.value, 0) / timeSeries.temperature.length
-        : 0;
+      // A date range is fetched with the same seasonal margin as a single date
+      const range: DateRange = { start: selectedDate, end: endDate };
+      setLoadingProgress(prev => [...prev, `📅 Seasonal window: ${formatRange(range)} ±${seasonalWindowDays} days (${SEASONAL_WEIGHTING_LABELS[seasonalWeighting].toLowerCase()})`]);
+
+      // Days (the target date, daily statistics) are the location's local days
+      const { timeZone, source } = getLocationTimeZone(selectedLocation);
+      setLoadingProgress(prev => [...prev, `🕒 Time zone: ${timeZone}${source === 'longitude' ? ' (estimated from longitude)' : ''}`]);
+
+      // Uploaded grids are cut to the cell at the location, as a download would be
+      const datasets = usingFiles
+        ? uploadedDatasets.map(dataset => extractNearestCell(dataset, selectedLocation))
+        : await nasaDataFetcher.fetchClimatology(
+          selectedLocation,
+          range,
+          {
+            timeZone,
+            windowDays: seasonalWindowDays,
+            onProgress: ({ year, completedYears, totalYears, success }) => {
+              setLoadingProgress(prev => [
+                ...prev,
+                `${success ? '✅' : '⚠️'} ${year} (${completedYears}/${totalYears})${success ? '' : ' skipped'}`
+              ]);
+            }
+          }
+        );
+
+      setLoadingProgress(prev => [...prev, usingFiles
+        ? `✅ Grid cell ${datasets[0].data.coordinates.latitude[0]}, ${datasets[0].data.coordinates.longitude[0]} read from ${datasets.length} files`
+        : `✅ NASA data retrieved for ${datasets.length} years`]);
+      setLoadingProgress(prev => [...prev, '📊 Calculating historical probabilities...']);
+
+      // Saved conditions belong to the signed-in user
+      const userConditions = customConditionStore.list();
+      setCustomConditions(userConditions);
+
+      const calculator = new WeatherProbabilityCalculator({ timeZone, seasonalWindowDays, seasonalWeighting });
+      const results = calculator.calculateProbabilities(datasets, range, appliedThresholds, userConditions, { days: eventWindowDays });
+      const { historicalContext } = results;
+
+      const gapTimeline: GapTimelineRow[] = datasets.map(dataset => {
+        const { start, end } = dataset.metadata.temporalCoverage;
+        return {
+          label: String(new Date((start.getTime() + end.getTime()) / 2).getUTCFullYear()),
+          range: { start, end },
+          variables: assessDatasetGaps(dataset)
+        };
+      });
 
-      const avgPrecip = timeSeries.precipitation.length > 0
-        ? timeSeries.precipitation.reduce((sum, p) => sum + p.value, 0) / timeSeries.precipitation.length
-        : 0;
+      setLoadingProgress(prev => [...prev, `📈 ${historicalContext.totalDataPoints} seasonal days across ${historicalContext.dataYears} years`]);
+      setLoadingProgress(prev => [...prev, `📉 Trend: ${describeTrend(CONDITION_LABELS.veryHot, results.probabilities.veryHot.trend)}`]);
+      setLoadingProgress(prev => [...prev, `🌊 ${describeReturnLevel(EXTREME_VARIABLES.precipitation.quantity, historicalContext.extremes.precipitation, 10, EXTREME_VARIABLES.precipitation.units)}`]);
 
       setAnalysis({
         location: selectedLocation,
         date: selectedDate,
-        timeSeries: timeSeries,
-        quality: quality,
+        range,
+        seasonalWindowDays,
+        timeZone,
+        datasets,
+        results: results,
+        display: toProbabilityResults(results),
+        customCards: toCustomConditionCards(results),
+        spellCards: toSpellCards(results),
+        onceCards: toAtLeastOnceCards(results),
+        gapTimeline,
         statistics: {
-          avgTemperature: avgTemp,
-          avgPrecipitation: avgPrecip,
-          totalDataPoints: timeSeries.temperature.length + timeSeries.precipitation.length
-        },
-        sampleData: {
-          temperature: timeSeries.temperature.slice(0, 5),
-          precipitation: timeSeries.precipitation.slice(0, 5)
+          avgTemperature: historicalContext.averageConditions.temperature,
+          avgPrecipitation: historicalContext.averageConditions.precipitation,
+          totalDataPoints: historicalContext.totalDataPoints,
+          dataYears: historicalContext.dataYears
         }
       });
 
@@ -100,7 +236,9 @@ export const WeatherAnalyzer: React.FC = () => {
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(`❌ Data fetch failed: ${errorMessage}\n\nPossible issues:\n• Authentication expired (re-login above)\n• NASA servers temporarily unavailable\n• Location outside GLDAS coverage area`);
+      setError(usingFiles
+        ? `❌ Analysis of the uploaded files failed: ${errorMessage}`
+        : `❌ Data fetch failed: ${errorMessage}\n\nPossible issues:\n• Authentication expired (re-login above)\n• NASA servers temporarily unavailable\n• Location outside GLDAS coverage area`);
       console.error('Analysis error:', err);
     } finally {
       setIsLoading(false);
@@ -108,10 +246,10 @@ export const WeatherAnalyzer: React.FC = () => {
   };
 
   useEffect(() => {
-    if (selectedLocation && selectedDate && nasaAuthService.isAuthenticated() && !isLoading) {
+    if (selectedLocation && selectedDate && (nasaAuthService.isAuthenticated() || uploadedDatasets.length > 0) && !isLoading) {
       performAnalysis();
     }
-  }, [selectedLocation, selectedDate]);
+  }, [selectedLocation, selectedDate, endDate, seasonalWindowDays, uploadedDatasets]);
 
   return (
     <div className="weather-analyzer">
@@ -146,11 +284,68 @@ export const WeatherAnalyzer: React.FC = () => {
           <DatePicker
             selectedDate={selectedDate}
             onDateSelect={handleDateSelect}
+            endDate={endDate}
+            onEndDateChange={setEndDate}
+            eventWindowDays={eventWindowDays}
+            onEventWindowChange={setEventWindowDays}
           />
         </motion.div>
       </div>
 
-      {!nasaAuthService.isAuthenticated() && (
+      <details className="glass-card" style={{ padding: '1rem 1.5rem', marginBottom: '2rem' }}>
+        <summary style={{ cursor: 'pointer', fontWeight: 600 }}>📆 Seasonal window (±{seasonalWindowDays} days)</summary>
+        <p style={{ fontSize: '0.875rem', opacity: 0.8, margin: '0.75rem 0' }}>
+          Days from each past year within this many days of your dates count as the same season. Weighting lets closer days count more.
+        </p>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+          <select
+            value={seasonalWindowDays}
+            onChange={e => setSeasonalWindowDays(Number(e.target.value))}
+            disabled={isLoading}
+            style={{ padding: '0.5rem', borderRadius: '8px' }}
+          >
+            {[3, 5, 7, 10, 14, 21, 30].map(days => (
+              <option key={days} value={days}>±{days} days</option>
+            ))}
+          </select>
+          <select
+            value={seasonalWeighting}
+            onChange={e => setSeasonalWeighting(e.target.value as SeasonalWeighting)}
+            disabled={isLoading}
+            style={{ padding: '0.5rem', borderRadius: '8px' }}
+          >
+            {(Object.keys(SEASONAL_WEIGHTING_LABELS) as SeasonalWeighting[]).map(weighting => (
+              <option key={weighting} value={weighting}>{SEASONAL_WEIGHTING_LABELS[weighting]}</option>
+            ))}
+          </select>
+        </div>
+      </details>
+
+      <details className="glass-card" style={{ padding: '1rem 1.5rem', marginBottom: '2rem' }}>
+        <summary style={{ cursor: 'pointer', fontWeight: 600 }}>🌡️ Condition thresholds</summary>
+        <p style={{ fontSize: '0.875rem', opacity: 0.8, margin: '0.75rem 0' }}>
+          Use a percentile of the same-season data, or an absolute value such as 32 °C, 10 mm/day or 40 km/h.
+        </p>
+        <ThresholdSettings value={thresholds} onChange={onThresholdsChange} disabled={isLoading} />
+      </details>
+
+      <details className="glass-card" style={{ padding: '1rem 1.5rem', marginBottom: '2rem' }}>
+        <summary style={{ cursor: 'pointer', fontWeight: 600 }}>✨ My conditions ({customConditions.length})</summary>
+        <p style={{ fontSize: '0.875rem', opacity: 0.8, margin: '0.75rem 0' }}>
+          Define your own conditions, e.g. "Cold rain" = rain &gt; 1 mm AND temp &lt; 5°C. They are saved for your account in this browser.
+        </p>
+        <CustomConditionEditor conditions={customConditions} onChange={setCustomConditions} disabled={isLoading} />
+      </details>
+
+      <details className="glass-card" style={{ padding: '1rem 1.5rem', marginBottom: '2rem' }}>
+        <summary style={{ cursor: 'pointer', fontWeight: 600 }}>📂 Local data files ({uploadedDatasets.length})</summary>
+        <p style={{ fontSize: '0.875rem', opacity: 0.8, margin: '0.75rem 0' }}>
+          Analyse your own NetCDF (.nc, .nc4) or GRIB2 files, e.g. GLDAS granules, instead of downloading NASA data. The grid cell nearest the selected location is used.
+        </p>
+        <DataFileDrop datasets={uploadedDatasets} onChange={setUploadedDatasets} disabled={isLoading} />
+      </details>
+
+      {!nasaAuthService.isAuthenticated() && uploadedDatasets.length === 0 && (
         <div style={{
           padding: '1rem',
           background: 'rgba(239, 68, 68, 0.1)',
@@ -229,7 +424,7 @@ export const WeatherAnalyzer: React.FC = () => {
                     {analysis.statistics.totalDataPoints.toLocaleString()}
                   </div>
                   <div style={{ fontSize: '0.875rem', opacity: 0.7, marginTop: '0.5rem' }}>
-                    Total Data Points
+                    Days Analyzed
                   </div>
                 </div>
 
@@ -244,7 +439,7 @@ export const WeatherAnalyzer: React.FC = () => {
 
                 <div className="stat-card clay-card" style={{ padding: '1.5rem', textAlign: 'center' }}>
                   <div style={{ fontSize: '2rem', fontWeight: '700', color: '#06b6d4' }}>
-                    {analysis.statistics.avgPrecipitation.toFixed(2)} mm
+                    {analysis.statistics.avgPrecipitation.toFixed(1)} mm/day
                   </div>
                   <div style={{ fontSize: '0.875rem', opacity: 0.7, marginTop: '0.5rem' }}>
                     Average Precipitation
@@ -253,39 +448,187 @@ export const WeatherAnalyzer: React.FC = () => {
               </div>
 
               <div style={{ marginTop: '2rem', padding: '1rem', background: 'rgba(16, 185, 129, 0.05)', borderRadius: '8px' }}>
-                <h4 style={{ marginBottom: '0.5rem', color: '#10b981' }}>✅ Real NASA GLDAS Data</h4>
+                <h4 style={{ marginBottom: '0.5rem', color: '#10b981' }}>✅ Real NASA GLDAS Climatology</h4>
                 <p style={{ fontSize: '0.875rem', opacity: 0.8 }}>
-                  Data range: {analysis.quality.dateRange.start.toLocaleDateString()} to {analysis.quality.dateRange.end.toLocaleDateString()}
+                  {analysis.statistics.dataYears} years of data around {formatRange(analysis.range)} (±{analysis.seasonalWindowDays} days)
                 </p>
                 <p style={{ fontSize: '0.875rem', opacity: 0.8 }}>
-                  Quality: {analysis.quality.completeness}% complete • {analysis.quality.dataPoints} points analyzed
+                  Quality: {analysis.results.dataQuality.completeness.toFixed(0)}% complete • Sources: {analysis.results.dataQuality.sources.join(', ')}
                 </p>
               </div>
+            </div>
+
+            <div
+              className="probability-grid"
+              style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '2rem' }}
+            >
+              {analysis.display.conditions.map((condition: WeatherCondition) => (
+                <ProbabilityCard
+                  key={condition.type}
+                  condition={condition}
+                  icon={CONDITION_STYLES[condition.type].icon}
+                  color={CONDITION_STYLES[condition.type].color}
+                />
+              ))}
+              {analysis.customCards.map((condition: ReturnType<typeof toCustomConditionCards>[number]) => (
+                <ProbabilityCard
+                  key={condition.type}
+                  condition={condition}
+                  icon={Sparkles}
+                  color="#10b981"
+                />
+              ))}
+            </div>
+
+            {analysis.results.range.days > 1 && (
+              <>
+                <h3 style={{ marginBottom: '1rem' }}>
+                  At Least Once, {formatRange(analysis.range)}
+                </h3>
+                <div
+                  className="probability-grid"
+                  style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '2rem' }}
+                >
+                  {analysis.onceCards.map((condition: ReturnType<typeof toAtLeastOnceCards>[number]) => {
+                    const style = CONDITION_STYLES[condition.type.replace(/^once-/, '') as WeatherCondition['type']];
+                    return (
+                      <ProbabilityCard
+                        key={condition.type}
+                        condition={condition}
+                        icon={style?.icon ?? Sparkles}
+                        color={style?.color ?? '#10b981'}
+                      />
+                    );
+                  })}
+                </div>
 
-              <details style={{ marginTop: '1.5rem' }}>
-                <summary style={{ cursor: 'pointer', fontWeight: '600', marginBottom: '1rem' }}>
-                  📊 View Sample Data
-                </summary>
-                <div style={{ fontFamily: 'monospace', fontSize: '0.875rem', background: 'rgba(0, 0, 0, 0.05)', padding: '1rem', borderRadius: '8px' }}>
-                  <strong>Sample Temperature Values:</strong>
-                  {analysis.sampleData.temperature.map((p: any, i: number) => (
-                    <div key={i}>
-                      {p.date.toLocaleDateString()}: {p.value.toFixed(2)}°C
-                    </div>
-                  ))}
-                  <br />
-                  <strong>Sample Precipitation Values:</strong>
-                  {analysis.sampleData.precipitation.map((p: any, i: number) => (
-                    <div key={i}>
-                      {p.date.toLocaleDateString()}: {p.value.toFixed(2)} mm/hour
-                    </div>
-                  ))}
+                <div className="glass-card" style={{ padding: '2rem', marginBottom: '2rem', overflowX: 'auto' }}>
+                  <h4 style={{ marginBottom: '0.5rem' }}>Day by Day</h4>
+                  <p style={{ fontSize: '0.875rem', opacity: 0.8, marginBottom: '1rem' }}>
+                    Chance of each condition on each day (seasonal days within ±{analysis.seasonalWindowDays} days of it)
+                  </p>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                    <thead>
+                      <tr>
+                        <th style={{ textAlign: 'left', padding: '0.5rem' }}>Date</th>
+                        {(Object.keys(CONDITION_LABELS) as Array<WeatherCondition['type']>).map(type => (
+                          <th key={type} style={{ textAlign: 'right', padding: '0.5rem', color: CONDITION_STYLES[type].color }}>
+                            {CONDITION_LABELS[type]}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.results.daily.map((day: (typeof analysis.results.daily)[number]) => (
+                        <tr key={day.date.getTime()} style={{ borderTop: '1px solid rgba(255,255,255,0.1)' }}>
+                          <td style={{ padding: '0.5rem' }}>
+                            {day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                          </td>
+                          {(Object.keys(CONDITION_LABELS) as Array<WeatherCondition['type']>).map(type => (
+                            <td key={type} style={{ textAlign: 'right', padding: '0.5rem' }}>
+                              {day.probabilities[type].toFixed(1)}%
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-              </details>
+              </>
+            )}
+
+            <h3 style={{ marginBottom: '1rem' }}>
+              Multi-day Events ({eventWindowDays}-day window)
+            </h3>
+            <div
+              className="probability-grid"
+              style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '2rem' }}
+            >
+              {analysis.spellCards.map((condition: ReturnType<typeof toSpellCards>[number]) => (
+                <ProbabilityCard
+                  key={condition.type}
+                  condition={condition}
+                  icon={CalendarRange}
+                  color="#f59e0b"
+                />
+              ))}
+            </div>
+
+            <div className="glass-card" style={{ padding: '2rem', marginBottom: '2rem' }}>
+              <select
+                value={timeDisplay}
+                onChange={e => setTimeDisplay(e.target.value as TimeDisplayMode)}
+                style={{ float: 'right', padding: '0.5rem', borderRadius: '8px' }}
+              >
+                <option value="location">Local time ({analysis.timeZone})</option>
+                <option value="utc">UTC</option>
+              </select>
+              <GapTimeline rows={analysis.gapTimeline} timeZone={analysis.timeZone} timeDisplay={timeDisplay} />
+            </div>
+
+            <div className="glass-card" style={{ padding: '2rem', marginBottom: '2rem' }}>
+              <select
+                value={chartCondition}
+                onChange={e => setChartCondition(e.target.value as WeatherCondition['type'])}
+                style={{ marginBottom: '1rem', padding: '0.5rem', borderRadius: '8px' }}
+              >
+                {analysis.display.conditions.map((condition: WeatherCondition) => (
+                  <option key={condition.type} value={condition.type}>{condition.label}</option>
+                ))}
+              </select>
+              <ProbabilityChart
+                data={{
+                  years: analysis.results.probabilities[chartCondition].yearly.years,
+                  values: analysis.results.probabilities[chartCondition].yearly.values.map((value: number) => Math.round(value * 10) / 10)
+                }}
+                confidenceIntervals={[analysis.results.probabilities[chartCondition].confidenceInterval]}
+                trend={analysis.results.probabilities[chartCondition].trend}
+                title="Condition Frequency by Year"
+                subtitle="Share of each year's seasonal days meeting the condition, with the 95% interval for the overall probability and the Mann-Kendall / Sen's slope trend"
+                valueLabel="Frequency (%)"
+              />
+              <p style={{ fontSize: '0.875rem', opacity: 0.8, marginTop: '0.5rem' }}>
+                {describeTrend(CONDITION_LABELS[chartCondition], analysis.results.probabilities[chartCondition].trend)}
+              </p>
+            </div>
+
+            <div className="glass-card" style={{ padding: '2rem', marginBottom: '2rem' }}>
+              <select
+                value={extremeVariable}
+                onChange={e => setExtremeVariable(e.target.value as ExtremeVariable)}
+                style={{ marginBottom: '1rem', padding: '0.5rem', borderRadius: '8px' }}
+              >
+                {(Object.keys(EXTREME_VARIABLES) as ExtremeVariable[]).map(variable => (
+                  <option key={variable} value={variable}>{EXTREME_VARIABLES[variable].label}</option>
+                ))}
+              </select>
+              <ReturnPeriodChart
+                analysis={analysis.results.historicalContext.extremes[extremeVariable]}
+                title="Return Periods"
+                subtitle={`${EXTREME_VARIABLES[extremeVariable].label} around ${formatRange(analysis.range)}: GEV fit of each year's maximum and GPD fit of peaks over the 95th percentile`}
+                valueLabel={EXTREME_VARIABLES[extremeVariable].label}
+                units={EXTREME_VARIABLES[extremeVariable].units}
+              />
+              {[10, 50].map(period => (
+                <p key={period} style={{ fontSize: '0.875rem', opacity: 0.8, marginTop: '0.5rem' }}>
+                  {describeReturnLevel(
+                    EXTREME_VARIABLES[extremeVariable].quantity,
+                    analysis.results.historicalContext.extremes[extremeVariable],
+                    period,
+                    EXTREME_VARIABLES[extremeVariable].units
+                  )}
+                </p>
+              ))}
             </div>
 
-            <div style={{ padding: '1rem', background: 'rgba(59, 130, 246, 0.05)', borderRadius: '8px', fontSize: '0.875rem' }}>
-              <strong>ℹ️ Next Step:</strong> This real NASA data will be used for probability calculations (coming soon)
+            <div className="glass-card" style={{ padding: '2rem' }}>
+              <ProbabilityChart
+                data={analysis.display.historicalContext}
+                confidenceIntervals={[]}
+                title="Seasonal Temperature by Year"
+                subtitle={`Mean temperature around ${formatRange(analysis.range)} (±${analysis.seasonalWindowDays} days), °C`}
+                valueLabel="Mean Temperature"
+              />
             </div>
           </motion.div>
         )}
@@ -1,11 +1,118 @@
-import { WeatherDataset, CacheEntry, Coordinates, DateRange } from '../types/weather';
+import { WeatherDataset, CacheEntry, Coordinates, DateRange, Variable } from '../types/weather';
+import { WeatherDataPoint } from '../utils/netcdfParser';
+import { datasetRegistry, DatasetDefinition, DatasetGrid, GLDAS_NOAH025_3H } from './datasetRegistry';
+
+/**
+ * Identifies one downloaded granule: one time step of one dataset over one
+ * grid window (e.g. "401:403,422:424" = lat/lon index ranges)
+ */
+export interface GranuleCacheKey {
+  dataset: string;
+  timestamp: Date;
+  gridWindow: string;
+}
+
+export interface GranuleCacheInput {
+  key: GranuleCacheKey;
+  points: WeatherDataPoint[];
+}
+
+export interface GranuleQuotaReport {
+  entries: number;
+  usedBytes: number;
+  maxBytes: number;
+  /** Origin-wide figures from navigator.storage.estimate(), when available */
+  storageUsage?: number;
+  storageQuota?: number;
+}
+
+/**
+ * What is stored: analysis datasets (weatherData) or downloaded granules
+ */
+export type CacheEntryKind = 'dataset' | 'granule';
+
+/**
+ * Listing row for the cache management panel
+ */
+export interface CacheEntryInfo {
+  key: string;
+  kind: CacheEntryKind;
+  /** Requested point (datasets) or grid window centre (granules) */
+  location: Coordinates;
+  dateRange: DateRange;
+  /** Data source label or dataset IDs joined with "+" (datasets), or dataset ID (granules) */
+  source: string;
+  /** Serialized size in bytes */
+  size: number;
+  createdAt: number;
+  lastAccessed?: number;
+}
+
+/**
+ * Selects entries by location, date overlap and/or source (all optional)
+ */
+export interface CacheEntryFilter {
+  location?: Coordinates;
+  /** Match radius around location, in degrees (default 0.25 = one GLDAS cell) */
+  radiusDegrees?: number;
+  dateRange?: DateRange;
+  source?: string;
+  kind?: CacheEntryKind;
+}
+
+/**
+ * Lookup counters since the page was loaded
+ */
+export interface CacheCounters {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  granuleHits: number;
+  granuleMisses: number;
+}
+
+/**
+ * Stored granule; points keep their Date timestamps (structured clone)
+ */
+interface GranuleRecord {
+  key: string;
+  points: WeatherDataPoint[];
+}
+
+/**
+ * Per-granule bookkeeping, kept apart from the points so LRU scans and
+ * quota reports do not load cached data
+ */
+interface GranuleMeta {
+  key: string;
+  dataset: string;
+  timestamp: number;
+  gridWindow: string;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
 
 export class CacheManager {
   private memoryCache = new Map<string, CacheEntry>();
   private dbName = 'WeatherDataCache';
-  private dbVersion = 1;
+  private dbVersion = 2;
   private db: IDBDatabase | null = null;
 
+  // Granules are immutable archive data: no TTL, evicted least recently
+  // used first once the store exceeds this size
+  private granuleStore = 'granules';
+  private granuleMetaStore = 'granuleMeta';
+  private maxGranuleBytes = 200 * 1024 * 1024;
+
+  private counters: CacheCounters = { memoryHits: 0, diskHits: 0, misses: 0, granuleHits: 0, granuleMisses: 0 };
+
+  constructor(options: { maxGranuleBytes?: number } = {}) {
+    if (options.maxGranuleBytes !== undefined) {
+      this.maxGranuleBytes = options.maxGranuleBytes;
+    }
+  }
+
   async initialize(): Promise<void> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.dbVersion);
@@ -24,12 +131,36 @@ export class CacheManager {
           store.createIndex('timestamp', 'timestamp', { unique: false });
           store.createIndex('location', 'location', { unique: false });
         }
+
+        if (!db.objectStoreNames.contains(this.granuleStore)) {
+          db.createObjectStore(this.granuleStore, { keyPath: 'key' });
+        }
+
+        if (!db.objectStoreNames.contains(this.granuleMetaStore)) {
+          const store = db.createObjectStore(this.granuleMetaStore, { keyPath: 'key' });
+          store.createIndex('lastAccessed', 'lastAccessed', { unique: false });
+          store.createIndex('dataset', 'dataset', { unique: false });
+        }
       };
     });
   }
 
+  // Snap to the centre of the grid cell containing the location, so nearby
+  // clicks that resolve to the same data share cache entries
+  snapToGrid(location: Coordinates, grid: DatasetGrid | undefined = this.getDefaultGrid()): Coordinates {
+    if (!grid) return location;
+
+    const latIndex = Math.round((location.lat - grid.latMin) / grid.latResolution);
+    const lonIndex = Math.round((location.lng - grid.lonMin) / grid.lonResolution);
+    return {
+      lat: grid.latMin + Math.max(0, Math.min(grid.latCount - 1, latIndex)) * grid.latResolution,
+      lng: grid.lonMin + Math.max(0, Math.min(grid.lonCount - 1, lonIndex)) * grid.lonResolution
+    };
+  }
+
   generateCacheKey(location: Coordinates, dateRange: DateRange, source?: string): string {
-    const locationKey = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`;
+    const cell = this.snapToGrid(location, this.getSourceGrid(source));
+    const locationKey = `${cell.lat.toFixed(4)},${cell.lng.toFixed(4)}`;
     const dateKey = `${dateRange.start.getTime()}-${dateRange.end.getTime()}`;
     const sourceKey = source || 'all';
     
@@ -47,6 +178,7 @@ export class CacheManager {
     if (this.memoryCache.has(cacheKey)) {
       const entry = this.memoryCache.get(cacheKey)!;
       if (!this.isExpired(entry)) {
+        this.counters.memoryHits++;
         return entry.data;
       } else {
         this.memoryCache.delete(cacheKey);
@@ -58,10 +190,12 @@ export class CacheManager {
     if (indexedData && !this.isExpired(indexedData)) {
       // Promote to memory cache
       this.memoryCache.set(cacheKey, indexedData);
+      this.counters.diskHits++;
       return indexedData.data;
     }
     
     // Level 3: Service Worker Cache would go here
+    this.counters.misses++;
     return null;
   }
   
@@ -88,6 +222,169 @@ export class CacheManager {
     this.cleanupExpiredEntries();
   }
 
+  /**
+   * Cached datasets for a location and source that overlap a date range,
+   * plus the sub-ranges no cached entry covers
+   *
+   * @param minGapMs - Uncovered stretches shorter than this are ignored
+   *                   (default one day, the Data Rods request granularity)
+   */
+  async getCachedRange(
+    location: Coordinates,
+    dateRange: DateRange,
+    source: string,
+    minGapMs = 24 * 60 * 60 * 1000
+  ): Promise<{ pieces: { range: DateRange; data: WeatherDataset }[]; gaps: DateRange[] }> {
+    const entries = await this.listEntries({
+      kind: 'dataset',
+      source,
+      location: this.snapToGrid(location, this.getSourceGrid(source)),
+      radiusDegrees: 1e-3,
+      dateRange
+    });
+
+    const pieces: { range: DateRange; data: WeatherDataset }[] = [];
+    for (const entry of entries) {
+      const cached = this.memoryCache.get(entry.key) ?? await this.getFromIndexedDB(entry.key);
+      if (cached && !this.isExpired(cached)) {
+        pieces.push({ range: entry.dateRange, data: cached.data });
+      }
+    }
+
+    // Walk the covered ranges in start order, collecting uncovered stretches
+    const gaps: DateRange[] = [];
+    let cursor = dateRange.start.getTime();
+    [...pieces]
+      .sort((a, b) => a.range.start.getTime() - b.range.start.getTime())
+      .forEach(({ range }) => {
+        if (range.start.getTime() - cursor >= minGapMs) {
+          gaps.push({ start: new Date(cursor), end: range.start });
+        }
+        cursor = Math.max(cursor, range.end.getTime());
+      });
+    if (dateRange.end.getTime() - cursor >= minGapMs) {
+      gaps.push({ start: new Date(cursor), end: dateRange.end });
+    }
+
+    this.counters.diskHits += pieces.length;
+    this.counters.misses += gaps.length;
+
+    return { pieces, gaps };
+  }
+
+  /**
+   * Return a date range for a location, using cached sub-ranges and
+   * fetching (and caching) only the gaps between them
+   *
+   * @param fetchGap - Downloads one uncovered sub-range
+   * @returns One dataset covering the range (samples de-duplicated by time)
+   *
+   * @example
+   * const dataset = await cacheManager.getOrFetchRange(location, range, 'NASA GLDAS',
+   *   gap => fetchDataset(location, gap.start, gap.end));
+   */
+  async getOrFetchRange(
+    location: Coordinates,
+    dateRange: DateRange,
+    source: string,
+    fetchGap: (gap: DateRange) => Promise<WeatherDataset>
+  ): Promise<WeatherDataset> {
+    let cached: Awaited<ReturnType<CacheManager['getCachedRange']>> = { pieces: [], gaps: [dateRange] };
+    try {
+      cached = await this.getCachedRange(location, dateRange, source);
+    } catch (error) {
+      console.warn('⚠️ Cache lookup failed, fetching full range:', error instanceof Error ? error.message : error);
+    }
+
+    if (cached.pieces.length > 0) {
+      console.log(`💾 ${cached.pieces.length} cached sub-ranges, fetching ${cached.gaps.length} gaps`);
+    }
+
+    const datasets = cached.pieces.map(piece => piece.data);
+    for (const gap of cached.gaps) {
+      const data = await fetchGap(gap);
+      datasets.push(data);
+      await this.cacheData(location, gap, data, source).catch(error =>
+        console.warn('⚠️ Could not cache range:', error instanceof Error ? error.message : error)
+      );
+    }
+
+    return this.assembleRange(datasets, dateRange);
+  }
+
+  // Merge datasets on one time axis within the range; the first dataset
+  // holding a timestamp wins, variables missing from a piece are NaN
+  private assembleRange(datasets: WeatherDataset[], dateRange: DateRange): WeatherDataset {
+    const [first] = datasets;
+    const samples = new Map<number, { dataset: WeatherDataset; index: number }>();
+
+    datasets.forEach(dataset => {
+      dataset.data.coordinates.time.forEach((time, index) => {
+        const t = time.getTime();
+        if (t >= dateRange.start.getTime() && t <= dateRange.end.getTime() && !samples.has(t)) {
+          samples.set(t, { dataset, index });
+        }
+      });
+    });
+
+    const axis = Array.from(samples.keys()).sort((a, b) => a - b);
+    const { latitude, longitude } = first.data.coordinates;
+    const emptyCell = () => latitude.map(() => longitude.map(() => NaN));
+
+    const names = new Set(datasets.flatMap(dataset => Object.keys(dataset.data.variables)));
+    const variables: Record<string, number[][][]> = {};
+    names.forEach(name => {
+      variables[name] = axis.map(t => {
+        const { dataset, index } = samples.get(t)!;
+        return dataset.data.variables[name]?.[index] ?? emptyCell();
+      });
+    });
+
+    // Fill counts add up across pieces
+    const metadataVariables = new Map<string, Variable>();
+    datasets.flatMap(dataset => dataset.metadata.variables).forEach(variable => {
+      const previous = metadataVariables.get(variable.name);
+      metadataVariables.set(variable.name, previous
+        ? { ...variable, fillCount: (previous.fillCount ?? 0) + (variable.fillCount ?? 0) }
+        : variable);
+    });
+    const sources = Array.from(new Set(datasets.flatMap(dataset => dataset.metadata.sources ?? [])));
+
+    return {
+      metadata: {
+        ...first.metadata,
+        sources: sources.length > 0 ? sources : first.metadata.sources,
+        temporalCoverage: {
+          start: axis.length > 0 ? new Date(axis[0]) : dateRange.start,
+          end: axis.length > 0 ? new Date(axis[axis.length - 1]) : dateRange.end
+        },
+        variables: Array.from(metadataVariables.values())
+      },
+      data: {
+        coordinates: { latitude, longitude, time: axis.map(t => new Date(t)) },
+        variables
+      }
+    };
+  }
+
+  private getDefaultGrid(): DatasetGrid | undefined {
+    return datasetRegistry.get(GLDAS_NOAH025_3H)?.opendap?.grid;
+  }
+
+  // Grid of the datasets that produced a source ("GLDAS_NOAH025_3H+NLDAS_..."
+  // for merged data): the finest one, so locations in different cells of
+  // any of them get separate entries. Other labels fall back to GLDAS.
+  private getSourceGrid(source?: string): DatasetGrid | undefined {
+    const grids = (source ?? '')
+      .split('+')
+      .map(id => datasetRegistry.get(id))
+      .filter((dataset): dataset is DatasetDefinition => dataset !== undefined)
+      .map(dataset => datasetRegistry.getGrid(dataset))
+      .sort((a, b) => a.latResolution * a.lonResolution - b.latResolution * b.lonResolution);
+
+    return grids[0] ?? this.getDefaultGrid();
+  }
+
   private isExpired(entry: CacheEntry): boolean {
     return Date.now() - entry.timestamp > entry.ttl;
   }
@@ -132,7 +429,9 @@ export class CacheManager {
       const request = store.put({
         key,
         entry,
-        timestamp: entry.timestamp
+        timestamp: entry.timestamp,
+        location: key.split('_')[0],
+        size: this.estimateSize(entry.data)
       });
       
       request.onerror = () => reject(request.error);
@@ -183,13 +482,337 @@ export class CacheManager {
     if (!this.db) return;
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['weatherData'], 'readwrite');
-      const store = transaction.objectStore('weatherData');
-      const request = store.clear();
+      const transaction = this.db!.transaction(['weatherData', this.granuleStore, this.granuleMetaStore], 'readwrite');
+      transaction.objectStore('weatherData').clear();
+      transaction.objectStore(this.granuleStore).clear();
+      transaction.objectStore(this.granuleMetaStore).clear();
       
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  // ==========================================================================
+  // GRANULE CACHE
+  // ==========================================================================
+
+  generateGranuleKey(key: GranuleCacheKey): string {
+    return `${key.dataset}_${key.timestamp.toISOString()}_${key.gridWindow}`;
+  }
+
+  /**
+   * Look up granules; hits are marked as recently used
+   *
+   * @returns Points per hit, keyed by generateGranuleKey()
+   */
+  async getGranules(keys: GranuleCacheKey[]): Promise<Map<string, WeatherDataPoint[]>> {
+    const db = await this.getDatabase();
+    const hits = new Map<string, WeatherDataPoint[]>();
+    const now = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.granuleStore, this.granuleMetaStore], 'readwrite');
+      const store = transaction.objectStore(this.granuleStore);
+      const metaStore = transaction.objectStore(this.granuleMetaStore);
+
+      keys.forEach(key => {
+        const cacheKey = this.generateGranuleKey(key);
+        const request = store.get(cacheKey);
+        request.onsuccess = () => {
+          const record = request.result as GranuleRecord | undefined;
+          if (!record) return;
+
+          hits.set(record.key, record.points);
+          const metaRequest = metaStore.get(cacheKey);
+          metaRequest.onsuccess = () => {
+            const meta = metaRequest.result as GranuleMeta | undefined;
+            if (meta) metaStore.put({ ...meta, lastAccessed: now });
+          };
+        };
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => {
+        this.counters.granuleHits += hits.size;
+        this.counters.granuleMisses += keys.length - hits.size;
+        resolve(hits);
+      };
+    });
+  }
+
+  /**
+   * Store granules, then evict least recently used ones over the size limit
+   */
+  async cacheGranules(granules: GranuleCacheInput[]): Promise<void> {
+    if (granules.length === 0) return;
+
+    const db = await this.getDatabase();
+    const now = Date.now();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([this.granuleStore, this.granuleMetaStore], 'readwrite');
+      const store = transaction.objectStore(this.granuleStore);
+      const metaStore = transaction.objectStore(this.granuleMetaStore);
+
+      granules.forEach(({ key, points }) => {
+        const cacheKey = this.generateGranuleKey(key);
+        const record: GranuleRecord = { key: cacheKey, points };
+        const meta: GranuleMeta = {
+          key: cacheKey,
+          dataset: key.dataset,
+          timestamp: key.timestamp.getTime(),
+          gridWindow: key.gridWindow,
+          size: this.estimateSize(points),
+          createdAt: now,
+          lastAccessed: now
+        };
+        store.put(record);
+        metaStore.put(meta);
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+
+    await this.evictGranules();
+  }
+
+  /**
+   * Granule store usage against its limit, plus the browser's storage quota
+   */
+  async getGranuleQuotaReport(): Promise<GranuleQuotaReport> {
+    const records = await this.getGranuleSizes();
+    const report: GranuleQuotaReport = {
+      entries: records.length,
+      usedBytes: records.reduce((sum, record) => sum + record.size, 0),
+      maxBytes: this.maxGranuleBytes
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      report.storageUsage = estimate.usage;
+      report.storageQuota = estimate.quota;
+    }
+
+    return report;
+  }
+
+  private async getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      await this.initialize();
+    }
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+    return this.db;
+  }
+
+  // Serialized size (Dates count as ISO strings)
+  private estimateSize(data: unknown): number {
+    return new Blob([JSON.stringify(data)]).size;
+  }
+
+  // Key and size of every granule, least recently used first
+  private async getGranuleSizes(): Promise<{ key: string; size: number }[]> {
+    const db = await this.getDatabase();
+
+    return new Promise((resolve, reject) => {
+      const records: { key: string; size: number }[] = [];
+      const transaction = db.transaction([this.granuleMetaStore], 'readonly');
+      const request = transaction.objectStore(this.granuleMetaStore).index('lastAccessed').openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const meta = cursor.value as GranuleMeta;
+          records.push({ key: meta.key, size: meta.size });
+          cursor.continue();
+        }
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(records);
+    });
+  }
+
+  private async evictGranules(): Promise<void> {
+    const records = await this.getGranuleSizes();
+    let usedBytes = records.reduce((sum, record) => sum + record.size, 0);
+    if (usedBytes <= this.maxGranuleBytes) return;
+
+    const evicted: string[] = [];
+    for (const record of records) {
+      if (usedBytes <= this.maxGranuleBytes) break;
+      evicted.push(record.key);
+      usedBytes -= record.size;
+    }
+
+    const db = await this.getDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([this.granuleStore, this.granuleMetaStore], 'readwrite');
+      const store = transaction.objectStore(this.granuleStore);
+      const metaStore = transaction.objectStore(this.granuleMetaStore);
+      evicted.forEach(key => {
+        store.delete(key);
+        metaStore.delete(key);
+      });
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
     });
+
+    console.log(`🧹 Evicted ${evicted.length} cached granules (LRU), ${(usedBytes / 1024 / 1024).toFixed(1)} MB in use`);
+  }
+
+  // ==========================================================================
+  // INSPECTION AND INVALIDATION
+  // ==========================================================================
+
+  /**
+   * List stored datasets and granules, optionally filtered
+   *
+   * @example
+   * // Everything cached within one grid cell of New York in July 2023
+   * const entries = await cacheManager.listEntries({
+   *   location: { lat: 40.71, lng: -74.01 },
+   *   dateRange: { start: new Date(2023, 6, 1), end: new Date(2023, 6, 31) }
+   * });
+   */
+  async listEntries(filter: CacheEntryFilter = {}): Promise<CacheEntryInfo[]> {
+    const db = await this.getDatabase();
+
+    const entries = await new Promise<CacheEntryInfo[]>((resolve, reject) => {
+      const results: CacheEntryInfo[] = [];
+      const transaction = db.transaction(['weatherData', this.granuleMetaStore], 'readonly');
+
+      const datasetRequest = transaction.objectStore('weatherData').openCursor();
+      datasetRequest.onsuccess = () => {
+        const cursor = datasetRequest.result;
+        if (!cursor) return;
+        const info = this.toDatasetInfo(cursor.value);
+        if (info) results.push(info);
+        cursor.continue();
+      };
+
+      const granuleRequest = transaction.objectStore(this.granuleMetaStore).openCursor();
+      granuleRequest.onsuccess = () => {
+        const cursor = granuleRequest.result;
+        if (!cursor) return;
+        results.push(this.toGranuleInfo(cursor.value as GranuleMeta));
+        cursor.continue();
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(results);
+    });
+
+    return entries
+      .filter(entry => this.matchesFilter(entry, filter))
+      .sort((a, b) => a.dateRange.start.getTime() - b.dateRange.start.getTime());
+  }
+
+  /**
+   * Delete entries matching a filter (e.g. one location or one source)
+   *
+   * @returns Number of entries removed
+   */
+  async invalidate(filter: CacheEntryFilter): Promise<number> {
+    const entries = await this.listEntries(filter);
+    await this.deleteEntries(entries);
+    console.log(`🗑️ Invalidated ${entries.length} cache entries`);
+    return entries.length;
+  }
+
+  async deleteEntries(entries: Pick<CacheEntryInfo, 'key' | 'kind'>[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.getDatabase();
+
+    entries.forEach(entry => {
+      if (entry.kind === 'dataset') this.memoryCache.delete(entry.key);
+    });
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['weatherData', this.granuleStore, this.granuleMetaStore], 'readwrite');
+      entries.forEach(entry => {
+        if (entry.kind === 'dataset') {
+          transaction.objectStore('weatherData').delete(entry.key);
+        } else {
+          transaction.objectStore(this.granuleStore).delete(entry.key);
+          transaction.objectStore(this.granuleMetaStore).delete(entry.key);
+        }
+      });
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  getCounters(): CacheCounters & { hitRate: number } {
+    const hits = this.counters.memoryHits + this.counters.diskHits + this.counters.granuleHits;
+    const lookups = hits + this.counters.misses + this.counters.granuleMisses;
+    return { ...this.counters, hitRate: lookups > 0 ? hits / lookups : 0 };
+  }
+
+  resetCounters(): void {
+    this.counters = { memoryHits: 0, diskHits: 0, misses: 0, granuleHits: 0, granuleMisses: 0 };
+  }
+
+  // Key format: "<lat>,<lng>_<start ms>-<end ms>_<source>" (see generateCacheKey)
+  private toDatasetInfo(record: { key: string; entry: CacheEntry; size?: number }): CacheEntryInfo | null {
+    const match = record.key.match(/^(-?[\d.]+),(-?[\d.]+)_(\d+)-(\d+)_(.*)$/);
+    if (!match) return null;
+
+    return {
+      key: record.key,
+      kind: 'dataset',
+      location: { lat: Number(match[1]), lng: Number(match[2]) },
+      dateRange: { start: new Date(Number(match[3])), end: new Date(Number(match[4])) },
+      source: match[5],
+      size: record.size ?? this.estimateSize(record.entry.data),
+      createdAt: record.entry.timestamp
+    };
+  }
+
+  // Grid window "lat0:lat1,lon0:lon1" → centre coordinates on the dataset grid
+  private toGranuleInfo(meta: GranuleMeta): CacheEntryInfo {
+    const grid = datasetRegistry.get(meta.dataset)?.opendap?.grid;
+    const [latStart, latEnd, lonStart, lonEnd] = meta.gridWindow.split(/[:,]/).map(Number);
+    const location = grid
+      ? {
+          lat: grid.latMin + ((latStart + latEnd) / 2) * grid.latResolution,
+          lng: grid.lonMin + ((lonStart + lonEnd) / 2) * grid.lonResolution
+        }
+      : { lat: NaN, lng: NaN };
+
+    return {
+      key: meta.key,
+      kind: 'granule',
+      location,
+      dateRange: { start: new Date(meta.timestamp), end: new Date(meta.timestamp) },
+      source: meta.dataset,
+      size: meta.size,
+      createdAt: meta.createdAt,
+      lastAccessed: meta.lastAccessed
+    };
+  }
+
+  private matchesFilter(entry: CacheEntryInfo, filter: CacheEntryFilter): boolean {
+    if (filter.kind && entry.kind !== filter.kind) return false;
+    if (filter.source && entry.source !== filter.source) return false;
+
+    // Written so a NaN location (filter or entry) never matches
+    if (filter.location) {
+      const radius = filter.radiusDegrees ?? 0.25;
+      if (!(Math.abs(entry.location.lat - filter.location.lat) <= radius) ||
+          !(Math.abs(entry.location.lng - filter.location.lng) <= radius)) {
+        return false;
+      }
+    }
+
+    if (filter.dateRange) {
+      if (entry.dateRange.end < filter.dateRange.start || entry.dateRange.start > filter.dateRange.end) {
+        return false;
+      }
+    }
+
+    return true;
   }
 
   getCacheStats(): { memoryEntries: number, totalMemorySize: number } {
@@ -208,4 +831,7 @@ export class CacheManager {
       totalMemorySize: Math.round(totalMemorySize / 1024) // KB
     };
   }
-}
\ No newline at end of file
+}
+
+// Shared instance so the extractor and analyzer use one database connection
+export const cacheManager = new CacheManager();
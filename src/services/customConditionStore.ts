@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * CUSTOM CONDITION STORE
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Saves each user's named conditions (e.g. "Cold rain" =
+ * "rain > 1 mm AND temp < 5°C") in localStorage, keyed by the NASA
+ * Earthdata username so people sharing a browser keep separate lists.
+ * Signed-out use is stored under "anonymous".
+ *
+ * ============================================================================
+ */
+
+import { CustomCondition } from '../types/weather';
+import { nasaAuthService } from './nasaAuth';
+import { parseCondition } from '../utils/conditionExpression';
+
+// ============================================================================
+// MAIN STORE CLASS
+// ============================================================================
+
+export class CustomConditionStore {
+
+  private readonly keyPrefix = 'weather-custom-conditions:';
+
+  /**
+   * Conditions saved by the current user
+   */
+  list(): CustomCondition[] {
+    try {
+      const raw = localStorage.getItem(this.getKey());
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter(this.isCondition) : [];
+    } catch (error) {
+      console.warn('⚠️ Could not read saved conditions:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Add or update (by id) a condition for the current user
+   *
+   * @param condition - Condition to save; id is generated when omitted
+   * @returns The saved condition
+   * @throws ConditionSyntaxError if the expression does not parse
+   *
+   * @example
+   * customConditionStore.save({ name: 'Cold rain', expression: 'rain > 1 mm AND temp < 5°C' });
+   */
+  save(condition: Omit<CustomCondition, 'id'> & { id?: string }): CustomCondition {
+    const name = condition.name.trim();
+    if (!name) {
+      throw new Error('Condition name is required');
+    }
+    parseCondition(condition.expression);
+
+    const saved: CustomCondition = {
+      id: condition.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      expression: condition.expression.trim()
+    };
+
+    const conditions = this.list();
+    const index = conditions.findIndex(existing => existing.id === saved.id);
+    if (index >= 0) {
+      conditions[index] = saved;
+    } else {
+      conditions.push(saved);
+    }
+
+    this.write(conditions);
+    return saved;
+  }
+
+  /**
+   * Delete one of the current user's conditions
+   */
+  remove(id: string): void {
+    this.write(this.list().filter(condition => condition.id !== id));
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private getKey(): string {
+    const username = nasaAuthService.getAuthStatus().username;
+    return this.keyPrefix + (username ? username.toLowerCase() : 'anonymous');
+  }
+
+  private write(conditions: CustomCondition[]): void {
+    localStorage.setItem(this.getKey(), JSON.stringify(conditions));
+  }
+
+  private isCondition(value: unknown): value is CustomCondition {
+    const candidate = value as CustomCondition;
+    return typeof candidate?.id === 'string' &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.expression === 'string';
+  }
+}
+
+// ============================================================================
+// SINGLETON EXPORT
+// ============================================================================
+
+export const customConditionStore = new CustomConditionStore();
@@ -1,183 +1,199 @@
-import { WeatherDataset, DataFormat } from '../types/weather';
+import { Coordinates, WeatherDataset, DataFormat, Variable } from '../types/weather';
+import { decodeNetCDFGrid, DecodedNetCDFVariable, isHDF5 } from '../utils/netcdfParser';
+import { decodeGRIB2Grid } from '../utils/gribParser';
+import { datasetRegistry, WeatherVariableRole } from './datasetRegistry';
 
 export interface DataProcessor {
   processFile(file: ArrayBuffer): Promise<WeatherDataset>;
 }
 
+/**
+ * Registry roles that map directly onto calculator variables
+ */
+const ANALYSIS_ROLES: WeatherVariableRole[] = ['temperature', 'precipitation', 'windSpeed'];
+
+/**
+ * Grid spacing of a regular coordinate axis
+ */
+function getSpacing(values: number[]): number {
+  return values.length > 1 ? Math.abs(values[1] - values[0]) : 0;
+}
+
+/**
+ * Index of the value closest to target (-1 for an empty axis)
+ */
+function nearestIndex(values: number[], target: number): number {
+  let best = -1;
+  values.forEach((value, index) => {
+    if (best === -1 || Math.abs(value - target) < Math.abs(values[best] - target)) best = index;
+  });
+  return best;
+}
+
+/**
+ * Label for the interval between the first two time steps
+ */
+function describeTimeStep(times: Date[]): string {
+  if (times.length < 2) return 'single time step';
+
+  const hours = (times[1].getTime() - times[0].getTime()) / (1000 * 60 * 60);
+  if (hours === 24) return 'daily';
+  if (hours === 1) return 'hourly';
+  return `${hours}-hourly`;
+}
+
 export class NetCDFProcessor implements DataProcessor {
+  /**
+   * Decode a NetCDF-3 or NetCDF-4 file (e.g. a GLDAS OPeNDAP subset or a
+   * .nc4 granule) into a WeatherDataset
+   *
+   * Every gridded variable is kept under its native name and units.
+   * Variables the dataset registry recognises as temperature, precipitation
+   * or wind speed are also exposed under those names, converted to display
+   * units, so the probability calculator can use the file directly.
+   */
   async processFile(file: ArrayBuffer): Promise<WeatherDataset> {
-    // Simulate NetCDF processing - in production would use actual NetCDF libraries
-    const mockData = this.createMockWeatherData();
-    
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    return mockData;
-  }
+    const grid = decodeNetCDFGrid(file);
 
-  private createMockWeatherData(): WeatherDataset {
-    const startDate = new Date('2020-01-01');
-    const endDate = new Date('2023-12-31');
-    
-    // Generate mock historical data for 4 years
-    const timeSteps = 1460; // ~4 years daily data
-    const latSteps = 50;
-    const lonSteps = 50;
-    
-    const latitudes = Array.from({length: latSteps}, (_, i) => -25 + (i * 50 / latSteps));
-    const longitudes = Array.from({length: lonSteps}, (_, i) => -50 + (i * 100 / lonSteps));
-    const times = Array.from({length: timeSteps}, (_, i) => {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      return date;
+    if (grid.variables.length === 0) {
+      throw new Error('NetCDF file contains no gridded (lat/lon) variables');
+    }
+
+    const variables: Record<string, number[][][]> = {};
+    const variableInfo: Variable[] = [];
+    const datasetIds = new Set<string>();
+
+    grid.variables.forEach(variable => {
+      variables[variable.name] = variable.cube;
+      variableInfo.push({ name: variable.name, longName: variable.longName, units: variable.units });
+
+      const known = datasetRegistry.findVariable(variable.name);
+      if (!known) return;
+      datasetIds.add(known.dataset.id);
+
+      const role = known.variable.role;
+      if (role && ANALYSIS_ROLES.includes(role) && !variables[role]) {
+        variables[role] = this.convertCube(variable, known.variable.convert);
+        variableInfo.push({
+          name: role,
+          longName: known.variable.longName,
+          units: known.variable.exportUnits
+        });
+      }
     });
 
-    // Generate realistic weather data patterns
-    const temperature = this.generateTemperatureData(timeSteps, latSteps, lonSteps, times);
-    const precipitation = this.generatePrecipitationData(timeSteps, latSteps, lonSteps, times);
-    const windSpeed = this.generateWindSpeedData(timeSteps, latSteps, lonSteps);
-    const humidity = this.generateHumidityData(timeSteps, latSteps, lonSteps, temperature);
+    const { latitudes, longitudes, times } = grid;
+    const registered = Array.from(datasetIds).map(id => datasetRegistry.require(id));
+
+    console.log(`✅ NetCDF decoded: ${grid.variables.length} variables, ${times.length} × ${latitudes.length} × ${longitudes.length}`);
 
     return {
       metadata: {
-        source: 'NASA MERRA-2 Reanalysis',
+        source: registered.length > 0 ? registered.map(d => d.id).join(', ') : 'NetCDF file',
         spatialCoverage: {
-          north: latitudes[latitudes.length - 1],
-          south: latitudes[0],
-          east: longitudes[longitudes.length - 1],
-          west: longitudes[0]
+          north: Math.max(...latitudes),
+          south: Math.min(...latitudes),
+          east: Math.max(...longitudes),
+          west: Math.min(...longitudes)
         },
-        temporalCoverage: { start: startDate, end: endDate },
-        variables: [
-          { name: 'temperature', longName: 'Air Temperature', units: 'Celsius' },
-          { name: 'precipitation', longName: 'Precipitation Rate', units: 'mm/day' },
-          { name: 'windSpeed', longName: 'Wind Speed', units: 'm/s' },
-          { name: 'humidity', longName: 'Relative Humidity', units: '%' }
-        ],
-        resolution: { spatial: 0.5, temporal: 'daily' }
+        temporalCoverage: { start: times[0], end: times[times.length - 1] },
+        variables: variableInfo,
+        resolution: {
+          spatial: registered[0]?.resolution.spatial ?? getSpacing(latitudes),
+          temporal: registered[0]?.resolution.temporal ?? describeTimeStep(times)
+        }
       },
       data: {
         coordinates: { latitude: latitudes, longitude: longitudes, time: times },
-        variables: { temperature, precipitation, windSpeed, humidity }
+        variables
       }
     };
   }
 
-  private generateTemperatureData(timeSteps: number, latSteps: number, lonSteps: number, times: Date[]): number[][][] {
-    return Array.from({length: timeSteps}, (_, t) => {
-      const date = times[t];
-      const dayOfYear = this.getDayOfYear(date);
-      
-      return Array.from({length: latSteps}, (_, lat) => {
-        const latitude = -25 + (lat * 50 / latSteps);
-        
-        return Array.from({length: lonSteps}, (_, lon) => {
-          // Seasonal temperature variation
-          const seasonalTemp = 20 + 15 * Math.cos(2 * Math.PI * (dayOfYear - 172) / 365);
-          
-          // Latitude effect (cooler towards poles)
-          const latitudeEffect = -0.3 * Math.abs(latitude);
-          
-          // Random daily variation
-          const dailyVariation = (Math.random() - 0.5) * 10;
-          
-          // Longitude effect (minimal for simplicity)
-          const longitudeEffect = 0;
-          
-          return seasonalTemp + latitudeEffect + dailyVariation + longitudeEffect;
-        });
-      });
-    });
+  private convertCube(variable: DecodedNetCDFVariable, convert: (value: number) => number): number[][][] {
+    return variable.cube.map(plane =>
+      plane.map(row => row.map(value => (isNaN(value) ? NaN : convert(value))))
+    );
   }
+}
 
-  private generatePrecipitationData(timeSteps: number, latSteps: number, lonSteps: number, times: Date[]): number[][][] {
-    return Array.from({length: timeSteps}, (_, t) => {
-      const date = times[t];
-      const dayOfYear = this.getDayOfYear(date);
-      
-      return Array.from({length: latSteps}, (_, lat) => {
-        const latitude = -25 + (lat * 50 / latSteps);
-        
-        return Array.from({length: lonSteps}, (_, lon) => {
-          // Seasonal precipitation pattern
-          const seasonalRain = Math.abs(latitude) < 10 ? 
-            8 + 6 * Math.cos(2 * Math.PI * (dayOfYear - 80) / 365) : // Tropical
-            3 + 4 * Math.cos(2 * Math.PI * (dayOfYear - 350) / 365); // Temperate
-          
-          // Random precipitation events
-          const precipChance = Math.random();
-          const precipAmount = precipChance > 0.7 ? 
-            seasonalRain * (1 + Math.random() * 3) : 
-            seasonalRain * Math.random() * 0.3;
-          
-          return Math.max(0, precipAmount);
-        });
-      });
-    });
-  }
+/**
+ * GRIB2 variables (parameter_level) usable by the probability calculator,
+ * with their conversion to display units
+ */
+const GRIB_ANALYSIS_VARIABLES: Record<string, { role: string; units: string; convert: (value: number) => number }> = {
+  TMP_2m: { role: 'temperature', units: 'Celsius', convert: v => v - 273.15 },
+  PRATE_sfc: { role: 'precipitation', units: 'mm/hour', convert: v => v * 3600 },
+  WIND_10m: { role: 'windSpeed', units: 'm/s', convert: v => v },
+  RH_2m: { role: 'humidity', units: '%', convert: v => v }
+};
 
-  private generateWindSpeedData(timeSteps: number, latSteps: number, lonSteps: number): number[][][] {
-    return Array.from({length: timeSteps}, () => {
-      return Array.from({length: latSteps}, (_, lat) => {
-        const latitude = -25 + (lat * 50 / latSteps);
-        
-        return Array.from({length: lonSteps}, () => {
-          // Higher wind speeds at higher latitudes
-          const baseWindSpeed = 5 + Math.abs(latitude) * 0.2;
-          
-          // Random variation
-          const variation = (Math.random() - 0.5) * 8;
-          
-          return Math.max(0, baseWindSpeed + variation);
-        });
-      });
+export class GRIBProcessor implements DataProcessor {
+  /**
+   * Decode a GRIB2 file (e.g. GFS or ERA5 on a regular lat/lon grid)
+   * into a WeatherDataset
+   *
+   * Every field is kept as <parameter>_<level> (e.g. TMP_2m, UGRD_10m) in
+   * native units. 2 m temperature, precipitation rate, 2 m relative
+   * humidity and 10 m wind speed (derived from U/V when needed) are also
+   * exposed under the calculator's variable names in display units.
+   */
+  async processFile(file: ArrayBuffer): Promise<WeatherDataset> {
+    const grid = decodeGRIB2Grid(file);
+
+    const variables: Record<string, number[][][]> = {};
+    const variableInfo: Variable[] = [];
+
+    grid.variables.forEach(variable => {
+      variables[variable.name] = variable.cube;
+      variableInfo.push({ name: variable.name, longName: variable.longName, units: variable.units });
     });
-  }
 
-  private generateHumidityData(timeSteps: number, latSteps: number, lonSteps: number, temperature: number[][][]): number[][][] {
-    return Array.from({length: timeSteps}, (_, t) => {
-      return Array.from({length: latSteps}, (_, lat) => {
-        const latitude = -25 + (lat * 50 / latSteps);
-        
-        return Array.from({length: lonSteps}, (_, lon) => {
-          const temp = temperature[t][lat][lon];
-          
-          // Higher humidity in tropical regions and with precipitation
-          const baseHumidity = Math.abs(latitude) < 20 ? 70 : 50;
-          
-          // Inverse relationship with temperature (simplified)
-          const tempEffect = -0.5 * (temp - 25);
-          
-          // Random variation
-          const variation = (Math.random() - 0.5) * 20;
-          
-          return Math.max(10, Math.min(100, baseHumidity + tempEffect + variation));
-        });
+    // Derive wind speed from its components if the file has no WIND field
+    if (!variables.WIND_10m && variables.UGRD_10m && variables.VGRD_10m) {
+      const u = variables.UGRD_10m;
+      const v = variables.VGRD_10m;
+      variables.WIND_10m = u.map((plane, t) =>
+        plane.map((row, y) => row.map((value, x) => Math.hypot(value, v[t][y][x])))
+      );
+      variableInfo.push({ name: 'WIND_10m', longName: 'Wind speed (10m, from U/V)', units: 'm s-1' });
+    }
+
+    Object.entries(GRIB_ANALYSIS_VARIABLES).forEach(([name, mapping]) => {
+      const cube = variables[name];
+      if (!cube) return;
+
+      variables[mapping.role] = cube.map(plane =>
+        plane.map(row => row.map(value => (isNaN(value) ? NaN : mapping.convert(value))))
+      );
+      variableInfo.push({
+        name: mapping.role,
+        longName: variableInfo.find(info => info.name === name)?.longName ?? name,
+        units: mapping.units
       });
     });
-  }
 
-  private getDayOfYear(date: Date): number {
-    const start = new Date(date.getFullYear(), 0, 0);
-    const diff = date.getTime() - start.getTime();
-    return Math.floor(diff / (1000 * 60 * 60 * 24));
-  }
-}
+    const { latitudes, longitudes, times } = grid;
 
-export class GRIBProcessor implements DataProcessor {
-  async processFile(file: ArrayBuffer): Promise<WeatherDataset> {
-    // Simulate GRIB processing
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // For demo, return similar structure as NetCDF
-    const netcdfProcessor = new NetCDFProcessor();
-    const data = await netcdfProcessor.processFile(file);
-    
     return {
-      ...data,
       metadata: {
-        ...data.metadata,
-        source: 'NOAA GFS Model Data'
+        source: `${grid.centre} GRIB2`,
+        spatialCoverage: {
+          north: Math.max(...latitudes),
+          south: Math.min(...latitudes),
+          east: Math.max(...longitudes),
+          west: Math.min(...longitudes)
+        },
+        temporalCoverage: { start: times[0], end: times[times.length - 1] },
+        variables: variableInfo,
+        resolution: {
+          spatial: getSpacing(latitudes),
+          temporal: describeTimeStep(times)
+        }
+      },
+      data: {
+        coordinates: { latitude: latitudes, longitude: longitudes, time: times },
+        variables
       }
     };
   }
@@ -188,23 +204,84 @@ export class DataFormatRegistry {
     ['netcdf', new NetCDFProcessor()],
     ['grib', new GRIBProcessor()],
     ['nc', new NetCDFProcessor()],
+    ['nc4', new NetCDFProcessor()],
     ['grb', new GRIBProcessor()],
-    ['grib2', new GRIBProcessor()]
+    ['grib2', new GRIBProcessor()],
+    ['grb2', new GRIBProcessor()]
   ]);
 
   getProcessor(fileExtension: string): DataProcessor | null {
     return this.processors.get(fileExtension.toLowerCase()) || null;
   }
 
+  /**
+   * Decode a file with the processor for its contents; the extension is
+   * only used when the contents are not recognised
+   */
   async processFile(file: File): Promise<WeatherDataset> {
     const extension = file.name.split('.').pop() || '';
-    const processor = this.getProcessor(extension);
+    const arrayBuffer = await file.arrayBuffer();
+    const processor = this.getProcessor(this.detectFormat(arrayBuffer) ?? extension);
     
     if (!processor) {
       throw new Error(`Unsupported file format: ${extension}`);
     }
 
-    const arrayBuffer = await file.arrayBuffer();
     return processor.processFile(arrayBuffer);
   }
+
+  /**
+   * Registry key from the file signature: "CDF" (NetCDF-3), HDF5 (NetCDF-4)
+   * or "GRIB"
+   */
+  private detectFormat(file: ArrayBuffer): string | null {
+    if (isHDF5(file)) return 'netcdf';
+
+    const magic = String.fromCharCode(...new Uint8Array(file, 0, Math.min(4, file.byteLength)));
+    if (magic.startsWith('CDF')) return 'netcdf';
+    if (magic === 'GRIB') return 'grib';
+    return null;
+  }
+}
+
+export const dataFormatRegistry = new DataFormatRegistry();
+
+/**
+ * A dataset cut down to the grid cell nearest a location, which is the
+ * cell the probability calculator reads
+ *
+ * @throws Error if the location is more than one grid step outside the grid
+ *
+ * @example
+ * const cell = extractNearestCell(await dataFormatRegistry.processFile(file), { lat: 40.71, lng: -74.01 });
+ */
+export function extractNearestCell(dataset: WeatherDataset, location: Coordinates): WeatherDataset {
+  const { latitude, longitude, time } = dataset.data.coordinates;
+  const y = nearestIndex(latitude, location.lat);
+  const x = nearestIndex(longitude, location.lng);
+
+  const latStep = getSpacing(latitude) || dataset.metadata.resolution.spatial;
+  const lonStep = getSpacing(longitude) || dataset.metadata.resolution.spatial;
+  if (y === -1 || x === -1 ||
+      (latStep > 0 && Math.abs(latitude[y] - location.lat) > latStep) ||
+      (lonStep > 0 && Math.abs(longitude[x] - location.lng) > lonStep)) {
+    const { south, north, west, east } = dataset.metadata.spatialCoverage;
+    throw new Error(`Location ${location.lat.toFixed(2)}, ${location.lng.toFixed(2)} is outside the file's grid (${south}–${north}°N, ${west}–${east}°E)`);
+  }
+
+  const variables: Record<string, number[][][]> = {};
+  Object.entries(dataset.data.variables).forEach(([name, cube]) => {
+    variables[name] = cube.map(step => [[step[y]?.[x] ?? NaN]]);
+  });
+
+  return {
+    metadata: {
+      ...dataset.metadata,
+      spatialCoverage: { north: latitude[y], south: latitude[y], east: longitude[x], west: longitude[x] }
+    },
+    data: {
+      coordinates: { latitude: [latitude[y]], longitude: [longitude[x]], time },
+      variables
+    }
+  };
 }
\ No newline at end of file
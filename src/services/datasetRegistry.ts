@@ -0,0 +1,470 @@
+/**
+ * ============================================================================
+ * NASA DATASET REGISTRY
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Single source of truth for the Data Rods / OPeNDAP products this app can
+ * read: where they live, what they cover, and how their variables are named
+ * and converted. Fetchers (NASADataFetcher), URL builders (dateHelpers) and
+ * the CSV exporter (csvGenerator) all look datasets up here instead of
+ * hard-coding product paths and unit conversions.
+ *
+ * REGISTERED DATASETS:
+ * - GLDAS_NOAH025_3H_2.1  (global land, 0.25°, 3-hourly, 2000-present)
+ * - NLDAS_NOAH0125_H.002  (North America, 0.125°, hourly, 1979-present)
+ * - M2T1NXSLV_5.12.4      (MERRA-2 single-level, global, hourly, 1980-present)
+ * - M2T1NXFLX_5.12.4      (MERRA-2 surface flux, global, hourly, 1980-present)
+ *
+ * EXTENDING:
+ * Call datasetRegistry.register() with a DatasetDefinition. Registration
+ * order is preference order when several datasets can supply a variable.
+ *
+ * ============================================================================
+ */
+
+import { BoundingBox, Coordinates, Variable } from '../types/weather';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * Physical quantities the analysis pipeline knows how to use
+ */
+export type WeatherVariableRole =
+  | 'temperature'
+  | 'precipitation'
+  | 'windSpeed'
+  | 'specificHumidity'
+  | 'surfacePressure'
+  | 'snowDepth';
+
+/**
+ * Variable metadata plus export naming and unit conversion
+ */
+export interface DatasetVariable extends Variable {
+  /** Quantity this variable supplies to the analysis pipeline, if any */
+  role?: WeatherVariableRole;
+  /** Grouping used for URL constraint lists and documentation */
+  category: string;
+  /** Human-readable column name used by the CSV exporter */
+  exportName: string;
+  /** Units after conversion */
+  exportUnits: string;
+  /** Converts a value from native units to exportUnits */
+  convert: (value: number) => number;
+}
+
+/**
+ * Regular lat/lon grid used to translate coordinates into OPeNDAP indices
+ */
+export interface DatasetGrid {
+  latMin: number;
+  lonMin: number;
+  latResolution: number;
+  lonResolution: number;
+  latCount: number;
+  lonCount: number;
+}
+
+/**
+ * Complete description of a NASA data product
+ */
+export interface DatasetDefinition {
+  /** Unique short name, e.g. GLDAS_NOAH025_3H_2.1 */
+  id: string;
+  /** Full product name */
+  longName: string;
+  spatialCoverage: BoundingBox;
+  temporalCoverage: {
+    start: Date;
+    end?: Date; // Undefined while the product is still being extended
+  };
+  resolution: {
+    spatial: number; // Degrees
+    temporal: string; // Label, e.g. '3-hourly'
+    temporalHours: number; // Time step in hours
+  };
+  /** Data Rods (HTTP_services.cgi) parameters, if the product is served there */
+  dataRods?: {
+    FILENAME: string;
+    SERVICE: string;
+    VERSION: string;
+    DATASET: string;
+  };
+  /** OPeNDAP access, if per-granule subsetting is supported */
+  opendap?: {
+    baseUrl: string;
+    /** Path of the granule containing a time step, relative to baseUrl */
+    granulePath: (date: Date, hour: number) => string;
+    grid: DatasetGrid;
+    /**
+     * Time-aggregated endpoint serving the whole record as one dataset,
+     * so a date range can be subset in a single request
+     */
+    aggregation?: {
+      url: string;
+      /** Time of aggregation index 0 (UTC) */
+      firstTimeStep: Date;
+      /** Whether the aggregation exposes variable names in lower case */
+      lowercaseNames: boolean;
+    };
+  };
+  variables: DatasetVariable[];
+}
+
+// ============================================================================
+// DATASET IDS
+// ============================================================================
+
+export const GLDAS_NOAH025_3H = 'GLDAS_NOAH025_3H_2.1';
+export const NLDAS_NOAH0125_H = 'NLDAS_NOAH0125_H.002';
+export const MERRA2_SLV_1H = 'M2T1NXSLV_5.12.4';
+export const MERRA2_FLX_1H = 'M2T1NXFLX_5.12.4';
+
+// ============================================================================
+// UNIT CONVERSIONS
+// ============================================================================
+
+const identity = (v: number) => v;
+const kelvinToCelsius = (v: number) => v - 273.15;
+const perSecondToPerHour = (v: number) => v * 3600; // kg/m²/s → mm/hour
+const kgPerKgToGPerKg = (v: number) => v * 1000;
+const pascalToHectopascal = (v: number) => v / 100;
+const metresToCentimetres = (v: number) => v * 100;
+
+// ============================================================================
+// PATH HELPERS
+// ============================================================================
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+// Granule paths name UTC days
+
+function formatYYYYMMDD(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1, 2)}${pad(date.getUTCDate(), 2)}`;
+}
+
+function dayOfYear(date: Date): string {
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const day = Math.floor((date.getTime() - start) / (1000 * 60 * 60 * 24));
+  return pad(day, 3);
+}
+
+/**
+ * MERRA-2 file stream number changes with the production period
+ */
+function merra2Stream(year: number): number {
+  if (year < 1992) return 100;
+  if (year < 2001) return 200;
+  if (year < 2011) return 300;
+  return 400;
+}
+
+// ============================================================================
+// DEFAULT DATASETS
+// ============================================================================
+
+/**
+ * GLDAS NOAH 0.25° 3-hourly v2.1 — all 36 model output and forcing variables
+ */
+const GLDAS_NOAH025_3H_DEFINITION: DatasetDefinition = {
+  id: GLDAS_NOAH025_3H,
+  longName: 'GLDAS Noah Land Surface Model L4 3 hourly 0.25 x 0.25 degree V2.1',
+  spatialCoverage: { north: 90, south: -60, east: 180, west: -180 },
+  temporalCoverage: { start: new Date(Date.UTC(2000, 0, 1)) },
+  resolution: { spatial: 0.25, temporal: '3-hourly', temporalHours: 3 },
+  dataRods: {
+    FILENAME: '/data/GLDAS/GLDAS_NOAH025_3H.2.1',
+    SERVICE: 'SUBSET_GLDAS',
+    VERSION: '1.02',
+    DATASET: 'GLDAS_NOAH025_3H_2.1'
+  },
+  opendap: {
+    baseUrl: 'https://hydro1.gesdisc.eosdis.nasa.gov/opendap/GLDAS/GLDAS_NOAH025_3H.2.1',
+    granulePath: (date, hour) =>
+      `${date.getUTCFullYear()}/${dayOfYear(date)}/GLDAS_NOAH025_3H.A${formatYYYYMMDD(date)}.${pad(hour, 2)}00.021.nc4`,
+    grid: {
+      latMin: -59.875,
+      lonMin: -179.875,
+      latResolution: 0.25,
+      lonResolution: 0.25,
+      latCount: 600,
+      lonCount: 1440
+    },
+    aggregation: {
+      // GrADS Data Server aggregation of all 3-hourly granules
+      url: 'https://hydro1.gesdisc.eosdis.nasa.gov/dods/GLDAS_NOAH025_3H.2.1',
+      firstTimeStep: new Date(Date.UTC(2000, 0, 1, 3)),
+      lowercaseNames: true
+    }
+  },
+  variables: [
+    // Energy fluxes
+    { name: 'Swnet_tavg', longName: 'Net short wave radiation flux', units: 'W m-2', category: 'Energy Fluxes', exportName: 'Net_Shortwave_Radiation', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'Lwnet_tavg', longName: 'Net long-wave radiation flux', units: 'W m-2', category: 'Energy Fluxes', exportName: 'Net_Longwave_Radiation', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'Qle_tavg', longName: 'Latent heat net flux', units: 'W m-2', category: 'Energy Fluxes', exportName: 'Latent_Heat_Flux', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'Qh_tavg', longName: 'Sensible heat net flux', units: 'W m-2', category: 'Energy Fluxes', exportName: 'Sensible_Heat_Flux', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'Qg_tavg', longName: 'Heat flux', units: 'W m-2', category: 'Energy Fluxes', exportName: 'Ground_Heat_Flux', exportUnits: 'W_per_m2', convert: identity },
+
+    // Water balance
+    { name: 'Snowf_tavg', longName: 'Snow precipitation rate', units: 'kg m-2 s-1', category: 'Water Balance', exportName: 'Snow_Precipitation_Rate', exportUnits: 'mm_per_hour', convert: perSecondToPerHour },
+    { name: 'Rainf_tavg', longName: 'Rain precipitation rate', units: 'kg m-2 s-1', category: 'Water Balance', exportName: 'Rain_Precipitation_Rate', exportUnits: 'mm_per_hour', convert: perSecondToPerHour },
+    { name: 'Evap_tavg', longName: 'Evapotranspiration', units: 'kg m-2 s-1', category: 'Water Balance', exportName: 'Total_Evapotranspiration', exportUnits: 'mm_per_hour', convert: perSecondToPerHour },
+    { name: 'Qs_acc', longName: 'Storm surface runoff', units: 'kg m-2', category: 'Water Balance', exportName: 'Surface_Runoff', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'Qsb_acc', longName: 'Baseflow-groundwater runoff', units: 'kg m-2', category: 'Water Balance', exportName: 'Subsurface_Runoff', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'Qsm_acc', longName: 'Snow melt', units: 'kg m-2', category: 'Water Balance', exportName: 'Snow_Melt', exportUnits: 'kg_per_m2', convert: identity },
+
+    // Surface properties
+    { name: 'AvgSurfT_inst', longName: 'Average surface skin temperature', units: 'K', category: 'Surface', exportName: 'Surface_Skin_Temperature', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'Albedo_inst', longName: 'Albedo', units: '%', category: 'Surface', exportName: 'Surface_Albedo', exportUnits: 'percent', convert: identity },
+    { name: 'SWE_inst', longName: 'Snow depth water equivalent', units: 'kg m-2', category: 'Surface', exportName: 'Snow_Water_Equivalent', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'SnowDepth_inst', longName: 'Snow depth', units: 'm', role: 'snowDepth', category: 'Surface', exportName: 'Snow_Depth', exportUnits: 'cm', convert: metresToCentimetres },
+
+    // Soil moisture
+    { name: 'SoilMoi0_10cm_inst', longName: 'Soil moisture content (0-10 cm)', units: 'kg m-2', category: 'Soil Moisture', exportName: 'Soil_Moisture_0-10cm', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'SoilMoi10_40cm_inst', longName: 'Soil moisture content (10-40 cm)', units: 'kg m-2', category: 'Soil Moisture', exportName: 'Soil_Moisture_10-40cm', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'SoilMoi40_100cm_inst', longName: 'Soil moisture content (40-100 cm)', units: 'kg m-2', category: 'Soil Moisture', exportName: 'Soil_Moisture_40-100cm', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'SoilMoi100_200cm_inst', longName: 'Soil moisture content (100-200 cm)', units: 'kg m-2', category: 'Soil Moisture', exportName: 'Soil_Moisture_100-200cm', exportUnits: 'kg_per_m2', convert: identity },
+
+    // Soil temperature
+    { name: 'SoilTMP0_10cm_inst', longName: 'Soil temperature (0-10 cm)', units: 'K', category: 'Soil Temperature', exportName: 'Soil_Temperature_0-10cm', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'SoilTMP10_40cm_inst', longName: 'Soil temperature (10-40 cm)', units: 'K', category: 'Soil Temperature', exportName: 'Soil_Temperature_10-40cm', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'SoilTMP40_100cm_inst', longName: 'Soil temperature (40-100 cm)', units: 'K', category: 'Soil Temperature', exportName: 'Soil_Temperature_40-100cm', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'SoilTMP100_200cm_inst', longName: 'Soil temperature (100-200 cm)', units: 'K', category: 'Soil Temperature', exportName: 'Soil_Temperature_100-200cm', exportUnits: 'Celsius', convert: kelvinToCelsius },
+
+    // Evaporation components
+    { name: 'PotEvap_tavg', longName: 'Potential evaporation rate', units: 'W m-2', category: 'Evaporation', exportName: 'Potential_Evaporation', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'ECanop_tavg', longName: 'Canopy water evaporation', units: 'W m-2', category: 'Evaporation', exportName: 'Canopy_Water_Evaporation', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'TVeg_tavg', longName: 'Transpiration', units: 'W m-2', category: 'Evaporation', exportName: 'Vegetation_Transpiration', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'ESoil_tavg', longName: 'Direct evaporation from bare soil', units: 'W m-2', category: 'Evaporation', exportName: 'Bare_Soil_Evaporation', exportUnits: 'W_per_m2', convert: identity },
+
+    // Other land surface
+    { name: 'RootMoist_inst', longName: 'Root zone soil moisture', units: 'kg m-2', category: 'Other', exportName: 'Root_Zone_Soil_Moisture', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'CanopInt_inst', longName: 'Plant canopy surface water', units: 'kg m-2', category: 'Other', exportName: 'Canopy_Water_Storage', exportUnits: 'kg_per_m2', convert: identity },
+    { name: 'ACond_tavg', longName: 'Aerodynamic conductance', units: 'm s-1', category: 'Other', exportName: 'Aerodynamic_Conductance', exportUnits: 'm_per_s', convert: identity },
+
+    // Forcing
+    { name: 'Wind_f_inst', longName: 'Wind speed', units: 'm s-1', standardName: 'wind_speed', role: 'windSpeed', category: 'Forcing', exportName: 'Wind_Speed', exportUnits: 'm_per_s', convert: identity },
+    { name: 'Rainf_f_tavg', longName: 'Total precipitation rate', units: 'kg m-2 s-1', standardName: 'precipitation_flux', role: 'precipitation', category: 'Forcing', exportName: 'Total_Precipitation_Forcing', exportUnits: 'mm_per_hour', convert: perSecondToPerHour },
+    { name: 'Tair_f_inst', longName: 'Air temperature', units: 'K', standardName: 'air_temperature', role: 'temperature', category: 'Forcing', exportName: 'Air_Temperature', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'Qair_f_inst', longName: 'Specific humidity', units: 'kg kg-1', standardName: 'specific_humidity', role: 'specificHumidity', category: 'Forcing', exportName: 'Specific_Humidity', exportUnits: 'g_per_kg', convert: kgPerKgToGPerKg },
+    { name: 'Psurf_f_inst', longName: 'Pressure', units: 'Pa', standardName: 'surface_air_pressure', role: 'surfacePressure', category: 'Forcing', exportName: 'Surface_Pressure', exportUnits: 'hPa', convert: pascalToHectopascal },
+    { name: 'SWdown_f_tavg', longName: 'Downward short-wave radiation flux', units: 'W m-2', category: 'Forcing', exportName: 'Downward_Shortwave_Radiation', exportUnits: 'W_per_m2', convert: identity },
+    { name: 'LWdown_f_tavg', longName: 'Downward long-wave radiation flux', units: 'W m-2', category: 'Forcing', exportName: 'Downward_Longwave_Radiation', exportUnits: 'W_per_m2', convert: identity }
+  ]
+};
+
+/**
+ * NLDAS NOAH 0.125° hourly v2 — precipitation only (North America)
+ */
+const NLDAS_NOAH0125_H_DEFINITION: DatasetDefinition = {
+  id: NLDAS_NOAH0125_H,
+  longName: 'NLDAS Noah Land Surface Model L4 Hourly 0.125 x 0.125 degree V002',
+  spatialCoverage: { north: 53, south: 25, east: -67, west: -125 },
+  temporalCoverage: { start: new Date(Date.UTC(1979, 0, 2)) },
+  resolution: { spatial: 0.125, temporal: 'hourly', temporalHours: 1 },
+  dataRods: {
+    FILENAME: '/data/NLDAS/NLDAS_NOAH0125_H.002',
+    SERVICE: 'SUBSET_NLDAS',
+    VERSION: '1.02',
+    DATASET: 'NLDAS_NOAH0125_H.002'
+  },
+  variables: [
+    { name: 'APCPsfc', longName: 'Precipitation hourly total', units: 'kg m-2', role: 'precipitation', category: 'Forcing', exportName: 'Precipitation', exportUnits: 'mm_per_hour', convert: identity }
+  ]
+};
+
+/**
+ * MERRA-2 tavg1_2d_slv_Nx — hourly single-level diagnostics (global)
+ */
+const MERRA2_SLV_1H_DEFINITION: DatasetDefinition = {
+  id: MERRA2_SLV_1H,
+  longName: 'MERRA-2 tavg1_2d_slv_Nx: 2d,1-Hourly,Time-Averaged,Single-Level,Assimilation,Single-Level Diagnostics V5.12.4',
+  spatialCoverage: { north: 90, south: -90, east: 180, west: -180 },
+  temporalCoverage: { start: new Date(Date.UTC(1980, 0, 1)) },
+  resolution: { spatial: 0.5, temporal: 'hourly', temporalHours: 1 },
+  opendap: {
+    baseUrl: 'https://goldsmr4.gesdisc.eosdis.nasa.gov/opendap/MERRA2/M2T1NXSLV.5.12.4',
+    granulePath: (date) =>
+      `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1, 2)}/MERRA2_${merra2Stream(date.getUTCFullYear())}.tavg1_2d_slv_Nx.${formatYYYYMMDD(date)}.nc4`,
+    grid: {
+      latMin: -90,
+      lonMin: -180,
+      latResolution: 0.5,
+      lonResolution: 0.625,
+      latCount: 361,
+      lonCount: 576
+    }
+  },
+  variables: [
+    { name: 'T2M', longName: '2-meter air temperature', units: 'K', standardName: 'air_temperature', role: 'temperature', category: 'Single Level', exportName: 'Air_Temperature_2m', exportUnits: 'Celsius', convert: kelvinToCelsius },
+    { name: 'QV2M', longName: '2-meter specific humidity', units: 'kg kg-1', standardName: 'specific_humidity', role: 'specificHumidity', category: 'Single Level', exportName: 'Specific_Humidity_2m', exportUnits: 'g_per_kg', convert: kgPerKgToGPerKg },
+    { name: 'PS', longName: 'Surface pressure', units: 'Pa', standardName: 'surface_air_pressure', role: 'surfacePressure', category: 'Single Level', exportName: 'Surface_Pressure', exportUnits: 'hPa', convert: pascalToHectopascal },
+    { name: 'U2M', longName: '2-meter eastward wind', units: 'm s-1', category: 'Single Level', exportName: 'Eastward_Wind_2m', exportUnits: 'm_per_s', convert: identity },
+    { name: 'V2M', longName: '2-meter northward wind', units: 'm s-1', category: 'Single Level', exportName: 'Northward_Wind_2m', exportUnits: 'm_per_s', convert: identity }
+  ]
+};
+
+/**
+ * MERRA-2 tavg1_2d_flx_Nx — hourly surface flux diagnostics (global)
+ */
+const MERRA2_FLX_1H_DEFINITION: DatasetDefinition = {
+  id: MERRA2_FLX_1H,
+  longName: 'MERRA-2 tavg1_2d_flx_Nx: 2d,1-Hourly,Time-Averaged,Single-Level,Assimilation,Surface Flux Diagnostics V5.12.4',
+  spatialCoverage: { north: 90, south: -90, east: 180, west: -180 },
+  temporalCoverage: { start: new Date(Date.UTC(1980, 0, 1)) },
+  resolution: { spatial: 0.5, temporal: 'hourly', temporalHours: 1 },
+  opendap: {
+    baseUrl: 'https://goldsmr4.gesdisc.eosdis.nasa.gov/opendap/MERRA2/M2T1NXFLX.5.12.4',
+    granulePath: (date) =>
+      `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1, 2)}/MERRA2_${merra2Stream(date.getUTCFullYear())}.tavg1_2d_flx_Nx.${formatYYYYMMDD(date)}.nc4`,
+    grid: {
+      latMin: -90,
+      lonMin: -180,
+      latResolution: 0.5,
+      lonResolution: 0.625,
+      latCount: 361,
+      lonCount: 576
+    }
+  },
+  variables: [
+    { name: 'PRECTOT', longName: 'Total precipitation', units: 'kg m-2 s-1', standardName: 'precipitation_flux', role: 'precipitation', category: 'Surface Flux', exportName: 'Total_Precipitation', exportUnits: 'mm_per_hour', convert: perSecondToPerHour },
+    { name: 'SPEED', longName: 'Surface wind speed', units: 'm s-1', standardName: 'wind_speed', role: 'windSpeed', category: 'Surface Flux', exportName: 'Surface_Wind_Speed', exportUnits: 'm_per_s', convert: identity }
+  ]
+};
+
+// ============================================================================
+// REGISTRY CLASS
+// ============================================================================
+
+export class DatasetRegistry {
+  private datasets: Map<string, DatasetDefinition> = new Map();
+
+  constructor(definitions: DatasetDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Add (or replace) a dataset definition
+   *
+   * Datasets registered earlier are preferred by findSources().
+   */
+  register(definition: DatasetDefinition): void {
+    this.datasets.set(definition.id, definition);
+  }
+
+  /**
+   * Look up a dataset by id
+   */
+  get(id: string): DatasetDefinition | undefined {
+    return this.datasets.get(id);
+  }
+
+  /**
+   * Look up a dataset by id, throwing if it is not registered
+   */
+  require(id: string): DatasetDefinition {
+    const dataset = this.datasets.get(id);
+    if (!dataset) {
+      throw new Error(`Dataset not registered: ${id}`);
+    }
+    return dataset;
+  }
+
+  /**
+   * All registered datasets, in preference order
+   */
+  list(): DatasetDefinition[] {
+    return Array.from(this.datasets.values());
+  }
+
+  /**
+   * Find a variable by its native name in any registered dataset
+   *
+   * @param name - Native variable name, e.g. Tair_f_inst
+   * @returns The variable and the first dataset that defines it
+   */
+  findVariable(name: string): { dataset: DatasetDefinition; variable: DatasetVariable } | undefined {
+    for (const dataset of this.datasets.values()) {
+      const variable = dataset.variables.find(v => v.name === name);
+      if (variable) return { dataset, variable };
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the variable a dataset uses for a given role
+   */
+  getVariableForRole(dataset: DatasetDefinition, role: WeatherVariableRole): DatasetVariable | undefined {
+    return dataset.variables.find(v => v.role === role);
+  }
+
+  /**
+   * Datasets that can supply a role at a location through Data Rods,
+   * in preference order
+   *
+   * @param role - Quantity required
+   * @param location - Point that must fall inside the spatial coverage
+   */
+  findSources(role: WeatherVariableRole, location: Coordinates): DatasetDefinition[] {
+    return this.list().filter(dataset =>
+      dataset.dataRods !== undefined &&
+      this.getVariableForRole(dataset, role) !== undefined &&
+      this.covers(dataset, location)
+    );
+  }
+
+  /**
+   * Grid a dataset's data lies on: its OPeNDAP grid, or for Data Rods-only
+   * products (e.g. NLDAS) the cell centres implied by its spatial coverage
+   * and resolution
+   */
+  getGrid(dataset: DatasetDefinition): DatasetGrid {
+    if (dataset.opendap) return dataset.opendap.grid;
+
+    const box = dataset.spatialCoverage;
+    const step = dataset.resolution.spatial;
+    return {
+      latMin: box.south + step / 2,
+      lonMin: box.west + step / 2,
+      latResolution: step,
+      lonResolution: step,
+      latCount: Math.round((box.north - box.south) / step),
+      lonCount: Math.round((box.east - box.west) / step)
+    };
+  }
+
+  /**
+   * Check whether a location falls inside a dataset's spatial coverage
+   */
+  covers(dataset: DatasetDefinition, location: Coordinates): boolean {
+    const box = dataset.spatialCoverage;
+    return (
+      location.lat >= box.south &&
+      location.lat <= box.north &&
+      location.lng >= box.west &&
+      location.lng <= box.east
+    );
+  }
+}
+
+// ============================================================================
+// SINGLETON EXPORT
+// ============================================================================
+
+/**
+ * Shared registry pre-loaded with the default NASA datasets
+ *
+ * NLDAS is registered before GLDAS so its finer hourly precipitation is
+ * preferred inside North America; GLDAS covers everywhere else.
+ */
+export const datasetRegistry = new DatasetRegistry([
+  NLDAS_NOAH0125_H_DEFINITION,
+  GLDAS_NOAH025_3H_DEFINITION,
+  MERRA2_SLV_1H_DEFINITION,
+  MERRA2_FLX_1H_DEFINITION
+]);
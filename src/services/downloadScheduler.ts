@@ -0,0 +1,334 @@
+/**
+ * ============================================================================
+ * DOWNLOAD SCHEDULER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runs download tasks with bounded concurrency instead of one at a time:
+ * - At most `concurrency` tasks in flight
+ * - Per-host rate limiting (minimum interval between task starts per host)
+ * - Retries with exponential backoff + jitter on 504 / 429 (and network
+ *   errors); a Retry-After delay is honoured when the task reports one
+ * - Cancellation through an AbortController (own or caller-supplied)
+ * - Progress per source as LoadingProgress entries for LoadingIndicator
+ *
+ * A task only needs a URL (for its host) and a run(signal) function; it
+ * signals a retryable failure by throwing a DownloadError with a status.
+ *
+ * ============================================================================
+ */
+
+import { LoadingProgress } from '../types/weather';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * One unit of work
+ */
+export interface DownloadTask<T> {
+  /** Label the task's progress is grouped under, e.g. 'GLDAS granules' */
+  source: string;
+  /** URL being fetched; its host is used for rate limiting */
+  url: string;
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+/**
+ * Outcome of one task, in the order the tasks were given
+ */
+export type DownloadOutcome<T> =
+  | { task: DownloadTask<T>; ok: true; value: T; attempts: number }
+  | { task: DownloadTask<T>; ok: false; error: Error; attempts: number };
+
+export interface DownloadSchedulerOptions {
+  /** Tasks in flight at once (default 4) */
+  concurrency?: number;
+  /** Minimum milliseconds between task starts on the same host (default 250) */
+  minHostIntervalMs?: number;
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** First backoff delay, doubled per retry (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default 30000) */
+  maxDelayMs?: number;
+  /** HTTP statuses worth retrying (default 504, 429) */
+  retryStatuses?: number[];
+  /** Caller's signal; aborting it cancels the scheduler */
+  signal?: AbortSignal;
+  /** Called with the progress of every source whenever it changes */
+  onProgress?: (progress: LoadingProgress[]) => void;
+}
+
+/**
+ * Error carrying the HTTP status of a failed download
+ */
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    /** Server-requested delay before retrying (Retry-After), in ms */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * Running totals for one source
+ */
+interface SourceCounts {
+  total: number;
+  completed: number;
+  failed: number;
+  retrying: number;
+}
+
+// ============================================================================
+// MAIN SCHEDULER CLASS
+// ============================================================================
+
+export class DownloadScheduler {
+
+  private readonly concurrency: number;
+  private readonly minHostIntervalMs: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly retryStatuses: number[];
+  private readonly onProgress?: (progress: LoadingProgress[]) => void;
+
+  private readonly controller = new AbortController();
+
+  /**
+   * Earliest time the next task may start, per host
+   */
+  private readonly nextStartByHost = new Map<string, number>();
+
+  private readonly sources = new Map<string, SourceCounts>();
+
+  constructor(options: DownloadSchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.minHostIntervalMs = options.minHostIntervalMs ?? 250;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.retryStatuses = options.retryStatuses ?? [504, 429];
+    this.onProgress = options.onProgress;
+
+    if (options.signal) {
+      if (options.signal.aborted) this.cancel();
+      options.signal.addEventListener('abort', () => this.cancel(), { once: true });
+    }
+  }
+
+  /**
+   * Signal passed to every task; aborted by cancel()
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Abort in-flight tasks and skip the remaining ones
+   */
+  cancel(): void {
+    if (!this.controller.signal.aborted) {
+      console.log('🛑 Download scheduler cancelled');
+      this.controller.abort();
+    }
+  }
+
+  /**
+   * Run tasks with bounded concurrency
+   *
+   * Individual task failures do not reject; they are returned as outcomes.
+   * Rejects with an AbortError if the scheduler is cancelled.
+   *
+   * @param tasks - Tasks to run (started in order)
+   * @returns One outcome per task, in the same order
+   *
+   * @example
+   * const scheduler = new DownloadScheduler({ concurrency: 4, onProgress: setProgress });
+   * const outcomes = await scheduler.run(urls.map(url => ({
+   *   source: 'GLDAS granules',
+   *   url,
+   *   run: signal => fetch(url, { signal }).then(r => r.arrayBuffer())
+   * })));
+   */
+  async run<T>(tasks: DownloadTask<T>[]): Promise<DownloadOutcome<T>[]> {
+    tasks.forEach(task => this.getCounts(task.source).total++);
+    this.emitProgress();
+
+    const outcomes: DownloadOutcome<T>[] = new Array(tasks.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < tasks.length && !this.signal.aborted) {
+        const index = nextIndex++;
+        outcomes[index] = await this.runWithRetries(tasks[index]);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, tasks.length) }, worker)
+    );
+
+    this.throwIfCancelled();
+    return outcomes;
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS - EXECUTION
+  // ==========================================================================
+
+  private async runWithRetries<T>(task: DownloadTask<T>): Promise<DownloadOutcome<T>> {
+    const counts = this.getCounts(task.source);
+    let attempt = 0;
+
+    for (;;) {
+      attempt++;
+      await this.waitForHostSlot(task.url);
+
+      try {
+        const value = await task.run(this.signal);
+        counts.completed++;
+        this.emitProgress();
+        return { task, ok: true, value, attempts: attempt };
+
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        this.throwIfCancelled();
+
+        if (attempt > this.maxRetries || !this.isRetryable(failure)) {
+          counts.completed++;
+          counts.failed++;
+          this.emitProgress();
+          console.error(`❌ ${task.source}: gave up after ${attempt} attempt(s):`, failure.message);
+          return { task, ok: false, error: failure, attempts: attempt };
+        }
+
+        const delay = this.getBackoffDelay(attempt, failure);
+        console.warn(`⏳ ${task.source}: ${failure.message}, retry ${attempt}/${this.maxRetries} in ${Math.round(delay / 1000)}s`);
+
+        counts.retrying++;
+        this.emitProgress();
+        await this.sleep(delay);
+        counts.retrying--;
+      }
+    }
+  }
+
+  /**
+   * Retry on configured statuses, and on network errors (TypeError from fetch)
+   */
+  private isRetryable(error: Error): boolean {
+    if (error instanceof DownloadError) {
+      return error.status !== undefined && this.retryStatuses.includes(error.status);
+    }
+    return error instanceof TypeError;
+  }
+
+  /**
+   * Exponential backoff with ±25% jitter, or the server's Retry-After
+   */
+  private getBackoffDelay(attempt: number, error: Error): number {
+    if (error instanceof DownloadError && error.retryAfterMs !== undefined) {
+      return Math.min(this.maxDelayMs, error.retryAfterMs);
+    }
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return exponential * (0.75 + Math.random() * 0.5);
+  }
+
+  /**
+   * Reserve the next start slot for the URL's host and wait for it
+   */
+  private async waitForHostSlot(url: string): Promise<void> {
+    const host = this.getHost(url);
+    const now = Date.now();
+    const start = Math.max(now, this.nextStartByHost.get(host) ?? 0);
+
+    this.nextStartByHost.set(host, start + this.minHostIntervalMs);
+
+    if (start > now) {
+      await this.sleep(start - now);
+    }
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url, 'http://localhost').host;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Delay that rejects as soon as the scheduler is cancelled
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.signal.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createAbortError());
+      };
+      this.signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private throwIfCancelled(): void {
+    if (this.signal.aborted) {
+      throw this.createAbortError();
+    }
+  }
+
+  private createAbortError(): Error {
+    return new DOMException('Download cancelled', 'AbortError');
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS - PROGRESS
+  // ==========================================================================
+
+  private getCounts(source: string): SourceCounts {
+    let counts = this.sources.get(source);
+    if (!counts) {
+      counts = { total: 0, completed: 0, failed: 0, retrying: 0 };
+      this.sources.set(source, counts);
+    }
+    return counts;
+  }
+
+  private emitProgress(): void {
+    if (!this.onProgress) return;
+
+    const all = Array.from(this.sources.values());
+    const totalTasks = all.reduce((sum, counts) => sum + counts.total, 0);
+    const completedTasks = all.reduce((sum, counts) => sum + counts.completed, 0);
+    const overallProgress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+    this.onProgress(Array.from(this.sources.entries()).map(([source, counts]) => {
+      const done = counts.completed === counts.total;
+      return {
+        source,
+        status: done && counts.failed === counts.total ? 'error' : done ? 'complete' : 'loading',
+        progress: counts.total > 0 ? Math.round((counts.completed / counts.total) * 100) : 0,
+        overallProgress,
+        completed: counts.completed,
+        total: counts.total,
+        failed: counts.failed,
+        retrying: counts.retrying
+      };
+    }));
+  }
+}
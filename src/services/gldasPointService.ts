@@ -0,0 +1,507 @@
+/**
+ * ============================================================================
+ * GLDAS POINT SERVICE (SERVER-SIDE PARSING)
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Requests parsed WeatherDataPoint records for a set of GLDAS granule URLs
+ * from the proxy's POST /api/gldas-points endpoint. The proxy downloads and
+ * decodes each binary NetCDF file and streams the points back as NDJSON,
+ * one line per file, so the browser does no base64 or binary work.
+ *
+ * Date ranges are requested from the product's time-aggregated endpoint
+ * in a single request where possible, falling back to one URL per
+ * 3-hour granule if the aggregation fails or returns no data. Both go
+ * through a DownloadScheduler (bounded concurrency, per-host rate limit,
+ * retries on 504/429, cancellation). Every granule received is stored in
+ * the IndexedDB granule cache (CacheManager), and only granules missing
+ * from the cache are downloaded.
+ *
+ * STREAM FORMAT (one JSON object per line):
+ * - { type: 'points', index, url, points }
+ * - { type: 'error', index, url, error, status? }
+ * - { type: 'done', totalFiles, successCount, failCount }
+ *
+ * ============================================================================
+ */
+
+import { WeatherDataPoint } from '../utils/netcdfParser';
+import {
+  buildGLDASTimeRangeUrl,
+  getGLDASTimeIndexRange,
+  getGranulesForDateRangeBinary,
+  GranuleRequest
+} from '../utils/dateHelpers';
+import { datasetRegistry, GLDAS_NOAH025_3H } from './datasetRegistry';
+import { DownloadError, DownloadScheduler } from './downloadScheduler';
+import { cacheManager, GranuleCacheInput } from './cacheManager';
+import { LoadingProgress } from '../types/weather';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * Point as serialised by the proxy (timestamp is an ISO string)
+ */
+interface SerializedDataPoint {
+  lat: number;
+  lon: number;
+  timestamp: string;
+  variables: Record<string, number>;
+}
+
+/**
+ * One line of the NDJSON response
+ */
+type PointStreamEvent =
+  | { type: 'points'; index: number; url: string; points: SerializedDataPoint[] }
+  | { type: 'error'; index: number; url: string; error: string; status?: number }
+  | { type: 'done'; totalFiles: number; successCount: number; failCount: number };
+
+/**
+ * Progress report after each file completes
+ */
+export interface PointFileProgress {
+  index: number;
+  url: string;
+  completedFiles: number;
+  totalFiles: number;
+  success: boolean;
+  pointCount: number;
+  error?: string;
+}
+
+/**
+ * Combined result of a points request
+ */
+export interface PointFetchResult {
+  points: WeatherDataPoint[];
+  totalFiles: number;
+  successCount: number;
+  failCount: number;
+  /** Error message per failed file index */
+  errors: Record<number, string>;
+  /** HTTP status per failed file index, where the proxy reported one */
+  statuses: Record<number, number>;
+}
+
+/**
+ * Result of a date-range request, with the strategy that produced it
+ */
+export interface DateRangeFetchResult extends PointFetchResult {
+  /**
+   * How the missing granules were downloaded: 'aggregated' = one time-range
+   * request (plus per-step requests for steps it lacked), 'granules' = one
+   * request per time step, 'cache' = none missing
+   */
+  mode: 'aggregated' | 'granules' | 'cache';
+  /** Granules served from the IndexedDB cache */
+  cachedFiles: number;
+}
+
+export interface DateRangeFetchOptions {
+  /** Cancels all pending and in-flight downloads */
+  signal?: AbortSignal;
+  /** Requests in flight at once */
+  concurrency?: number;
+  /** Progress per source ('GLDAS time-range request', 'GLDAS granules') */
+  onProgress?: (progress: LoadingProgress[]) => void;
+}
+
+// ============================================================================
+// MAIN SERVICE CLASS
+// ============================================================================
+
+export class GLDASPointService {
+
+  /**
+   * Proxy endpoint that downloads, parses and streams points
+   */
+  private readonly endpoint = '/api/gldas-points';
+
+  /**
+   * Default requests in flight for date-range downloads
+   */
+  private readonly defaultConcurrency = 4;
+
+  private readonly aggregatedSource = 'GLDAS time-range request';
+  private readonly granuleSource = 'GLDAS granules';
+
+  /**
+   * Fetch parsed points for a list of granule URLs in one request
+   *
+   * @param urls - Granule URLs (e.g. from getUrlsForDateRangeBinary)
+   * @param lat - Requested latitude (logged by the proxy)
+   * @param lon - Requested longitude (logged by the proxy)
+   * @param onFile - Called as each file's points (or error) arrive
+   * @param signal - Aborts the request
+   * @returns All points, sorted by timestamp, plus success/failure counts
+   * @throws DownloadError with the HTTP status if the proxy rejects the request
+   *
+   * @example
+   * const urls = getUrlsForDateRangeBinary(start, end, 40.71, -74.01);
+   * const { points } = await gldasPointService.fetchPoints(urls, 40.71, -74.01);
+   */
+  async fetchPoints(
+    urls: string[],
+    lat: number,
+    lon: number,
+    onFile?: (progress: PointFileProgress) => void,
+    signal?: AbortSignal
+  ): Promise<PointFetchResult> {
+    console.log(`📍 Requesting parsed points for ${urls.length} files...`);
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ urls, lat, lon }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+      throw new DownloadError(
+        errorData.error || errorData.message || `HTTP ${response.status}`,
+        response.status,
+        retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined
+      );
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming responses are not supported by this browser');
+    }
+
+    const result: PointFetchResult = {
+      points: [],
+      totalFiles: urls.length,
+      successCount: 0,
+      failCount: 0,
+      errors: {},
+      statuses: {}
+    };
+    let completedFiles = 0;
+    let finished = false;
+
+    const handleEvent = (event: PointStreamEvent) => {
+      if (event.type === 'done') {
+        finished = true;
+        return;
+      }
+
+      completedFiles++;
+
+      if (event.type === 'points') {
+        result.successCount++;
+        event.points.forEach(point => {
+          result.points.push({ ...point, timestamp: new Date(point.timestamp) });
+        });
+      } else {
+        result.failCount++;
+        result.errors[event.index] = event.error;
+        if (event.status !== undefined) {
+          result.statuses[event.index] = event.status;
+        }
+        console.error(`❌ File ${event.index + 1} failed:`, event.error);
+      }
+
+      onFile?.({
+        index: event.index,
+        url: event.url,
+        completedFiles,
+        totalFiles: urls.length,
+        success: event.type === 'points',
+        pointCount: event.type === 'points' ? event.points.length : 0,
+        error: event.type === 'error' ? event.error : undefined
+      });
+    };
+
+    // Read NDJSON lines as they arrive
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      lines.filter(line => line.trim()).forEach(line => handleEvent(JSON.parse(line)));
+
+      if (done) break;
+    }
+
+    if (buffered.trim()) {
+      handleEvent(JSON.parse(buffered));
+    }
+
+    if (!finished) {
+      console.warn('⚠️ Points stream ended before completion');
+    }
+
+    result.points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    console.log(`✅ Points received: ${result.points.length} from ${result.successCount}/${urls.length} files`);
+
+    return result;
+  }
+
+  /**
+   * Fetch parsed points for every time step in a date range
+   *
+   * Granules already in the cache are used as-is. The rest are requested
+   * with a single time-aggregated request spanning them; if the product
+   * has no aggregation, or the request fails or yields no points, they are
+   * downloaded per granule, several at a time; so are any time steps the
+   * aggregated response leaves out. Downloaded granules are cached for
+   * later requests.
+   *
+   * @param startDate - First UTC day (inclusive)
+   * @param endDate - Last UTC day (inclusive)
+   * @param lat - Latitude of the 3×3 window centre
+   * @param lon - Longitude of the 3×3 window centre
+   * @param options - Cancellation signal, concurrency and progress callback
+   * @returns Points sorted by timestamp, using registry variable names
+   * @throws AbortError (DOMException) if cancelled
+   *
+   * @example
+   * const controller = new AbortController();
+   * const result = await gldasPointService.fetchDateRange(start, end, 40.71, -74.01, {
+   *   signal: controller.signal,
+   *   onProgress: setSourceProgress
+   * });
+   * console.log(result.mode, result.cachedFiles); // 'aggregated', 0
+   */
+  async fetchDateRange(
+    startDate: Date,
+    endDate: Date,
+    lat: number,
+    lon: number,
+    options: DateRangeFetchOptions = {}
+  ): Promise<DateRangeFetchResult> {
+    const granules = getGranulesForDateRangeBinary(startDate, endDate, lat, lon);
+    const cached = await this.readCache(granules);
+    const missing = granules.filter(granule => !cached.has(cacheManager.generateGranuleKey(granule)));
+
+    const result: DateRangeFetchResult = {
+      points: Array.from(cached.values()).flat(),
+      totalFiles: granules.length,
+      successCount: cached.size,
+      failCount: 0,
+      errors: {},
+      statuses: {},
+      mode: 'cache',
+      cachedFiles: cached.size
+    };
+
+    console.log(`💾 Granule cache: ${cached.size}/${granules.length} hits`);
+
+    if (missing.length > 0) {
+      const scheduler = new DownloadScheduler({
+        concurrency: options.concurrency ?? this.defaultConcurrency,
+        signal: options.signal,
+        onProgress: options.onProgress
+      });
+
+      const aggregated = await this.fetchAggregated(scheduler, missing, lat, lon);
+
+      // Steps the aggregated response did not cover (all of them without one)
+      const covered = new Set(aggregated?.granules.map(granule => granule.key));
+      const uncovered = missing.filter(granule => !covered.has(granule));
+      if (aggregated && uncovered.length > 0) {
+        console.log(`🔁 ${uncovered.length} time steps missing from the time-range response, downloading per granule...`);
+      }
+      const perGranule = uncovered.length > 0
+        ? await this.fetchGranules(scheduler, granules, uncovered, lat, lon, result)
+        : null;
+
+      const downloaded = [...(aggregated?.granules ?? []), ...(perGranule?.granules ?? [])];
+
+      result.mode = aggregated ? aggregated.mode : 'granules';
+      result.successCount += downloaded.length;
+      downloaded.forEach(granule => result.points.push(...granule.points));
+
+      await this.writeCache(downloaded);
+    }
+
+    result.points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    console.log(`✅ Date range: ${result.successCount}/${granules.length} granules (${result.cachedFiles} cached), ${result.points.length} points`);
+
+    return result;
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  /**
+   * Download the time span covering the missing granules in one aggregated
+   * request, split into granules
+   *
+   * @returns null if unavailable, failed or empty (caller falls back)
+   */
+  private async fetchAggregated(
+    scheduler: DownloadScheduler,
+    missing: GranuleRequest[],
+    lat: number,
+    lon: number
+  ): Promise<{ mode: 'aggregated'; granules: GranuleCacheInput[] } | null> {
+    // Range builders read UTC days, so granule timestamps can be used as-is
+    const spanStart = missing[0].timestamp;
+    const spanEnd = missing[missing.length - 1].timestamp;
+
+    const aggregatedUrl = buildGLDASTimeRangeUrl(spanStart, spanEnd, lat, lon);
+    if (!aggregatedUrl) return null;
+
+    const [outcome] = await scheduler.run([{
+      source: this.aggregatedSource,
+      url: aggregatedUrl,
+      run: signal => this.fetchFile(aggregatedUrl, lat, lon, signal)
+    }]);
+
+    if (!outcome.ok || outcome.value.length === 0) {
+      console.warn('⚠️ Time-range request returned no data:', outcome.ok ? 'empty response' : outcome.error.message);
+      console.log('🔁 Falling back to per-granule downloads...');
+      return null;
+    }
+
+    const points = this.restoreTimestamps(
+      this.restoreVariableNames(outcome.value),
+      getGLDASTimeIndexRange(spanStart, spanEnd)?.times ?? []
+    );
+
+    // Keep only the missing steps (the span may include cached ones)
+    const byTime = new Map<number, WeatherDataPoint[]>();
+    points.forEach(point => {
+      const time = point.timestamp.getTime();
+      byTime.set(time, [...(byTime.get(time) ?? []), point]);
+    });
+
+    const granules = missing
+      .filter(granule => byTime.has(granule.timestamp.getTime()))
+      .map(granule => ({ key: granule, points: byTime.get(granule.timestamp.getTime())! }));
+
+    return { mode: 'aggregated', granules };
+  }
+
+  /**
+   * Download missing granules one request each; failures are recorded on
+   * the result (file index = position in the full date range)
+   */
+  private async fetchGranules(
+    scheduler: DownloadScheduler,
+    allGranules: GranuleRequest[],
+    missing: GranuleRequest[],
+    lat: number,
+    lon: number,
+    result: DateRangeFetchResult
+  ): Promise<{ mode: 'granules'; granules: GranuleCacheInput[] }> {
+    const outcomes = await scheduler.run(missing.map(granule => ({
+      source: this.granuleSource,
+      url: granule.url,
+      run: (signal: AbortSignal) => this.fetchFile(granule.url, lat, lon, signal)
+    })));
+
+    const granules: GranuleCacheInput[] = [];
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.ok) {
+        granules.push({ key: missing[index], points: outcome.value });
+        return;
+      }
+
+      const fileIndex = allGranules.indexOf(missing[index]);
+      result.failCount++;
+      result.errors[fileIndex] = outcome.error.message;
+      if (outcome.error instanceof DownloadError && outcome.error.status !== undefined) {
+        result.statuses[fileIndex] = outcome.error.status;
+      }
+    });
+
+    return { mode: 'granules', granules };
+  }
+
+  /**
+   * Cached points per granule key; the cache is optional, so errors
+   * (e.g. IndexedDB unavailable) count as misses
+   */
+  private async readCache(granules: GranuleRequest[]): Promise<Map<string, WeatherDataPoint[]>> {
+    try {
+      return await cacheManager.getGranules(granules);
+    } catch (error) {
+      console.warn('⚠️ Granule cache unavailable:', error instanceof Error ? error.message : error);
+      return new Map();
+    }
+  }
+
+  private async writeCache(granules: GranuleCacheInput[]): Promise<void> {
+    try {
+      await cacheManager.cacheGranules(granules);
+    } catch (error) {
+      console.warn('⚠️ Could not cache granules:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Points for one URL, as a scheduler task: a per-file error from the
+   * stream is rethrown as a DownloadError so 504/429 can be retried
+   */
+  private async fetchFile(url: string, lat: number, lon: number, signal: AbortSignal): Promise<WeatherDataPoint[]> {
+    const result = await this.fetchPoints([url], lat, lon, undefined, signal);
+
+    if (result.failCount > 0) {
+      throw new DownloadError(result.errors[0] ?? 'Download failed', result.statuses[0]);
+    }
+
+    return result.points;
+  }
+
+  /**
+   * Replace decoded timestamps with the requested aggregation step times
+   * (the i-th distinct decoded time is the i-th requested step); left
+   * unchanged if the number of steps does not match
+   */
+  private restoreTimestamps(points: WeatherDataPoint[], stepTimes: Date[]): WeatherDataPoint[] {
+    const decoded = Array.from(new Set(points.map(p => p.timestamp.getTime()))).sort((a, b) => a - b);
+
+    if (decoded.length !== stepTimes.length) {
+      console.warn(`⚠️ Expected ${stepTimes.length} time steps, received ${decoded.length}; keeping decoded times`);
+      return points;
+    }
+
+    const byDecoded = new Map(decoded.map((time, i) => [time, stepTimes[i]]));
+    return points.map(point => ({ ...point, timestamp: byDecoded.get(point.timestamp.getTime()) ?? point.timestamp }));
+  }
+
+  /**
+   * Map variable names from the aggregation (which may be lower case)
+   * back to the registry names used by the CSV export
+   */
+  private restoreVariableNames(points: WeatherDataPoint[]): WeatherDataPoint[] {
+    const names = new Map(
+      datasetRegistry.require(GLDAS_NOAH025_3H).variables.map(v => [v.name.toLowerCase(), v.name])
+    );
+
+    return points.map(point => ({
+      ...point,
+      variables: Object.fromEntries(
+        Object.entries(point.variables).map(([name, value]) => [names.get(name.toLowerCase()) ?? name, value])
+      )
+    }));
+  }
+}
+
+// ============================================================================
+// SINGLETON EXPORT
+// ============================================================================
+
+/**
+ * Singleton instance of the GLDAS point service
+ *
+ * @example
+ * import { gldasPointService } from './services/gldasPointService';
+ */
+export const gldasPointService = new GLDASPointService();
@@ -10,12 +10,15 @@
  * DATA SOURCES:
  * - GLDAS (Global Land Data Assimilation System)
  * - NLDAS (North American Land Data Assimilation System)
+ * Products, coverage and unit conversions are defined in datasetRegistry;
+ * each variable is fetched from the first registered dataset covering the
+ * location.
  * 
  * VARIABLES AVAILABLE:
  * - Temperature (Air temperature at 2m height)
  * - Precipitation (Rainfall rate)
- * - Humidity (coming soon)
- * - Wind Speed (coming soon)
+ * - Humidity (Relative humidity, derived from specific humidity + pressure)
+ * - Wind Speed (Near-surface wind speed)
  * 
  * TEMPORAL RESOLUTION: 3-hourly
  * SPATIAL RESOLUTION: 0.25° (~25km)
@@ -24,8 +27,20 @@
  * ============================================================================
  */
 
-import { Coordinates } from '../types/weather';
+import { Coordinates, DateRange, WeatherDataset } from '../types/weather';
 import { nasaAuthService } from './nasaAuth';
+import { cacheManager } from './cacheManager';
+import {
+  datasetRegistry,
+  DatasetDefinition,
+  DatasetVariable,
+  GLDAS_NOAH025_3H,
+  WeatherVariableRole
+} from './datasetRegistry';
+import { timeSeriesToDataset } from '../utils/timeSeriesAdapter';
+import { detectGaps, getStepHours, overallCompleteness, VariableQuality } from '../utils/gapDetection';
+import { calendarDaysBetween, getLocationTimeZone, getZonedDayRange, toCalendarDate } from '../utils/timeZones';
+import { DEFAULT_SEASONAL_WINDOW_DAYS, getSeasonalWindowDays } from '../utils/seasonalWindow';
 
 // ============================================================================
 // INTERFACES AND TYPES
@@ -34,7 +49,7 @@ import { nasaAuthService } from './nasaAuth';
 /**
  * Single data point in time series
  */
-interface TimeSeriesDataPoint {
+export interface TimeSeriesDataPoint {
   date: Date;
   value: number;
 }
@@ -42,11 +57,35 @@ interface TimeSeriesDataPoint {
 /**
  * Complete weather time series data
  */
-interface WeatherTimeSeries {
+export interface WeatherTimeSeries {
   temperature: TimeSeriesDataPoint[];
   precipitation: TimeSeriesDataPoint[];
   humidity: TimeSeriesDataPoint[];
   windSpeed: TimeSeriesDataPoint[];
+  /** Snow depth in cm (GLDAS only; empty where unavailable) */
+  snowDepth: TimeSeriesDataPoint[];
+  /** Dataset each non-empty variable was retrieved from */
+  sources: Partial<Record<TimeSeriesVariable, string>>;
+  /** Fill values dropped while parsing, per variable */
+  fillCounts?: Partial<Record<TimeSeriesVariable, number>>;
+  /** UTC span the request covered (Data Rods returns whole days) */
+  requestedRange?: DateRange;
+}
+
+/**
+ * Variables carried by a WeatherTimeSeries
+ */
+export type TimeSeriesVariable = 'temperature' | 'precipitation' | 'humidity' | 'windSpeed' | 'snowDepth';
+
+/**
+ * Series fetched for one role, with the dataset that supplied it
+ */
+interface SourcedSeries {
+  data: TimeSeriesDataPoint[];
+  /** Dataset id recorded in data quality sources */
+  source: string;
+  /** Fill values dropped while parsing */
+  fillCount: number;
 }
 
 /**
@@ -65,13 +104,43 @@ interface ProxyResponse {
   };
 }
 
+/**
+ * Options for multi-year climatology retrieval
+ */
+export interface ClimatologyOptions {
+  /** First year to fetch (defaults to the start of GLDAS 2.1 coverage) */
+  startYear?: number;
+  /** Days either side of the target day-of-year or range (defaults to 7) */
+  windowDays?: number;
+  /** IANA time zone the target date is in (defaults to the location's) */
+  timeZone?: string;
+  /** Called after each year finishes, successfully or not */
+  onProgress?: (progress: ClimatologyProgress) => void;
+}
+
+/**
+ * Progress report for a climatology fetch
+ */
+export interface ClimatologyProgress {
+  year: number;
+  completedYears: number;
+  totalYears: number;
+  success: boolean;
+}
+
 /**
  * Data quality metrics
  */
-interface DataQualityMetrics {
+export interface DataQualityMetrics {
+  /** Present / expected time steps over all variables, 0-100 */
   completeness: number;
   dataPoints: number;
   dateRange: { start: Date; end: Date };
+  /** Gap analysis per non-empty variable */
+  variables: VariableQuality[];
+  /** Fill values dropped across all variables */
+  fillValues: number;
+  longestGapHours: number;
 }
 
 // ============================================================================
@@ -95,6 +164,31 @@ export class NASADataFetcher {
    */
   private readonly proxyEndpoint = '/api/nasa-proxy';
 
+  /**
+   * Start of GLDAS NOAH 2.1 coverage (3-hourly, 0.25°)
+   */
+  private readonly climatologyStart = datasetRegistry.require(GLDAS_NOAH025_3H).temporalCoverage.start;
+
+  /**
+   * First year covered by GLDAS NOAH 2.1
+   */
+  private readonly climatologyStartYear = this.climatologyStart.getUTCFullYear();
+
+  /**
+   * Default seasonal window (± days) matching WeatherProbabilityCalculator
+   */
+  private readonly defaultWindowDays = DEFAULT_SEASONAL_WINDOW_DAYS;
+
+  /**
+   * Values Data Rods uses for undefined samples (native units)
+   */
+  private readonly dataRodsFillValues = [-9999, -999];
+
+  /**
+   * Label recorded as dataset source for climatology datasets
+   */
+  private readonly climatologySource = 'NASA GLDAS/NLDAS (Data Rods)';
+
   // ========================================================================
   // PUBLIC METHODS
   // ========================================================================
@@ -106,9 +200,9 @@ export class NASADataFetcher {
    * Returns temperature and precipitation time series data.
    * 
    * @param location - Geographic coordinates (latitude, longitude)
-   * @param startDate - Start date for data retrieval
-   * @param endDate - End date for data retrieval
-   * @returns Weather time series data
+   * @param startDate - Start of data retrieval (UTC instant)
+   * @param endDate - End of data retrieval (UTC instant)
+   * @returns Weather time series data (UTC timestamps)
    * 
    * @example
    * const data = await nasaDataFetcher.fetchHistoricalWeatherData(
@@ -135,21 +229,71 @@ export class NASADataFetcher {
     }
 
     try {
-      // Fetch temperature and precipitation data in parallel
-      const [tempData, precipData] = await Promise.all([
+      // Fetch all variables in parallel. Temperature and precipitation are
+      // required; wind, humidity and snow depth degrade to empty series on
+      // failure so a single missing variable doesn't sink the whole analysis.
+      const [temperature, precipitation, wind, humidityInputs, snow] = await Promise.all([
         this.fetchTemperatureData(location, startDate, endDate),
-        this.fetchPrecipitationData(location, startDate, endDate)
+        this.fetchPrecipitationData(location, startDate, endDate),
+        this.fetchWindSpeedData(location, startDate, endDate)
+          .catch(error => this.handleOptionalFetchError('Wind speed', error)),
+        this.fetchHumidityInputs(location, startDate, endDate)
+          .catch(error => this.handleOptionalFetchError('Humidity', error)),
+        this.fetchFromBestSource('snowDepth', location, startDate, endDate)
+          .catch(error => this.handleOptionalFetchError('Snow depth', error))
       ]);
 
+      const tempData = temperature.data;
+      const precipData = precipitation.data;
+      const windData = wind?.data ?? [];
+      const snowData = snow?.data ?? [];
+
+      const humidityData = humidityInputs
+        ? this.calculateRelativeHumidity(
+            humidityInputs.specificHumidity.data,
+            humidityInputs.surfacePressure.data,
+            tempData
+          )
+        : [];
+
       console.log('✅ NASA data fetched successfully');
       console.log('   Temperature points:', tempData.length);
       console.log('   Precipitation points:', precipData.length);
+      console.log('   Wind speed points:', windData.length);
+      console.log('   Humidity points:', humidityData.length);
+      console.log('   Snow depth points:', snowData.length);
+      console.log('   Precipitation source:', precipitation.source);
+
+      const sources: WeatherTimeSeries['sources'] = {
+        temperature: temperature.source,
+        precipitation: precipitation.source
+      };
+      if (wind && windData.length > 0) sources.windSpeed = wind.source;
+      if (snow && snowData.length > 0) sources.snowDepth = snow.source;
+      if (humidityInputs && humidityData.length > 0) {
+        sources.humidity = humidityInputs.specificHumidity.source;
+      }
+
+      // Humidity loses a sample when either input is a fill value
+      const fillCounts: WeatherTimeSeries['fillCounts'] = {
+        temperature: temperature.fillCount,
+        precipitation: precipitation.fillCount,
+        windSpeed: wind?.fillCount ?? 0,
+        snowDepth: snow?.fillCount ?? 0,
+        humidity: humidityInputs
+          ? Math.max(humidityInputs.specificHumidity.fillCount, humidityInputs.surfacePressure.fillCount)
+          : 0
+      };
 
       return {
         temperature: tempData,
         precipitation: precipData,
-        humidity: [], // Can add later with additional API call
-        windSpeed: []  // Can add later with additional API call
+        humidity: humidityData,
+        windSpeed: windData,
+        snowDepth: snowData,
+        sources,
+        fillCounts,
+        requestedRange: this.getRequestedRange(startDate, endDate)
       };
 
     } catch (error) {
@@ -158,11 +302,131 @@ export class NASADataFetcher {
     }
   }
 
+  /**
+   * Fetch a multi-decade climatology around a target date or date range
+   * 
+   * For every year from 2000 (GLDAS 2.1 coverage start) to the present,
+   * fetches the same seasonal window (target day ± windowDays, or first
+   * day - windowDays to last day + windowDays for a range) and converts
+   * each year into its own WeatherDataset. The window's days are local
+   * days in the location's time zone (see utils/timeZones), so the target
+   * date means the same calendar day wherever the browser is. The result can be passed straight
+   * to WeatherProbabilityCalculator.calculateProbabilities, giving it 20+
+   * years of same-season samples instead of a single year.
+   * 
+   * Each window is read through CacheManager.getOrFetchRange, keyed by the
+   * datasets that supply the location and the grid cell of the finest of
+   * them, so repeated or overlapping analyses only download the days not
+   * already cached.
+   * 
+   * Years that fail to download are skipped (and reported via onProgress);
+   * the call only fails if no year could be fetched.
+   * 
+   * @param location - Geographic coordinates (latitude, longitude)
+   * @param target - Calendar date (picker date), or first and last dates
+   *                 of an event, whose months and days define the window
+   * @param options - Year range, window size and progress callback
+   * @returns One WeatherDataset per successfully fetched year
+   * 
+   * @example
+   * const datasets = await nasaDataFetcher.fetchClimatology(
+   *   { lat: 40.7128, lng: -74.0060 },
+   *   new Date('2024-07-04')
+   * );
+   * const results = calculator.calculateProbabilities(datasets, targetDate);
+   */
+  async fetchClimatology(
+    location: Coordinates,
+    target: Date | DateRange,
+    options: ClimatologyOptions = {}
+  ): Promise<WeatherDataset[]> {
+    const startYear = Math.max(options.startYear ?? this.climatologyStartYear, this.climatologyStartYear);
+    const windowDays = options.windowDays ?? this.defaultWindowDays;
+    const timeZone = options.timeZone ?? getLocationTimeZone(location).timeZone;
+    const now = new Date();
+
+    const range = target instanceof Date ? { start: target, end: target } : target;
+
+    const windows = this.getSeasonalWindows(range, startYear, now.getUTCFullYear(), windowDays, timeZone)
+      .filter(window => window.start < now)
+      .map(window => ({
+        ...window,
+        end: window.end > now ? now : window.end
+      }));
+
+    console.log('📚 Fetching climatology...');
+    console.log('   Years:', windows.length > 0 ? `${windows[0].year}-${windows[windows.length - 1].year}` : 'none');
+    console.log('   Seasonal window: ±' + windowDays, 'days');
+    console.log('   Time zone:', timeZone);
+
+    const cacheSource = this.getClimatologyCacheSource(location);
+    const datasets: WeatherDataset[] = [];
+    const failedYears: number[] = [];
+
+    for (let i = 0; i < windows.length; i++) {
+      const { year, start, end } = windows[i];
+      let success = false;
+
+      try {
+        // Reuses cached sub-ranges for this grid cell; only gaps are downloaded
+        const dataset = await cacheManager.getOrFetchRange(
+          location,
+          { start, end },
+          cacheSource,
+          async gap => timeSeriesToDataset(
+            await this.fetchHistoricalWeatherData(location, gap.start, gap.end),
+            location,
+            this.climatologySource
+          )
+        );
+        // Coverage is the requested window, so leading/trailing gaps are detectable
+        datasets.push({
+          ...dataset,
+          metadata: { ...dataset.metadata, temporalCoverage: { start, end } }
+        });
+        success = true;
+      } catch (error) {
+        failedYears.push(year);
+        console.warn(`   ⚠️ Skipping ${year}:`, error instanceof Error ? error.message : error);
+      }
+
+      options.onProgress?.({
+        year,
+        completedYears: i + 1,
+        totalYears: windows.length,
+        success
+      });
+    }
+
+    if (datasets.length === 0) {
+      throw new Error('Climatology fetch failed: no year could be retrieved from NASA');
+    }
+
+    console.log(`✅ Climatology ready: ${datasets.length}/${windows.length} years`);
+    if (failedYears.length > 0) {
+      console.warn('   Failed years:', failedYears.join(', '));
+    }
+
+    return datasets;
+  }
+
   /**
    * Get data quality metrics for a weather time series
    * 
+   * Each non-empty variable is checked against the time steps its source
+   * dataset should provide over the requested range (3-hourly for GLDAS,
+   * hourly for NLDAS), reporting missing intervals, fill values and the
+   * longest gap. Completeness is present / expected steps over all
+   * variables.
+   * 
    * @param timeSeries - Weather time series data
-   * @returns Quality metrics including completeness and data points
+   * @returns Quality metrics including completeness, data points and gaps
+   * 
+   * @example
+   * const quality = nasaDataFetcher.getDataQuality(timeSeries);
+   * quality.variables.forEach(v =>
+   *   console.log(v.variable, `${v.completeness.toFixed(1)}%`, `longest gap ${v.longestGapHours}h`)
+   * );
    */
   getDataQuality(timeSeries: WeatherTimeSeries): DataQualityMetrics {
     const allPoints = [
@@ -174,18 +438,44 @@ export class NASADataFetcher {
       return {
         completeness: 0,
         dataPoints: 0,
-        dateRange: { start: new Date(), end: new Date() }
+        dateRange: { start: new Date(), end: new Date() },
+        variables: [],
+        fillValues: 0,
+        longestGapHours: 0
       };
     }
 
-    const dates = allPoints.map(p => p.date.getTime());
-    const minDate = new Date(Math.min(...dates));
-    const maxDate = new Date(Math.max(...dates));
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    allPoints.forEach(point => {
+      minTime = Math.min(minTime, point.date.getTime());
+      maxTime = Math.max(maxTime, point.date.getTime());
+    });
+    const minDate = new Date(minTime);
+    const maxDate = new Date(maxTime);
+
+    const range = timeSeries.requestedRange ?? { start: minDate, end: maxDate };
+    const keys: TimeSeriesVariable[] = ['temperature', 'precipitation', 'humidity', 'windSpeed', 'snowDepth'];
+
+    const variables: VariableQuality[] = keys
+      .filter(key => timeSeries[key].length > 0)
+      .map(key => {
+        const source = timeSeries.sources[key];
+        return {
+          variable: key,
+          source,
+          fillCount: timeSeries.fillCounts?.[key] ?? 0,
+          ...detectGaps(timeSeries[key].map(point => point.date), range, getStepHours(source))
+        };
+      });
 
     return {
-      completeness: 100, // Can improve with gap detection
+      completeness: overallCompleteness(variables),
       dataPoints: allPoints.length,
-      dateRange: { start: minDate, end: maxDate }
+      dateRange: { start: minDate, end: maxDate },
+      variables,
+      fillValues: variables.reduce((sum, v) => sum + v.fillCount, 0),
+      longestGapHours: variables.reduce((max, v) => Math.max(max, v.longestGapHours), 0)
     };
   }
 
@@ -194,158 +484,345 @@ export class NASADataFetcher {
   // ========================================================================
 
   /**
-   * Fetch temperature data from NASA GLDAS via Data Rods (through proxy)
+   * Fetch air temperature via Data Rods (through proxy)
    * 
-   * Variable: Tair_f_inst (Air Temperature at 2m height)
-   * Units: Kelvin (converted to Celsius)
-   * Resolution: 3-hourly
-   * 
-   * FIXED: Changed to use proper Data Rods API parameters
+   * Source: first registered dataset covering the location
+   * (GLDAS Tair_f_inst, Kelvin converted to Celsius)
    */
   private async fetchTemperatureData(
     location: Coordinates,
     startDate: Date,
     endDate: Date
-  ): Promise<TimeSeriesDataPoint[]> {
-    console.log('   📊 Fetching temperature data from NASA GLDAS via proxy...');
-
-    const url = this.buildDataRodsUrl({
-      FILENAME: '/data/GLDAS/GLDAS_NOAH025_3H.2.1',
-      SERVICE: 'SUBSET_GLDAS',
-      VERSION: '1.02',
-      DATASET: 'GLDAS_NOAH025_3H_2.1',
-      VARIABLES: 'Tair_f_inst',
-      WEST: location.lng.toString(),
-      EAST: location.lng.toString(),
-      SOUTH: location.lat.toString(),
-      NORTH: location.lat.toString(),
-      STARTDATE: this.formatDateForAPI(startDate),
-      ENDDATE: this.formatDateForAPI(endDate),
-      FORMAT: 'bmM0Lw'
-    });
+  ): Promise<SourcedSeries> {
+    return this.fetchFromBestSource('temperature', location, startDate, endDate);
+  }
 
-    try {
-      const credentials = nasaAuthService.getCredentials();
-      
-      console.log('   🔄 Sending request to proxy...');
-      
-      const response = await fetch(this.proxyEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          url: url,
-          username: credentials.username,
-          password: credentials.password
-        })
-      });
+  /**
+   * Fetch precipitation via Data Rods (through proxy), choosing the
+   * best source that covers the location
+   * 
+   * Sources come from the dataset registry in order of preference:
+   * 1. NLDAS APCPsfc - hourly, North America only (25-53°N, 125-67°W)
+   * 2. GLDAS Rainf_f_tavg - 3-hourly, global land
+   * 
+   * Units: mm/hour (NLDAS hourly totals in kg/m² as-is, GLDAS rates in
+   * kg/m²/s × 3600)
+   */
+  private async fetchPrecipitationData(
+    location: Coordinates,
+    startDate: Date,
+    endDate: Date
+  ): Promise<SourcedSeries> {
+    return this.fetchFromBestSource('precipitation', location, startDate, endDate);
+  }
 
-      const result: ProxyResponse = await response.json();
+  /**
+   * Fetch near-surface wind speed via Data Rods (through proxy)
+   * 
+   * Source: GLDAS Wind_f_inst (m/s)
+   */
+  private async fetchWindSpeedData(
+    location: Coordinates,
+    startDate: Date,
+    endDate: Date
+  ): Promise<SourcedSeries> {
+    return this.fetchFromBestSource('windSpeed', location, startDate, endDate);
+  }
 
-      if (!result.success || result.status !== 200) {
-        throw new Error(
-          `NASA API returned ${result.status}: ${result.error || result.message || 'Unknown error'}`
-        );
-      }
+  /**
+   * Fetch the inputs needed to derive relative humidity
+   * 
+   * Variables: specific humidity (GLDAS Qair_f_inst, kg/kg)
+   *            surface pressure (GLDAS Psurf_f_inst, Pa)
+   * 
+   * Both are kept in native units, since GLDAS has no relative humidity
+   * variable and it is computed from these together with air temperature
+   * (see calculateRelativeHumidity).
+   */
+  private async fetchHumidityInputs(
+    location: Coordinates,
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ specificHumidity: SourcedSeries; surfacePressure: SourcedSeries }> {
+    const [specificHumidity, surfacePressure] = await Promise.all([
+      this.fetchFromBestSource('specificHumidity', location, startDate, endDate, false),
+      this.fetchFromBestSource('surfacePressure', location, startDate, endDate, false)
+    ]);
 
-      if (!result.data) {
-        throw new Error('No data received from NASA API');
-      }
+    return { specificHumidity, surfacePressure };
+  }
 
-      console.log('   ✅ Temperature data received:', result.data.length, 'bytes');
-      
-      if (result.metadata) {
-        console.log('   ⏱️  NASA response time:', result.metadata.responseTime, 'ms');
-      }
-      
-      return this.parseDataRodsASCII(result.data, 'temperature');
+  /**
+   * Cache source for a location's climatology: the ids of the datasets
+   * fetchHistoricalWeatherData reads there, joined with '+' (e.g. GLDAS
+   * plus NLDAS precipitation in North America)
+   */
+  private getClimatologyCacheSource(location: Coordinates): string {
+    const roles: WeatherVariableRole[] = [
+      'temperature',
+      'precipitation',
+      'windSpeed',
+      'snowDepth',
+      'specificHumidity',
+      'surfacePressure'
+    ];
+    const ids = roles
+      .map(role => datasetRegistry.findSources(role, location)[0]?.id)
+      .filter((id): id is string => id !== undefined);
 
-    } catch (error) {
-      console.error('   ❌ Temperature fetch failed:', error);
-      throw error;
-    }
+    return Array.from(new Set(ids)).sort().join('+');
   }
 
   /**
-   * Fetch precipitation data from NASA NLDAS via Data Rods (through proxy)
+   * Fetch one role from the first registered dataset that covers the
+   * location and returns data
    * 
-   * Variable: APCPsfc (Surface Precipitation Rate)
-   * Units: kg/m²/s (converted to mm/hour)
-   * Resolution: Hourly
-   * Coverage: North America only (25-53°N, 125-67°W)
+   * A dataset is skipped when the location falls outside its coverage,
+   * and the next one is tried if a covering dataset fails or returns
+   * nothing.
    * 
-   * FIXED: Changed to use proper Data Rods API parameters
+   * @param role - Quantity to fetch
+   * @param location - Point to extract
+   * @param startDate - Start of the time series
+   * @param endDate - End of the time series
+   * @param convertUnits - Apply the registry unit conversion (default true)
+   * @returns Parsed series and the dataset it came from
    */
-  private async fetchPrecipitationData(
+  private async fetchFromBestSource(
+    role: WeatherVariableRole,
     location: Coordinates,
     startDate: Date,
-    endDate: Date
-  ): Promise<TimeSeriesDataPoint[]> {
-    console.log('   📊 Fetching precipitation data from NASA NLDAS via proxy...');
-
-    const url = this.buildDataRodsUrl({
-      FILENAME: '/data/NLDAS/NLDAS_NOAH0125_H.002',
-      SERVICE: 'SUBSET_NLDAS',
-      VERSION: '1.02',
-      DATASET: 'NLDAS_NOAH0125_H.002',
-      VARIABLES: 'APCPsfc',
-      WEST: location.lng.toString(),
-      EAST: location.lng.toString(),
-      SOUTH: location.lat.toString(),
-      NORTH: location.lat.toString(),
-      STARTDATE: this.formatDateForAPI(startDate),
-      ENDDATE: this.formatDateForAPI(endDate),
-      FORMAT: 'bmM0Lw'
-    });
+    endDate: Date,
+    convertUnits = true
+  ): Promise<SourcedSeries> {
+    const candidates = datasetRegistry.findSources(role, location);
 
-    try {
-      const credentials = nasaAuthService.getCredentials();
-      
-      console.log('   🔄 Sending request to proxy...');
-      
-      const response = await fetch(this.proxyEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          url: url,
-          username: credentials.username,
-          password: credentials.password
-        })
-      });
+    if (candidates.length === 0) {
+      throw new Error(
+        `No ${role} source covers ${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`
+      );
+    }
 
-      const result: ProxyResponse = await response.json();
+    let lastError: unknown;
 
-      if (!result.success || result.status !== 200) {
-        throw new Error(
-          `NASA API returned ${result.status}: ${result.error || result.message || 'Unknown error'}`
+    for (const dataset of candidates) {
+      const variable = datasetRegistry.getVariableForRole(dataset, role)!;
+      console.log(`   📊 Fetching ${role} (${variable.name}) from ${dataset.id} via proxy...`);
+
+      const url = this.buildDataRodsUrlFor(dataset, variable, location, startDate, endDate);
+
+      try {
+        const data = await this.requestDataRods(url, variable.longName);
+        const { points, fillCount } = this.parseDataRodsASCII(
+          data,
+          variable.name,
+          convertUnits ? variable.convert : undefined
         );
-      }
 
-      if (!result.data) {
-        throw new Error('No data received from NASA API');
-      }
+        if (points.length === 0) {
+          throw new Error(`${dataset.id} returned no ${variable.name} values`);
+        }
 
-      console.log('   ✅ Precipitation data received:', result.data.length, 'bytes');
-      
-      if (result.metadata) {
-        console.log('   ⏱️  NASA response time:', result.metadata.responseTime, 'ms');
+        return { data: points, source: dataset.id, fillCount };
+
+      } catch (error) {
+        lastError = error;
+        console.warn(
+          `   ⚠️ ${role} from ${dataset.id} failed:`,
+          error instanceof Error ? error.message : error
+        );
       }
-      
-      return this.parseDataRodsASCII(result.data, 'precipitation');
+    }
 
-    } catch (error) {
-      console.error('   ❌ Precipitation fetch failed:', error);
-      throw error;
+    console.error(`   ❌ ${role} fetch failed for all sources`);
+    throw lastError;
+  }
+
+  /**
+   * Send a Data Rods request through the proxy and return the raw response
+   * 
+   * @param url - Complete Data Rods URL
+   * @param label - Variable label for logging
+   * @returns Raw ASCII response body
+   */
+  private async requestDataRods(url: string, label: string): Promise<string> {
+    const credentials = nasaAuthService.getCredentials();
+    
+    console.log(`   🔄 Sending ${label.toLowerCase()} request to proxy...`);
+    
+    const response = await fetch(this.proxyEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        url: url,
+        username: credentials.username,
+        password: credentials.password
+      })
+    });
+
+    const result: ProxyResponse = await response.json();
+
+    if (!result.success || result.status !== 200) {
+      throw new Error(
+        `NASA API returned ${result.status}: ${result.error || result.message || 'Unknown error'}`
+      );
+    }
+
+    if (!result.data) {
+      throw new Error('No data received from NASA API');
+    }
+
+    console.log(`   ✅ ${label} data received:`, result.data.length, 'bytes');
+    
+    if (result.metadata) {
+      console.log('   ⏱️  NASA response time:', result.metadata.responseTime, 'ms');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Log a failed optional variable fetch and fall back to an empty series
+   */
+  private handleOptionalFetchError(label: string, error: unknown): null {
+    console.warn(
+      `   ⚠️ ${label} unavailable, continuing without it:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+
+  // ========================================================================
+  // PRIVATE METHODS - DERIVED VARIABLES
+  // ========================================================================
+
+  /**
+   * Derive relative humidity (%) from specific humidity, pressure and temperature
+   * 
+   * Vapour pressure:            e  = q·p / (0.622 + 0.378·q)
+   * Saturation (Magnus, Bolton): es = 611.2 · exp(17.67·T / (T + 243.5))
+   * Relative humidity:          RH = 100 · e / es   (clamped to 0-100)
+   * 
+   * Samples are joined on timestamp; times missing any input are dropped.
+   * 
+   * @param specificHumidity - Qair_f_inst series (kg/kg)
+   * @param surfacePressure - Psurf_f_inst series (Pa)
+   * @param temperature - Air temperature series (°C)
+   * @returns Relative humidity series (%)
+   */
+  private calculateRelativeHumidity(
+    specificHumidity: TimeSeriesDataPoint[],
+    surfacePressure: TimeSeriesDataPoint[],
+    temperature: TimeSeriesDataPoint[]
+  ): TimeSeriesDataPoint[] {
+    const pressureByTime = new Map(surfacePressure.map(p => [p.date.getTime(), p.value]));
+    const temperatureByTime = new Map(temperature.map(p => [p.date.getTime(), p.value]));
+
+    const humidity: TimeSeriesDataPoint[] = [];
+
+    for (const point of specificHumidity) {
+      const time = point.date.getTime();
+      const pressure = pressureByTime.get(time);
+      const temp = temperatureByTime.get(time);
+
+      if (pressure === undefined || temp === undefined) continue;
+
+      const q = point.value;
+      const vapourPressure = (q * pressure) / (0.622 + 0.378 * q);
+      const saturationPressure = 611.2 * Math.exp((17.67 * temp) / (temp + 243.5));
+      const relativeHumidity = (100 * vapourPressure) / saturationPressure;
+
+      if (!isFinite(relativeHumidity)) continue;
+
+      humidity.push({
+        date: point.date,
+        value: Math.max(0, Math.min(100, relativeHumidity))
+      });
+    }
+
+    return humidity;
+  }
+
+  // ========================================================================
+  // PRIVATE METHODS - CLIMATOLOGY
+  // ========================================================================
+
+  /**
+   * Build the same seasonal window for every year in a range
+   * 
+   * @param range - Dates whose calendar month/day are the window's core
+   *                (start = end for a single date)
+   * @param startYear - First year (inclusive)
+   * @param endYear - Last year (inclusive)
+   * @param windowDays - Days either side of the core
+   * @param timeZone - Zone the window's days are in
+   * @returns Window bounds per year (UTC instants)
+   */
+  private getSeasonalWindows(
+    range: DateRange,
+    startYear: number,
+    endYear: number,
+    windowDays: number,
+    timeZone: string
+  ): Array<{ year: number; start: Date; end: Date }> {
+    const windows: Array<{ year: number; start: Date; end: Date }> = [];
+    const first = toCalendarDate(range.start);
+    const rangeDays = Math.max(1, calendarDaysBetween(first, toCalendarDate(range.end)) + 1);
+
+    for (let year = startYear; year <= endYear; year++) {
+      // Feb 29 targets fall on Feb 28 in common years (see utils/seasonalWindow)
+      const days = getSeasonalWindowDays(first, year, rangeDays, windowDays);
+      const { start, end } = getZonedDayRange(days.first, days.last, timeZone);
+
+      // GLDAS coverage begins 2000-01-01
+      if (end < this.climatologyStart) continue;
+
+      windows.push({ year, start: start < this.climatologyStart ? this.climatologyStart : start, end });
     }
+
+    return windows;
   }
 
   // ========================================================================
   // PRIVATE METHODS - URL BUILDING
   // ========================================================================
 
+  /**
+   * Build a Data Rods URL for a single variable of a registered dataset
+   * 
+   * @param dataset - Registry dataset (must have Data Rods access)
+   * @param variable - Variable to extract (e.g. Tair_f_inst)
+   * @param location - Point to extract
+   * @param startDate - Start of the time series
+   * @param endDate - End of the time series
+   * @returns Complete URL with encoded parameters
+   */
+  private buildDataRodsUrlFor(
+    dataset: DatasetDefinition,
+    variable: DatasetVariable,
+    location: Coordinates,
+    startDate: Date,
+    endDate: Date
+  ): string {
+    if (!dataset.dataRods) {
+      throw new Error(`${dataset.id} is not available through Data Rods`);
+    }
+
+    return this.buildDataRodsUrl({
+      ...dataset.dataRods,
+      VARIABLES: variable.name,
+      WEST: location.lng.toString(),
+      EAST: location.lng.toString(),
+      SOUTH: location.lat.toString(),
+      NORTH: location.lat.toString(),
+      STARTDATE: this.formatDateForAPI(startDate),
+      ENDDATE: this.formatDateForAPI(endDate),
+      FORMAT: 'bmM0Lw'
+    });
+  }
+
   /**
    * Build Data Rods API URL with parameters
    * 
@@ -367,14 +844,31 @@ export class NASADataFetcher {
    * Format date for NASA API (YYYY-MM-DDTHH:MM)
    * FIXED: Added proper time format for Data Rods API
    * 
+   * Data Rods reads the time as UTC, so the UTC getters are used and the
+   * same instant is requested whatever the browser's time zone.
+   * 
    * @param date - JavaScript Date object
-   * @returns Date string in YYYY-MM-DDTHH:MM format
+   * @returns Date string in YYYY-MM-DDTHH:MM format (UTC)
    */
   private formatDateForAPI(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}T00:00`;
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    const hours = String(date.getUTCHours()).padStart(2, '0');
+    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+    return `${year}-${month}-${day}T${hours}:${minutes}`;
+  }
+
+  /**
+   * UTC span a Data Rods request covers (the API works to the minute)
+   * 
+   * @param startDate - Start date passed to the request
+   * @param endDate - End date passed to the request
+   * @returns Requested range in UTC
+   */
+  private getRequestedRange(startDate: Date, endDate: Date): DateRange {
+    const toMinute = (date: Date) => new Date(Math.floor(date.getTime() / 60000) * 60000);
+    return { start: toMinute(startDate), end: toMinute(endDate) };
   }
 
   /**
@@ -401,18 +895,26 @@ export class NASADataFetcher {
    * This method:
    * 1. Identifies data lines (skips headers)
    * 2. Parses timestamp and value
-   * 3. Converts units (Kelvin to Celsius, kg/m²/s to mm/hour)
-   * 4. Returns array of data points
+   * 3. Drops and counts fill values (-9999 = undefined in GLDAS/NLDAS)
+   * 4. Converts units with the registry converter, if one is given
+   *    (e.g. Kelvin to Celsius, kg/m²/s to mm/hour)
+   * 5. Returns array of data points
    * 
    * @param data - Raw ASCII data from NASA API
-   * @param variableType - Type of variable (temperature or precipitation)
-   * @returns Array of parsed data points
+   * @param variableName - Variable name for logging
+   * @param convert - Unit conversion; omit to keep native units
+   * @returns Parsed data points and the number of fill values dropped
    */
-  private parseDataRodsASCII(data: string, variableType: string): TimeSeriesDataPoint[] {
-    console.log(`   🔍 Parsing ${variableType} data...`);
+  private parseDataRodsASCII(
+    data: string,
+    variableName: string,
+    convert?: (value: number) => number
+  ): { points: TimeSeriesDataPoint[]; fillCount: number } {
+    console.log(`   🔍 Parsing ${variableName} data...`);
 
     const lines = data.trim().split('\n');
     const dataPoints: TimeSeriesDataPoint[] = [];
+    let fillCount = 0;
     
     // Skip header lines - look for lines starting with date pattern (YYYY-MM-DD)
     let dataStartIndex = 0;
@@ -454,13 +956,15 @@ export class NASADataFetcher {
             continue;
           }
 
-          // Convert units based on variable type
-          if (variableType === 'temperature') {
-            // Convert Kelvin to Celsius
-            value = value - 273.15;
-          } else if (variableType === 'precipitation') {
-            // Convert kg/m²/s to mm/hour
-            value = value * 3600;
+          // Skip fill values (counted for data quality)
+          if (this.dataRodsFillValues.includes(value)) {
+            fillCount++;
+            continue;
+          }
+
+          // Convert units
+          if (convert) {
+            value = convert(value);
           }
 
           dataPoints.push({ date, value });
@@ -473,6 +977,9 @@ export class NASADataFetcher {
     }
 
     console.log(`   ✅ Parsed ${dataPoints.length} data points`);
+    if (fillCount > 0) {
+      console.warn(`   ⚠️  Skipped ${fillCount} fill values`);
+    }
     
     if (dataPoints.length === 0) {
       console.warn('   ⚠️  Warning: No data points parsed from response');
@@ -486,7 +993,7 @@ export class NASADataFetcher {
       }
     }
 
-    return dataPoints;
+    return { points: dataPoints, fillCount };
   }
 }
 
@@ -1,4 +1,25 @@
-import { WeatherDataset } from '../types/weather';
+import { ConditionThreshold, CustomCondition, DateRange, SpellDefinition, ThresholdConfig, WeatherDataset } from '../types/weather';
+import { CONDITION_ABOVE, DEFAULT_THRESHOLDS, toDataUnits } from '../utils/thresholds';
+import { ConditionVariable, evaluateCondition, parseCondition } from '../utils/conditionExpression';
+import { aggregateDaily, DailyStatistics } from '../utils/dailyAggregation';
+import { addCalendarDays, calendarDaysBetween, getDefaultTimeZone, toCalendarDate } from '../utils/timeZones';
+import {
+  DEFAULT_SEASONAL_WINDOW_DAYS,
+  distanceFromRange,
+  getSeasonalPosition,
+  SeasonalWeighting,
+  seasonalWeight
+} from '../utils/seasonalWindow';
+import { analyzeTrend, TrendResult } from '../utils/trendAnalysis';
+import { analyzeExtremes, ExtremeValueAnalysis, gevReturnPeriod } from '../utils/extremeValue';
+import {
+  DEFAULT_EVENT_WINDOW_DAYS,
+  DEFAULT_SPELLS,
+  hasSpell,
+  MAX_EVENT_WINDOW_DAYS,
+  slidingWindows,
+  splitConsecutiveDays
+} from '../utils/spellAnalysis';
 
 interface ProbabilityThresholds {
   veryHot: number;
@@ -8,13 +29,133 @@ interface ProbabilityThresholds {
   veryUncomfortable: number;
 }
 
+// Local calendar days within the seasonal window. offset: days from the
+// target (first) date in the nearest year; season: that year, which
+// groups days by year across New Year; weight: from the seasonal weighting
+interface SeasonalData {
+  days: Array<DailyStatistics & { localDate: Date; offset: number; season: number; weight: number }>;
+}
+
+// Yes/no outcome of a day or window, weighted by distance from the target
+interface Outcome {
+  year: number;
+  met: boolean;
+  weight: number;
+}
+
+// Weighted per-year counts of outcomes
+interface YearCounts {
+  occurrences: number;
+  total: number;
+  squaredWeights: number;
+}
+
+type DailyStatistic = Exclude<keyof DailyStatistics, 'date' | 'year' | 'month' | 'day'>;
+
+// Daily statistic each condition is tested against: a day is "very hot"
+// if its maximum reaches the threshold, "very wet" if its total does
+const CONDITION_STATISTICS: Record<keyof ProbabilityThresholds, DailyStatistic> = {
+  veryHot: 'temperatureMax',
+  veryCold: 'temperatureMin',
+  veryWet: 'precipitationTotal',
+  veryWindy: 'windSpeedMax',
+  veryUncomfortable: 'heatIndexMax'
+};
+
+export type IntervalMethod = 'bootstrap' | 'wilson';
+
+export interface ConfidenceInterval {
+  lower: number; // Percent
+  upper: number; // Percent
+  method: IntervalMethod;
+}
+
 interface ProbabilityResult {
   probability: number;
-  threshold: number;
+  threshold: number; // Resolved threshold in data units (°C, mm/day, m/s)
+  thresholdDefinition: ConditionThreshold;
+  confidence: number; // Confidence level of confidenceInterval, percent
+  confidenceInterval: ConfidenceInterval;
+  historicalOccurrences: number;
+  // Share of each year's seasonal days meeting the condition, percent
+  yearly: {
+    years: number[];
+    values: number[];
+  };
+  // Mann-Kendall / Sen's slope trend of yearly (percentage points per year)
+  trend: TrendResult;
+}
+
+// Outcome of a user-defined condition (see utils/conditionExpression)
+export interface CustomProbabilityResult {
+  id: string;
+  name: string;
+  expression: string;
+  probability: number;
   confidence: number;
+  confidenceInterval: ConfidenceInterval;
   historicalOccurrences: number;
+  samples: number; // Days where every referenced variable had data
+  yearly: {
+    years: number[];
+    values: number[];
+  };
+  trend: TrendResult;
+  error?: string; // Set when the expression could not be parsed
 }
 
+// Chance that an event window contains a spell (see utils/spellAnalysis);
+// also used for "at least once in the date range"
+export interface SpellProbabilityResult {
+  id: string;
+  name: string;
+  condition: string;
+  minDays: number;
+  windowDays: number;
+  probability: number; // Percent of windows containing the spell
+  confidence: number;
+  confidenceInterval: ConfidenceInterval;
+  historicalOccurrences: number; // Windows containing the spell
+  samples: number; // Windows evaluated
+  yearly: {
+    years: number[];
+    values: number[];
+  };
+  trend: TrendResult;
+  error?: string; // Set for an unparseable condition or too short a window
+}
+
+// Event window for multi-day spells, independent of the target range
+export interface EventWindowOptions {
+  days?: number; // Window length, 1-15 (default 5)
+  spells?: SpellDefinition[]; // Default: DEFAULT_SPELLS
+}
+
+// Single-day probabilities for one day of the target range, percent
+export interface DailyProbability {
+  date: Date;
+  probabilities: Record<keyof ProbabilityThresholds, number>;
+  samples: number; // Seasonal-window days around this date
+}
+
+export interface ProbabilityCalculatorOptions {
+  // 'bootstrap' resamples whole years; falls back to Wilson with too few years
+  intervalMethod?: IntervalMethod;
+  bootstrapResamples?: number;
+  minBootstrapYears?: number;
+  // IANA time zone for daily boundaries (default: the browser's)
+  timeZone?: string;
+  // Days either side of the target date / range (default 7); fetch the
+  // climatology with the same windowDays
+  seasonalWindowDays?: number;
+  // How days count by distance from the target (default 'uniform')
+  seasonalWeighting?: SeasonalWeighting;
+}
+
+// 95% intervals: two-sided z and percentile bounds
+const CONFIDENCE_LEVEL = 95;
+const Z_95 = 1.959964;
+
 export interface ProbabilityResults {
   probabilities: {
     veryHot: ProbabilityResult;
@@ -23,6 +164,14 @@ export interface ProbabilityResults {
     veryWindy: ProbabilityResult;
     veryUncomfortable: ProbabilityResult;
   };
+  customConditions: CustomProbabilityResult[];
+  spells: SpellProbabilityResult[];
+  // Target dates (start = end for a single date)
+  range: DateRange & { days: number };
+  // Chance of each condition on at least one day of the range: the five
+  // built-in conditions (id = condition key), then custom conditions
+  atLeastOnce: SpellProbabilityResult[];
+  daily: DailyProbability[];
   historicalContext: {
     dataYears: number;
     totalDataPoints: number;
@@ -36,7 +185,20 @@ export interface ProbabilityResults {
       date: Date;
       type: string;
       value: number;
+      // Estimated from the GEV fit of annual maxima (maxima only)
+      returnPeriod?: number;
     }>;
+    yearlyTemperature: {
+      years: number[];
+      values: number[];
+    };
+    // GEV/GPD return levels of daily maximum temperature (°C), daily
+    // precipitation total (mm) and daily maximum wind speed (m/s)
+    extremes: {
+      temperature: ExtremeValueAnalysis;
+      precipitation: ExtremeValueAnalysis;
+      windSpeed: ExtremeValueAnalysis;
+    };
   };
   dataQuality: {
     completeness: number;
@@ -46,105 +208,156 @@ export interface ProbabilityResults {
 }
 
 export class WeatherProbabilityCalculator {
+  private readonly intervalMethod: IntervalMethod;
+  private readonly bootstrapResamples: number;
+  private readonly minBootstrapYears: number;
+  private readonly timeZone: string;
+  private readonly seasonalWindowDays: number;
+  private readonly seasonalWeighting: SeasonalWeighting;
+
+  constructor(options: ProbabilityCalculatorOptions = {}) {
+    this.intervalMethod = options.intervalMethod ?? 'bootstrap';
+    this.bootstrapResamples = options.bootstrapResamples ?? 1000;
+    this.minBootstrapYears = options.minBootstrapYears ?? 5;
+    this.timeZone = options.timeZone ?? getDefaultTimeZone();
+    this.seasonalWindowDays = options.seasonalWindowDays ?? DEFAULT_SEASONAL_WINDOW_DAYS;
+    this.seasonalWeighting = options.seasonalWeighting ?? 'uniform';
+  }
+
+  // A date range (e.g. a trip): headline probabilities describe any day in
+  // it, atLeastOnce the whole range and daily each of its days. Spells use
+  // their own event window length.
   calculateProbabilities(
     datasets: WeatherDataset[],
-    targetDate: Date
+    target: Date | DateRange,
+    thresholdConfig: ThresholdConfig = DEFAULT_THRESHOLDS,
+    customConditions: CustomCondition[] = [],
+    eventWindow: EventWindowOptions = {}
   ): ProbabilityResults {
     if (datasets.length === 0) {
       throw new Error('No datasets provided for analysis');
     }
 
-    // Extract same-date historical data (±7 days seasonal window)
-    const sameDateData = this.extractSeasonalData(datasets, targetDate);
+    const range = target instanceof Date ? { start: target, end: target } : target;
+    const rangeDays = calendarDaysBetween(toCalendarDate(range.start), toCalendarDate(range.end)) + 1;
+    if (rangeDays < 1 || rangeDays > MAX_EVENT_WINDOW_DAYS) {
+      throw new Error(`Date range must be 1-${MAX_EVENT_WINDOW_DAYS} days (got ${rangeDays})`);
+    }
+
+    // Extract same-date historical days (seasonal window around the range)
+    const sameDateData = this.extractSeasonalData(datasets, range.start, rangeDays);
 
-    // Calculate dynamic thresholds using NASA-standard percentiles
-    const thresholds = this.calculateThresholds(sameDateData);
+    // Resolve thresholds: percentiles of the seasonal data or absolute values
+    const thresholds = this.calculateThresholds(sameDateData, thresholdConfig);
 
     // Calculate probabilities based on historical occurrences
-    const probabilities = this.calculateHistoricalProbabilities(sameDateData, thresholds);
+    const probabilities = this.calculateHistoricalProbabilities(sameDateData, thresholds, thresholdConfig);
+
+    // Evaluate user-defined conditions on each day
+    const custom = customConditions.map(condition => this.calculateCustomProbability(sameDateData, condition));
+
+    // Chance of each multi-day spell within an event window
+    const windowDays = eventWindow.days ?? DEFAULT_EVENT_WINDOW_DAYS;
+    const spells = (eventWindow.spells ?? DEFAULT_SPELLS).map(spell =>
+      this.calculateSpellProbability(sameDateData, thresholds, spell, windowDays)
+    );
+
+    // "At least once" is a one-day spell over the whole range
+    const atLeastOnce = [
+      ...(Object.keys(CONDITION_STATISTICS) as Array<keyof ProbabilityThresholds>).map(condition => ({
+        id: condition, name: condition, condition, minDays: 1
+      })),
+      ...customConditions.map(condition => ({
+        id: condition.id, name: condition.name, condition: condition.expression, minDays: 1
+      }))
+    ].map(spell => this.calculateSpellProbability(sameDateData, thresholds, spell, rangeDays));
+
+    // Day-by-day probabilities with the same thresholds
+    const daily = this.calculateDailyProbabilities(sameDateData, thresholds, range.start, rangeDays);
 
     // Generate historical context
-    const historicalContext = this.generateHistoricalContext(sameDateData, datasets);
+    const historicalContext = this.generateHistoricalContext(sameDateData);
 
     // Assess data quality
     const dataQuality = this.assessDataQuality(sameDateData, datasets);
 
     return {
       probabilities,
+      customConditions: custom,
+      spells,
+      range: { ...range, days: rangeDays },
+      atLeastOnce,
+      daily,
       historicalContext,
       dataQuality
     };
   }
 
+  // Samples are reduced to local calendar days first, so probabilities
+  // describe days rather than individual 3-hourly / hourly time steps
   private extractSeasonalData(
     datasets: WeatherDataset[],
-    targetDate: Date
-  ): { 
-    temperature: number[];
-    precipitation: number[];
-    windSpeed: number[];
-    humidity: number[];
-    dates: Date[];
-  } {
-    const targetDayOfYear = this.getDayOfYear(targetDate);
-    const seasonalWindow = 7; // ±7 days for seasonal analysis
-
-    const temperature: number[] = [];
-    const precipitation: number[] = [];
-    const windSpeed: number[] = [];
-    const humidity: number[] = [];
-    const dates: Date[] = [];
+    targetDate: Date,
+    rangeDays = 1
+  ): SeasonalData {
+    const target = toCalendarDate(targetDate);
+
+    const days: SeasonalData['days'] = [];
+    const seen = new Set<string>();
 
     datasets.forEach(dataset => {
-      const times = dataset.data.coordinates.time;
-      const temps = dataset.data.variables.temperature[0] || [];
-      const precips = dataset.data.variables.precipitation[0] || [];
-      const winds = dataset.data.variables.windSpeed[0] || [];
-      const humids = dataset.data.variables.humidity[0] || [];
-
-      times.forEach((time, i) => {
-        const dayOfYear = this.getDayOfYear(time);
-        
-        // Include data within seasonal window
-        if (Math.abs(dayOfYear - targetDayOfYear) <= seasonalWindow) {
-          if (temps[i] !== undefined && !isNaN(temps[i])) {
-            temperature.push(temps[i]);
-            dates.push(new Date(time));
-          }
-          if (precips[i] !== undefined && !isNaN(precips[i])) {
-            precipitation.push(precips[i]);
-          }
-          if (winds[i] !== undefined && !isNaN(winds[i])) {
-            windSpeed.push(winds[i]);
-          }
-          if (humids[i] !== undefined && !isNaN(humids[i])) {
-            humidity.push(humids[i]);
-          }
+      const daily = aggregateDaily(dataset, {
+        timeZone: this.timeZone,
+        heatIndex: (temperature, humidity) => this.calculateHeatIndex(temperature, humidity)
+      });
+
+      daily.forEach(day => {
+        const localDate = new Date(day.year, day.month - 1, day.day);
+        const { offset, season } = getSeasonalPosition(day, target, rangeDays);
+        const distance = distanceFromRange(offset, rangeDays);
+
+        // Include days within seasonal window (once, if datasets overlap)
+        if (distance <= this.seasonalWindowDays && !seen.has(day.date)) {
+          seen.add(day.date);
+          days.push({ ...day, localDate, offset, season, weight: this.weightAt(distance) });
         }
       });
     });
 
-    return { temperature, precipitation, windSpeed, humidity, dates };
+    return { days };
+  }
+
+  // Days with a value for a statistic, with each value's season (year),
+  // date and weight
+  private getSeries(data: SeasonalData, statistic: DailyStatistic) {
+    const days = data.days.filter(day => !isNaN(day[statistic]));
+    return {
+      values: days.map(day => day[statistic]),
+      years: days.map(day => day.season),
+      dates: days.map(day => day.localDate),
+      weights: days.map(day => day.weight)
+    };
   }
 
-  private getDayOfYear(date: Date): number {
-    const start = new Date(date.getFullYear(), 0, 0);
-    const diff = date.getTime() - start.getTime();
-    return Math.floor(diff / (1000 * 60 * 60 * 24));
+  // Weight of a day `distance` days outside the target range
+  private weightAt(distance: number): number {
+    return seasonalWeight(distance, this.seasonalWindowDays, this.seasonalWeighting);
   }
 
-  private calculateThresholds(data: {
-    temperature: number[];
-    precipitation: number[];
-    windSpeed: number[];
-    humidity: number[];
-  }): ProbabilityThresholds {
+  private calculateThresholds(data: SeasonalData, config: ThresholdConfig): ProbabilityThresholds {
+    const resolve = (condition: keyof ProbabilityThresholds) => {
+      const threshold: ConditionThreshold = config[condition];
+      return threshold.mode === 'percentile'
+        ? this.calculatePercentile(this.getSeries(data, CONDITION_STATISTICS[condition]).values, threshold.value)
+        : toDataUnits(threshold.value, threshold.units);
+    };
+
     return {
-      veryHot: this.calculatePercentile(data.temperature, 95), // 95th percentile
-      veryCold: this.calculatePercentile(data.temperature, 5), // 5th percentile
-      veryWet: this.calculatePercentile(data.precipitation, 90), // 90th percentile
-      veryWindy: this.calculatePercentile(data.windSpeed, 85), // 85th percentile
-      veryUncomfortable: this.calculateHeatIndexThreshold(data.temperature, data.humidity)
+      veryHot: resolve('veryHot'),
+      veryCold: resolve('veryCold'),
+      veryWet: resolve('veryWet'),
+      veryWindy: resolve('veryWindy'),
+      veryUncomfortable: resolve('veryUncomfortable')
     };
   }
 
@@ -164,22 +377,6 @@ export class WeatherProbabilityCalculator {
     return sorted[lower] * (1 - weight) + sorted[upper] * weight;
   }
 
-  private calculateHeatIndexThreshold(temperatures: number[], humidities: number[]): number {
-    const heatIndices: number[] = [];
-
-    for (let i = 0; i < Math.min(temperatures.length, humidities.length); i++) {
-      const temp = temperatures[i];
-      const humidity = humidities[i];
-
-      if (!isNaN(temp) && !isNaN(humidity) && humidity >= 0 && humidity <= 100) {
-        const heatIndex = this.calculateHeatIndex(temp, humidity);
-        heatIndices.push(heatIndex);
-      }
-    }
-
-    return this.calculatePercentile(heatIndices, 90); // 90th percentile for "very uncomfortable"
-  }
-
   private calculateHeatIndex(tempCelsius: number, humidity: number): number {
     // Convert to Fahrenheit for heat index calculation
     const tempF = tempCelsius * 9/5 + 32;
@@ -197,170 +394,417 @@ export class WeatherProbabilityCalculator {
   }
 
   private calculateHistoricalProbabilities(
-    data: { 
-      temperature: number[];
-      precipitation: number[];
-      windSpeed: number[];
-      humidity: number[];
-      dates: Date[];
-    },
-    thresholds: ProbabilityThresholds
+    data: SeasonalData,
+    thresholds: ProbabilityThresholds,
+    config: ThresholdConfig
   ) {
-    const totalRecords = data.temperature.length;
+    const calculateProb = (condition: keyof ProbabilityThresholds): ProbabilityResult => {
+      const threshold = thresholds[condition];
+      const above = CONDITION_ABOVE[condition];
+      const { values, years, weights } = this.getSeries(data, CONDITION_STATISTICS[condition]);
+
+      // Each statistic has its own day count (a day can have enough
+      // temperature samples but too few wind samples), so normalise by
+      // the days evaluated
+      const summary = this.summariseOutcomes(
+        values.map((v, i) => ({ year: years[i], met: above ? v >= threshold : v <= threshold, weight: weights[i] }))
+      );
+
+      return {
+        probability: summary.probability,
+        threshold,
+        thresholdDefinition: config[condition],
+        confidence: CONFIDENCE_LEVEL,
+        confidenceInterval: summary.confidenceInterval,
+        historicalOccurrences: summary.occurrences,
+        yearly: summary.yearly,
+        trend: summary.trend
+      };
+    };
 
-    const calculateProb = (
-      values: number[], 
-      threshold: number, 
-      above: boolean,
-      conditionName: string
-    ): ProbabilityResult => {
-      const occurrences = values.filter(v => 
-        above ? v >= threshold : v <= threshold
-      ).length;
+    return {
+      veryHot: calculateProb('veryHot'),
+      veryCold: calculateProb('veryCold'),
+      veryWet: calculateProb('veryWet'),
+      veryWindy: calculateProb('veryWindy'),
+      veryUncomfortable: calculateProb('veryUncomfortable')
+    };
+  }
 
-      const probability = totalRecords > 0 ? (occurrences / totalRecords) * 100 : 0;
-      const confidence = this.calculateConfidence(totalRecords);
+  // Days where a referenced variable is missing are left out
+  private calculateCustomProbability(data: SeasonalData, condition: CustomCondition): CustomProbabilityResult {
+    const base = { id: condition.id, name: condition.name, expression: condition.expression };
 
+    let tree;
+    try {
+      tree = parseCondition(condition.expression);
+    } catch (error) {
       return {
-        probability,
-        threshold,
-        confidence,
-        historicalOccurrences: occurrences
+        ...base,
+        ...this.summariseOutcomes([]),
+        historicalOccurrences: 0,
+        confidence: CONFIDENCE_LEVEL,
+        samples: 0,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const outcomes: Outcome[] = [];
+    data.days.forEach(day => {
+      const met = evaluateCondition(tree, this.getConditionValues(day));
+      if (met !== null) outcomes.push({ year: day.season, met, weight: day.weight });
+    });
+
+    const summary = this.summariseOutcomes(outcomes);
+    return {
+      ...base,
+      probability: summary.probability,
+      confidence: CONFIDENCE_LEVEL,
+      confidenceInterval: summary.confidenceInterval,
+      historicalOccurrences: summary.occurrences,
+      samples: outcomes.length,
+      yearly: summary.yearly,
+      trend: summary.trend
+    };
+  }
+
+  // Windows of `windowDays` consecutive days inside each year's seasonal
+  // window; a window counts if it contains a run of `minDays` days meeting
+  // the condition. Outcomes are attributed to the window's season and
+  // weighted by how far its start is from the target date.
+  private calculateSpellProbability(
+    data: SeasonalData,
+    thresholds: ProbabilityThresholds,
+    spell: SpellDefinition,
+    windowDays: number
+  ): SpellProbabilityResult {
+    const base = {
+      id: spell.id,
+      name: spell.name,
+      condition: spell.condition,
+      minDays: spell.minDays,
+      windowDays,
+      confidence: CONFIDENCE_LEVEL
+    };
+    const failed = (error: string): SpellProbabilityResult => ({
+      ...base,
+      ...this.summariseOutcomes([]),
+      historicalOccurrences: 0,
+      samples: 0,
+      error
+    });
+
+    if (spell.minDays > windowDays) {
+      return failed(`Needs an event window of at least ${spell.minDays} days`);
+    }
+
+    // Does a day meet the condition (null: no data)?
+    let meets: (day: SeasonalData['days'][number]) => boolean | null;
+    if (spell.condition in CONDITION_STATISTICS) {
+      const condition = spell.condition as keyof ProbabilityThresholds;
+      const threshold = thresholds[condition];
+      const above = CONDITION_ABOVE[condition];
+      meets = day => {
+        const value = day[CONDITION_STATISTICS[condition]];
+        if (isNaN(value)) return null;
+        return above ? value >= threshold : value <= threshold;
       };
+    } else {
+      try {
+        const tree = parseCondition(spell.condition);
+        meets = day => evaluateCondition(tree, this.getConditionValues(day));
+      } catch (error) {
+        return failed(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const outcomes: Outcome[] = [];
+    splitConsecutiveDays(data.days).forEach(stretch => {
+      slidingWindows(stretch, windowDays).forEach(window => {
+        const met = hasSpell(window.map(meets), spell.minDays);
+        const weight = this.weightAt(Math.abs(window[0].offset));
+        if (met !== null && weight > 0) outcomes.push({ year: window[0].season, met, weight });
+      });
+    });
+
+    const summary = this.summariseOutcomes(outcomes);
+    return {
+      ...base,
+      probability: summary.probability,
+      confidenceInterval: summary.confidenceInterval,
+      historicalOccurrences: summary.occurrences,
+      samples: outcomes.length,
+      yearly: summary.yearly,
+      trend: summary.trend
+    };
+  }
+
+  // Weighted share of the seasonal-window days around each day of the
+  // range meeting each condition; point estimates only (intervals are on
+  // the headline and at-least-once results)
+  private calculateDailyProbabilities(
+    data: SeasonalData,
+    thresholds: ProbabilityThresholds,
+    start: Date,
+    rangeDays: number
+  ): DailyProbability[] {
+    const first = toCalendarDate(start);
+
+    return Array.from({ length: rangeDays }, (_, index) => {
+      const { year, month, day } = addCalendarDays(first, index);
+      const around = data.days
+        .map(d => ({ day: d, weight: this.weightAt(Math.abs(d.offset - index)) }))
+        .filter(({ weight }) => weight > 0);
+
+      const probability = (condition: keyof ProbabilityThresholds) => {
+        const above = CONDITION_ABOVE[condition];
+        let met = 0;
+        let total = 0;
+        around.forEach(({ day: d, weight }) => {
+          const value = d[CONDITION_STATISTICS[condition]];
+          if (isNaN(value)) return;
+          total += weight;
+          if (above ? value >= thresholds[condition] : value <= thresholds[condition]) met += weight;
+        });
+        return total > 0 ? (met / total) * 100 : 0;
+      };
+
+      return {
+        date: new Date(year, month - 1, day),
+        probabilities: {
+          veryHot: probability('veryHot'),
+          veryCold: probability('veryCold'),
+          veryWet: probability('veryWet'),
+          veryWindy: probability('veryWindy'),
+          veryUncomfortable: probability('veryUncomfortable')
+        },
+        samples: around.length
+      };
+    });
+  }
+
+  // Values an expression sees for a day (see utils/conditionExpression)
+  private getConditionValues(day: DailyStatistics): Partial<Record<ConditionVariable, number>> {
+    return {
+      temperature: day.temperatureMean,
+      temperatureMax: day.temperatureMax,
+      temperatureMin: day.temperatureMin,
+      precipitation: day.precipitationTotal,
+      windSpeed: day.windSpeedMax,
+      humidity: day.humidityMean,
+      heatIndex: day.heatIndexMax,
+      snowDepth: day.snowDepthMax
+    };
+  }
+
+  // Pooled probability, interval, per-year frequency and its trend from
+  // yes/no outcomes. Counts are weighted (all weights are 1 with uniform
+  // weighting); occurrences is the unweighted number of "yes" outcomes.
+  private summariseOutcomes(outcomes: Outcome[]) {
+    const byYear = new Map<number, YearCounts>();
+    outcomes.forEach(({ year, met, weight }) => {
+      if (!byYear.has(year)) byYear.set(year, { occurrences: 0, total: 0, squaredWeights: 0 });
+      const counts = byYear.get(year)!;
+      counts.total += weight;
+      counts.squaredWeights += weight * weight;
+      if (met) counts.occurrences += weight;
+    });
+
+    const occurrences = outcomes.filter(outcome => outcome.met).length;
+    const weightedOccurrences = outcomes.reduce((sum, o) => sum + (o.met ? o.weight : 0), 0);
+    const weightedTotal = outcomes.reduce((sum, o) => sum + o.weight, 0);
+    const probability = weightedTotal > 0 ? (weightedOccurrences / weightedTotal) * 100 : 0;
+
+    const sortedYears = Array.from(byYear.keys()).sort((a, b) => a - b);
+    const yearCounts = sortedYears.map(year => byYear.get(year)!);
+    const frequencies = yearCounts.map(c => (c.occurrences / c.total) * 100);
+
+    return {
+      probability,
+      occurrences,
+      confidenceInterval: this.calculateConfidenceInterval(yearCounts),
+      yearly: {
+        years: sortedYears,
+        values: frequencies
+      },
+      trend: analyzeTrend(sortedYears, frequencies)
     };
+  }
+
+  // 95% interval for a probability from per-year counts. Samples within a
+  // year are strongly autocorrelated (consecutive days), so the
+  // bootstrap resamples whole years; Wilson treats samples as independent
+  // and is used when there are too few years to resample. With weighting,
+  // Wilson uses the effective sample size (Σw)² / Σw².
+  private calculateConfidenceInterval(yearCounts: YearCounts[]): ConfidenceInterval {
+    const occurrences = yearCounts.reduce((sum, c) => sum + c.occurrences, 0);
+    const total = yearCounts.reduce((sum, c) => sum + c.total, 0);
+
+    if (this.intervalMethod === 'wilson' || yearCounts.length < this.minBootstrapYears) {
+      const squaredWeights = yearCounts.reduce((sum, c) => sum + c.squaredWeights, 0);
+      const effective = squaredWeights > 0 ? (total * total) / squaredWeights : 0;
+      const scale = total > 0 ? effective / total : 0;
+      return { ...this.wilsonInterval(occurrences * scale, effective), method: 'wilson' };
+    }
 
-    // Calculate heat index values for uncomfortable conditions
-    const heatIndices: number[] = [];
-    for (let i = 0; i < Math.min(data.temperature.length, data.humidity.length); i++) {
-      if (!isNaN(data.temperature[i]) && !isNaN(data.humidity[i])) {
-        heatIndices.push(this.calculateHeatIndex(data.temperature[i], data.humidity[i]));
+    // Fixed seed so the same data always gives the same interval
+    const random = this.createRandom(yearCounts.length * 7919 + occurrences);
+    const estimates: number[] = [];
+
+    for (let b = 0; b < this.bootstrapResamples; b++) {
+      let resampledOccurrences = 0;
+      let resampledTotal = 0;
+      for (let i = 0; i < yearCounts.length; i++) {
+        const pick = yearCounts[Math.floor(random() * yearCounts.length)];
+        resampledOccurrences += pick.occurrences;
+        resampledTotal += pick.total;
       }
+      estimates.push((resampledOccurrences / resampledTotal) * 100);
     }
 
+    const tail = (100 - CONFIDENCE_LEVEL) / 2;
     return {
-      veryHot: calculateProb(data.temperature, thresholds.veryHot, true, 'Very Hot'),
-      veryCold: calculateProb(data.temperature, thresholds.veryCold, false, 'Very Cold'),
-      veryWet: calculateProb(data.precipitation, thresholds.veryWet, true, 'Very Wet'),
-      veryWindy: calculateProb(data.windSpeed, thresholds.veryWindy, true, 'Very Windy'),
-      veryUncomfortable: calculateProb(heatIndices, thresholds.veryUncomfortable, true, 'Very Uncomfortable')
+      lower: this.calculatePercentile(estimates, tail),
+      upper: this.calculatePercentile(estimates, 100 - tail),
+      method: 'bootstrap'
     };
   }
 
-  private calculateConfidence(sampleSize: number): number {
-    // Confidence based on sample size (NASA standard approach)
-    // 20 years of ±7 day seasonal data ≈ 280 samples (14 days × 20 years)
-    if (sampleSize >= 280) return 95;
-    if (sampleSize >= 200) return 92;
-    if (sampleSize >= 140) return 88;
-    if (sampleSize >= 100) return 85;
-    if (sampleSize >= 70) return 80;
-    if (sampleSize >= 50) return 75;
-    return 70;
+  private wilsonInterval(occurrences: number, total: number): { lower: number; upper: number } {
+    if (total === 0) return { lower: 0, upper: 0 };
+
+    const p = occurrences / total;
+    const z2 = Z_95 * Z_95;
+    const denominator = 1 + z2 / total;
+    const centre = (p + z2 / (2 * total)) / denominator;
+    const margin = (Z_95 * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) / denominator;
+
+    return {
+      lower: Math.max(0, centre - margin) * 100,
+      upper: Math.min(1, centre + margin) * 100
+    };
   }
 
-  private generateHistoricalContext(
-    data: { 
-      temperature: number[];
-      precipitation: number[];
-      windSpeed: number[];
-      humidity: number[];
-      dates: Date[];
-    },
-    datasets: WeatherDataset[]
-  ) {
-    // Calculate averages
-    const avgTemp = data.temperature.reduce((a, b) => a + b, 0) / data.temperature.length;
-    const avgPrecip = data.precipitation.reduce((a, b) => a + b, 0) / data.precipitation.length;
-    const avgWind = data.windSpeed.reduce((a, b) => a + b, 0) / data.windSpeed.length;
-    const avgHumidity = data.humidity.reduce((a, b) => a + b, 0) / data.humidity.length;
+  // Seeded PRNG (mulberry32) returning values in [0, 1)
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
 
-    // Find extreme events
-    const extremeEvents = this.findExtremeEvents(data);
+  private generateHistoricalContext(data: SeasonalData) {
+    const temperature = this.getSeries(data, 'temperatureMean');
+    const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+    // Calculate averages (daily means; precipitation as mm/day)
+    const avgTemp = average(temperature.values);
+    const avgPrecip = average(this.getSeries(data, 'precipitationTotal').values);
+    const avgWind = average(this.getSeries(data, 'windSpeedMean').values);
+    const avgHumidity = average(this.getSeries(data, 'humidityMean').values);
+
+    // Fit extreme value distributions to the seasonal annual maxima
+    const extremes = {
+      temperature: analyzeExtremes(this.getSeries(data, 'temperatureMax')),
+      precipitation: analyzeExtremes(this.getSeries(data, 'precipitationTotal')),
+      windSpeed: analyzeExtremes(this.getSeries(data, 'windSpeedMax'))
+    };
 
-    // Calculate data years from datasets
-    const totalYears = datasets.reduce((years, dataset) => {
-      const start = dataset.metadata.temporalCoverage.start;
-      const end = dataset.metadata.temporalCoverage.end;
-      return Math.max(years, end.getFullYear() - start.getFullYear());
-    }, 0);
+    // Find extreme events
+    const extremeEvents = this.findExtremeEvents(data, extremes);
+
+    // Count distinct years contributing seasonal days (climatology
+    // fetches deliver one dataset per year, so spans alone undercount)
+    const totalYears = new Set(temperature.years).size;
+
+    // Mean seasonal-window temperature for each year
+    const temperatureByYear = new Map<number, number[]>();
+    temperature.values.forEach((temp, i) => {
+      const year = temperature.years[i];
+      if (!temperatureByYear.has(year)) temperatureByYear.set(year, []);
+      temperatureByYear.get(year)!.push(temp);
+    });
+    const years = Array.from(temperatureByYear.keys()).sort((a, b) => a - b);
+    const yearlyTemperature = {
+      years,
+      values: years.map(year => average(temperatureByYear.get(year)!))
+    };
 
     return {
       dataYears: totalYears,
-      totalDataPoints: data.temperature.length,
+      totalDataPoints: temperature.values.length,
       averageConditions: {
         temperature: avgTemp,
         precipitation: avgPrecip,
         windSpeed: avgWind,
         humidity: avgHumidity
       },
-      extremeEvents
+      extremeEvents,
+      yearlyTemperature,
+      extremes
     };
   }
 
-  private findExtremeEvents(data: {
-    temperature: number[];
-    precipitation: number[];
-    windSpeed: number[];
-    dates: Date[];
-  }) {
-    const events: Array<{ date: Date; type: string; value: number }> = [];
-
-    // Find temperature extremes
-    const maxTemp = Math.max(...data.temperature);
-    const minTemp = Math.min(...data.temperature);
-    const maxTempIndex = data.temperature.indexOf(maxTemp);
-    const minTempIndex = data.temperature.indexOf(minTemp);
-
-    if (maxTempIndex >= 0 && data.dates[maxTempIndex]) {
+  private findExtremeEvents(
+    data: SeasonalData,
+    extremes: ProbabilityResults['historicalContext']['extremes']
+  ) {
+    const events: ProbabilityResults['historicalContext']['extremeEvents'] = [];
+
+    // Day with the highest (or lowest) value of a statistic, with its
+    // return period when a fit of the maxima is available
+    const extreme = (
+      statistic: DailyStatistic,
+      type: string,
+      pick: (...values: number[]) => number,
+      fit?: ExtremeValueAnalysis
+    ) => {
+      const { values, dates } = this.getSeries(data, statistic);
+      if (values.length === 0) return;
+      const value = pick(...values);
       events.push({
-        date: data.dates[maxTempIndex],
-        type: 'Hottest Day',
-        value: maxTemp
+        date: dates[values.indexOf(value)],
+        type,
+        value,
+        ...(fit?.gev && { returnPeriod: gevReturnPeriod(fit.gev, value) })
       });
-    }
+    };
 
-    if (minTempIndex >= 0 && data.dates[minTempIndex]) {
-      events.push({
-        date: data.dates[minTempIndex],
-        type: 'Coldest Day',
-        value: minTemp
-      });
-    }
+    // Find temperature extremes
+    extreme('temperatureMax', 'Hottest Day', Math.max, extremes.temperature);
+    extreme('temperatureMin', 'Coldest Day', Math.min);
 
     // Find precipitation extremes
-    const maxPrecip = Math.max(...data.precipitation);
-    const maxPrecipIndex = data.precipitation.indexOf(maxPrecip);
-
-    if (maxPrecipIndex >= 0 && data.dates[maxPrecipIndex]) {
-      events.push({
-        date: data.dates[maxPrecipIndex],
-        type: 'Wettest Day',
-        value: maxPrecip
-      });
-    }
+    extreme('precipitationTotal', 'Wettest Day', Math.max, extremes.precipitation);
 
     return events.slice(0, 5); // Return top 5 extreme events
   }
 
-  private assessDataQuality(
-    data: { temperature: number[]; precipitation: number[]; windSpeed: number[]; humidity: number[] },
-    datasets: WeatherDataset[]
-  ) {
-    // Calculate completeness
-    const tempCompleteness = data.temperature.filter(v => !isNaN(v) && v !== null).length / data.temperature.length;
-    const precipCompleteness = data.precipitation.filter(v => !isNaN(v) && v !== null).length / data.precipitation.length;
-    const windCompleteness = data.windSpeed.filter(v => !isNaN(v) && v !== null).length / data.windSpeed.length;
-    const humidityCompleteness = data.humidity.filter(v => !isNaN(v) && v !== null).length / data.humidity.length;
+  private assessDataQuality(data: SeasonalData, datasets: WeatherDataset[]) {
+    // Calculate completeness: share of seasonal days with enough samples
+    // for each variable (variables with no days count as 0% complete)
+    const completenessOf = (statistic: DailyStatistic) =>
+      data.days.length > 0 ? this.getSeries(data, statistic).values.length / data.days.length : 0;
+
+    const tempCompleteness = completenessOf('temperatureMean');
+    const precipCompleteness = completenessOf('precipitationTotal');
+    const windCompleteness = completenessOf('windSpeedMean');
+    const humidityCompleteness = completenessOf('humidityMean');
 
     const overallCompleteness = (tempCompleteness + precipCompleteness + windCompleteness + humidityCompleteness) / 4;
 
-    // Assess reliability based on data source and sample size
-    const reliability = data.temperature.length >= 200 ? 92 : 
-                       data.temperature.length >= 100 ? 88 : 
-                       data.temperature.length >= 50 ? 82 : 75;
+    // Assess reliability based on data source and sample size (days)
+    const days = this.getSeries(data, 'temperatureMean').values.length;
+    const reliability = days >= 150 ? 92 :
+                       days >= 75 ? 88 :
+                       days >= 30 ? 82 : 75;
 
     // Extract data sources
-    const sources = datasets.map(ds => ds.metadata.source);
+    const sources = datasets.flatMap(ds => ds.metadata.sources ?? [ds.metadata.source]);
 
     return {
       completeness: overallCompleteness * 100,
@@ -20,11 +20,14 @@ export interface Variable {
   longName: string;
   units: string;
   standardName?: string;
+  source?: string; // Dataset id the values came from
+  fillCount?: number; // Samples the source reported as fill values
 }
 
 export interface WeatherDataset {
   metadata: {
     source: string;
+    sources?: string[]; // Underlying products when several are merged
     spatialCoverage: BoundingBox;
     temporalCoverage: DateRange;
     variables: Variable[];
@@ -48,16 +51,50 @@ export interface WeatherCondition {
   label: string;
   probability: number;
   confidence: number;
+  confidenceInterval?: { lower: number; upper: number }; // Probability bounds, percent
   threshold: number;
+  thresholdLabel?: string; // e.g. "≥ 32 °C" or "≥ 31.4 °C (95th percentile)"
   historicalOccurrences: number;
+  trend?: {
+    slopePerDecade: number; // Percentage points per decade (Sen's slope)
+    pValue: number; // Mann-Kendall, two-sided
+    direction: 'increasing' | 'decreasing' | 'none'; // 'none' unless significant
+  };
 }
 
+export interface CustomCondition {
+  id: string;
+  name: string;
+  expression: string; // e.g. "rain > 1 mm AND temp < 5°C"; see utils/conditionExpression
+}
+
+// Multi-day event: a run of consecutive days meeting a condition within
+// an event window (see utils/spellAnalysis)
+export interface SpellDefinition {
+  id: string;
+  name: string;
+  // Built-in condition key (e.g. "veryHot", uses its threshold) or a
+  // condition expression evaluated per day (e.g. "rain < 1 mm")
+  condition: string;
+  minDays: number; // Consecutive days required
+}
+
+export type ThresholdUnit = '°C' | '°F' | 'mm/hour' | 'mm/day' | 'm/s' | 'km/h' | 'mph';
+
+export interface ConditionThreshold {
+  mode: 'absolute' | 'percentile';
+  value: number; // Value in `units` when absolute, 0-100 when percentile
+  units: ThresholdUnit; // Units of absolute values and of displayed thresholds
+}
+
+export type ThresholdConfig = Record<WeatherCondition['type'], ConditionThreshold>;
+
 export interface ProbabilityResults {
   conditions: WeatherCondition[];
   confidenceIntervals: {
     lower: number;
     upper: number;
-  }[];
+  }[]; // One per condition, in conditions order
   historicalContext: {
     years: number[];
     values: number[];
@@ -74,6 +111,11 @@ export interface LoadingProgress {
   status: 'loading' | 'complete' | 'error';
   progress: number;
   overallProgress?: number;
+  /** Item counts, when the source tracks individual downloads */
+  completed?: number;
+  total?: number;
+  failed?: number;
+  retrying?: number;
 }
 
 export interface WeatherAnalysis {
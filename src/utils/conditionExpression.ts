@@ -0,0 +1,358 @@
+/**
+ * ============================================================================
+ * CUSTOM CONDITION EXPRESSIONS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Parses user-defined conditions such as
+ *   "rain > 1 mm AND temp < 5°C"        (cold rain)
+ *   "snow depth > 10 cm"
+ *   "tmin < -2"                          (frost)
+ *   "(wind >= 40 km/h OR rain > 10 mm/day) AND NOT tmin < 0"
+ * into a tree that can be evaluated against one day's statistics.
+ *
+ * GRAMMAR:
+ *   expression := or
+ *   or         := and (("OR" | "||") and)*
+ *   and        := not (("AND" | "&&") not)*
+ *   not        := ("NOT" | "!") not | "(" expression ")" | comparison
+ *   comparison := variable (">" | ">=" | "<" | "<=" | "=" | "!=") ["-"] number [unit]
+ *
+ * VARIABLES AND UNITS:
+ * Each variable is a daily statistic (see utils/dailyAggregation):
+ * temperature and humidity are daily means, "tmax" / "tmin" the daily
+ * extremes, rain the daily total, wind, heat index and snow depth daily
+ * maxima. Values are converted to the units the data is stored in:
+ * temperature / heat index °C, precipitation mm/day (a bare "mm" is the
+ * daily total; "mm/hour" an average rate over the day), wind m/s,
+ * humidity %, snow depth cm.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * Quantities an expression can refer to (keys of a day's values)
+ */
+export type ConditionVariable =
+  | 'temperature'
+  | 'temperatureMax'
+  | 'temperatureMin'
+  | 'precipitation'
+  | 'windSpeed'
+  | 'humidity'
+  | 'heatIndex'
+  | 'snowDepth';
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+/**
+ * Parsed expression tree
+ */
+export type ConditionNode =
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'compare'; variable: ConditionVariable; operator: ComparisonOperator; value: number };
+
+/**
+ * Thrown for malformed expressions; position is the character offset
+ */
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'operator'; text: ComparisonOperator; position: number }
+  | { kind: 'logic'; text: 'and' | 'or' | 'not'; position: number }
+  | { kind: 'paren'; text: '(' | ')'; position: number };
+
+/**
+ * Names accepted for each variable (lower case, spaces and underscores removed)
+ */
+const VARIABLE_ALIASES: Record<string, ConditionVariable> = {
+  temperature: 'temperature',
+  temp: 'temperature',
+  t: 'temperature',
+  tmax: 'temperatureMax',
+  maxtemp: 'temperatureMax',
+  maxtemperature: 'temperatureMax',
+  tmin: 'temperatureMin',
+  mintemp: 'temperatureMin',
+  mintemperature: 'temperatureMin',
+  precipitation: 'precipitation',
+  precip: 'precipitation',
+  rain: 'precipitation',
+  rainfall: 'precipitation',
+  wind: 'windSpeed',
+  windspeed: 'windSpeed',
+  humidity: 'humidity',
+  rh: 'humidity',
+  relativehumidity: 'humidity',
+  heatindex: 'heatIndex',
+  snow: 'snowDepth',
+  snowdepth: 'snowDepth'
+};
+
+const identity = (value: number) => value;
+const fahrenheitToCelsius = (value: number) => (value - 32) * 5 / 9;
+const TEMPERATURE_UNITS = { '°c': identity, 'c': identity, '°f': fahrenheitToCelsius, 'f': fahrenheitToCelsius, 'k': (value: number) => value - 273.15 };
+
+/**
+ * Unit conversions to data units per variable; the first entry is the default
+ */
+const VARIABLE_UNITS: Record<ConditionVariable, Record<string, (value: number) => number>> = {
+  temperature: TEMPERATURE_UNITS,
+  temperatureMax: TEMPERATURE_UNITS,
+  temperatureMin: TEMPERATURE_UNITS,
+  heatIndex: { '°c': identity, 'c': identity, '°f': fahrenheitToCelsius, 'f': fahrenheitToCelsius },
+  precipitation: { 'mm/day': identity, 'mm/d': identity, 'mm': identity, 'mm/hour': value => value * 24, 'mm/h': value => value * 24, 'mm/hr': value => value * 24, 'in': value => value * 25.4 },
+  windSpeed: { 'm/s': identity, 'km/h': value => value / 3.6, 'kmh': value => value / 3.6, 'mph': value => value * 0.44704, 'kt': value => value * 0.514444 },
+  humidity: { '%': identity },
+  snowDepth: { 'cm': identity, 'mm': value => value / 10, 'm': value => value * 100, 'in': value => value * 2.54 }
+};
+
+/**
+ * Display name and data unit per variable (for help text)
+ */
+export const CONDITION_VARIABLES: Record<ConditionVariable, { label: string; units: string; aliases: string[] }> = {
+  temperature: { label: 'Temperature', units: '°C', aliases: ['temp'] },
+  temperatureMax: { label: 'Max temperature', units: '°C', aliases: ['tmax', 'max temp'] },
+  temperatureMin: { label: 'Min temperature', units: '°C', aliases: ['tmin', 'min temp'] },
+  precipitation: { label: 'Precipitation', units: 'mm/day', aliases: ['rain', 'precip'] },
+  windSpeed: { label: 'Wind speed', units: 'm/s', aliases: ['wind'] },
+  humidity: { label: 'Relative humidity', units: '%', aliases: ['rh'] },
+  heatIndex: { label: 'Heat index', units: '°C', aliases: ['heat index'] },
+  snowDepth: { label: 'Snow depth', units: 'cm', aliases: ['snow', 'snow depth'] }
+};
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * Parse a condition expression
+ *
+ * @param expression - e.g. "rain > 1 mm AND temp < 5°C"
+ * @returns Expression tree with values in data units
+ * @throws ConditionSyntaxError if the expression is malformed
+ *
+ * @example
+ * const coldRain = parseCondition('rain > 1 mm AND temp < 5°C');
+ * evaluateCondition(coldRain, { precipitation: 2, temperature: 3 }); // true
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const isLogic = (text: 'and' | 'or' | 'not') => {
+    const token = peek();
+    return token?.kind === 'logic' && token.text === text;
+  };
+  const fail = (message: string): never => {
+    throw new ConditionSyntaxError(message, peek()?.position ?? expression.length);
+  };
+
+  const parseOr = (): ConditionNode => {
+    let node = parseAnd();
+    while (isLogic('or')) {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let node = parseNot();
+    while (isLogic('and')) {
+      index++;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): ConditionNode => {
+    const token = peek();
+    if (isLogic('not')) {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    if (token?.kind === 'paren' && token.text === '(') {
+      index++;
+      const node = parseOr();
+      const closing = peek();
+      if (closing?.kind !== 'paren' || closing.text !== ')') fail('Expected ")"');
+      index++;
+      return node;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    // Variable names may be several words ("snow depth", "heat index")
+    const words: string[] = [];
+    for (let token = peek(); token?.kind === 'word'; token = peek()) {
+      words.push(token.text);
+      index++;
+    }
+    if (words.length === 0) fail('Expected a variable name');
+
+    const name = words.join('').replace(/_/g, '').toLowerCase();
+    const variable = VARIABLE_ALIASES[name];
+    if (!variable) {
+      throw new ConditionSyntaxError(
+        `Unknown variable "${words.join(' ')}" (use ${Object.values(CONDITION_VARIABLES).map(v => v.label.toLowerCase()).join(', ')})`,
+        tokens[index - 1].position
+      );
+    }
+
+    const operator = peek();
+    if (operator?.kind !== 'operator') return fail('Expected a comparison (>, >=, <, <=, =, !=)');
+    index++;
+
+    const number = peek();
+    if (number?.kind !== 'number') return fail('Expected a number');
+    index++;
+
+    // Optional unit: a word, %, or a run like "mm/day" (tokenised as one word)
+    const units = VARIABLE_UNITS[variable];
+    let convert = Object.values(units)[0];
+    const unitToken = peek();
+    if (unitToken?.kind === 'word' && !VARIABLE_ALIASES[unitToken.text.toLowerCase()]) {
+      const unit = unitToken.text.toLowerCase();
+      if (!units[unit]) {
+        throw new ConditionSyntaxError(
+          `Unit "${unitToken.text}" not valid for ${CONDITION_VARIABLES[variable].label.toLowerCase()} (use ${Object.keys(units).join(', ')})`,
+          unitToken.position
+        );
+      }
+      convert = units[unit];
+      index++;
+    }
+
+    return { type: 'compare', variable, operator: operator.text, value: convert(number.value) };
+  };
+
+  if (tokens.length === 0) fail('Expression is empty');
+  const tree = parseOr();
+  if (index < tokens.length) fail('Unexpected input');
+  return tree;
+}
+
+/**
+ * Evaluate an expression against one day
+ *
+ * @param node - Parsed expression
+ * @param values - The day's variable values (data units)
+ * @returns Whether the condition holds, or null if it depends on a variable
+ *          missing on this day (AND with a false side is still false,
+ *          OR with a true side still true)
+ */
+export function evaluateCondition(
+  node: ConditionNode,
+  values: Partial<Record<ConditionVariable, number>>
+): boolean | null {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const left = evaluateCondition(node.left, values);
+      const right = evaluateCondition(node.right, values);
+      // Kleene logic: a decided side can settle the result on its own
+      const decisive = node.type === 'or';
+      if (left === decisive || right === decisive) return decisive;
+      if (left === null || right === null) return null;
+      return !decisive;
+    }
+    case 'not': {
+      const operand = evaluateCondition(node.operand, values);
+      return operand === null ? null : !operand;
+    }
+    case 'compare': {
+      const value = values[node.variable];
+      if (value === undefined || isNaN(value)) return null;
+      switch (node.operator) {
+        case '>': return value > node.value;
+        case '>=': return value >= node.value;
+        case '<': return value < node.value;
+        case '<=': return value <= node.value;
+        case '=': return value === node.value;
+        case '!=': return value !== node.value;
+      }
+    }
+  }
+}
+
+/**
+ * Variables an expression refers to
+ */
+export function getConditionVariables(node: ConditionNode): ConditionVariable[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set([...getConditionVariables(node.left), ...getConditionVariables(node.right)]));
+    case 'not':
+      return getConditionVariables(node.operand);
+    case 'compare':
+      return [node.variable];
+  }
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(>=|<=|!=|==|>|<|=)|(&&|\|\|)|(!)|([()])|(-?(?:\d+(?:\.\d+)?|\.\d+))|(°?[A-Za-z_%][A-Za-z_%]*(?:\/[A-Za-z]+)?))/y;
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    if (rest.trim() === '') break;
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      const offset = position + rest.length - rest.trimStart().length;
+      throw new ConditionSyntaxError(`Unexpected character "${expression[offset]}"`, offset);
+    }
+
+    const start = match.index + match[0].length - match[0].trimStart().length;
+    const [, operator, symbol, bang, paren, number, word] = match;
+
+    if (operator) {
+      tokens.push({ kind: 'operator', text: (operator === '==' ? '=' : operator) as ComparisonOperator, position: start });
+    } else if (symbol) {
+      tokens.push({ kind: 'logic', text: symbol === '&&' ? 'and' : 'or', position: start });
+    } else if (bang) {
+      tokens.push({ kind: 'logic', text: 'not', position: start });
+    } else if (paren) {
+      tokens.push({ kind: 'paren', text: paren as '(' | ')', position: start });
+    } else if (number) {
+      // A minus sign is only part of a comparison's value
+      if (number.startsWith('-') && tokens[tokens.length - 1]?.kind !== 'operator') {
+        throw new ConditionSyntaxError('Unexpected character "-"', start);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(number), position: start });
+    } else if (word) {
+      const lower = word.toLowerCase();
+      if (lower === 'and' || lower === 'or' || lower === 'not') {
+        tokens.push({ kind: 'logic', text: lower, position: start });
+      } else {
+        tokens.push({ kind: 'word', text: word, position: start });
+      }
+    }
+
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
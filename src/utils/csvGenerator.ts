@@ -7,13 +7,15 @@
  * Convert parsed weather data points into human-readable CSV format with
  * proper unit conversions and meaningful column names.
  * 
- * COMPLETE VARIABLE MAPPINGS:
- * All 36 GLDAS NOAH-LSM variables with proper names and unit conversions
+ * VARIABLE MAPPINGS:
+ * Column names and unit conversions are looked up in the dataset registry,
+ * which defines all 36 GLDAS NOAH-LSM variables (see datasetRegistry.ts)
  * 
  * ============================================================================
  */
 
 import { WeatherDataPoint } from './asciiParser';
+import { datasetRegistry } from '../services/datasetRegistry';
 
 /**
  * Generate human-readable CSV from weather data points.
@@ -28,229 +30,9 @@ export function generateCSV(data: WeatherDataPoint[]): string {
     return "No data available";
   }
 
-  // COMPLETE Variable name mapping and unit conversions for ALL 36 GLDAS NOAH variables
-  const variableMapping: Record<string, { 
-    name: string, 
-    converter: (value: number) => number,
-    unit: string 
-  }> = {
-    // ========================================================================
-    // ENERGY FLUXES (5 variables)
-    // ========================================================================
-    'Swnet_tavg': { 
-      name: 'Net_Shortwave_Radiation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'Lwnet_tavg': { 
-      name: 'Net_Longwave_Radiation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'Qle_tavg': { 
-      name: 'Latent_Heat_Flux', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'Qh_tavg': { 
-      name: 'Sensible_Heat_Flux', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'Qg_tavg': { 
-      name: 'Ground_Heat_Flux', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    
-    // ========================================================================
-    // WATER BALANCE (6 variables)
-    // ========================================================================
-    'Snowf_tavg': { 
-      name: 'Snow_Precipitation_Rate', 
-      converter: (v) => v * 3600,
-      unit: 'mm_per_hour'
-    },
-    'Rainf_tavg': { 
-      name: 'Rain_Precipitation_Rate', 
-      converter: (v) => v * 3600,
-      unit: 'mm_per_hour'
-    },
-    'Evap_tavg': { 
-      name: 'Total_Evapotranspiration', 
-      converter: (v) => v * 3600,
-      unit: 'mm_per_hour'
-    },
-    'Qs_acc': { 
-      name: 'Surface_Runoff', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'Qsb_acc': { 
-      name: 'Subsurface_Runoff', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'Qsm_acc': { 
-      name: 'Snow_Melt', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    
-    // ========================================================================
-    // SURFACE PROPERTIES (4 variables)
-    // ========================================================================
-    'AvgSurfT_inst': { 
-      name: 'Surface_Skin_Temperature', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    'Albedo_inst': { 
-      name: 'Surface_Albedo', 
-      converter: (v) => v,
-      unit: 'percent'
-    },
-    'SWE_inst': { 
-      name: 'Snow_Water_Equivalent', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'SnowDepth_inst': { 
-      name: 'Snow_Depth', 
-      converter: (v) => v * 100, // Convert m to cm
-      unit: 'cm'
-    },
-    
-    // ========================================================================
-    // SOIL MOISTURE (4 layers - 0-200cm)
-    // ========================================================================
-    'SoilMoi0_10cm_inst': { 
-      name: 'Soil_Moisture_0-10cm', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'SoilMoi10_40cm_inst': { 
-      name: 'Soil_Moisture_10-40cm', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'SoilMoi40_100cm_inst': { 
-      name: 'Soil_Moisture_40-100cm', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'SoilMoi100_200cm_inst': { 
-      name: 'Soil_Moisture_100-200cm', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    
-    // ========================================================================
-    // SOIL TEMPERATURE (4 layers - 0-200cm)
-    // ========================================================================
-    'SoilTMP0_10cm_inst': { 
-      name: 'Soil_Temperature_0-10cm', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    'SoilTMP10_40cm_inst': { 
-      name: 'Soil_Temperature_10-40cm', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    'SoilTMP40_100cm_inst': { 
-      name: 'Soil_Temperature_40-100cm', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    'SoilTMP100_200cm_inst': { 
-      name: 'Soil_Temperature_100-200cm', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    
-    // ========================================================================
-    // EVAPORATION COMPONENTS (4 variables)
-    // ========================================================================
-    'PotEvap_tavg': { 
-      name: 'Potential_Evaporation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'ECanop_tavg': { 
-      name: 'Canopy_Water_Evaporation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'TVeg_tavg': { 
-      name: 'Vegetation_Transpiration', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'ESoil_tavg': { 
-      name: 'Bare_Soil_Evaporation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    
-    // ========================================================================
-    // OTHER LAND SURFACE (3 variables)
-    // ========================================================================
-    'RootMoist_inst': { 
-      name: 'Root_Zone_Soil_Moisture', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'CanopInt_inst': { 
-      name: 'Canopy_Water_Storage', 
-      converter: (v) => v,
-      unit: 'kg_per_m2'
-    },
-    'ACond_tavg': { 
-      name: 'Aerodynamic_Conductance', 
-      converter: (v) => v,
-      unit: 'm_per_s'
-    },
-    
-    // ========================================================================
-    // FORCING VARIABLES (7 atmospheric inputs)
-    // ========================================================================
-    'Wind_f_inst': { 
-      name: 'Wind_Speed', 
-      converter: (v) => v,
-      unit: 'm_per_s'
-    },
-    'Rainf_f_tavg': { 
-      name: 'Total_Precipitation_Forcing', 
-      converter: (v) => v * 3600,
-      unit: 'mm_per_hour'
-    },
-    'Tair_f_inst': { 
-      name: 'Air_Temperature', 
-      converter: (v) => v - 273.15,
-      unit: 'Celsius'
-    },
-    'Qair_f_inst': { 
-      name: 'Specific_Humidity', 
-      converter: (v) => v * 1000,
-      unit: 'g_per_kg'
-    },
-    'Psurf_f_inst': { 
-      name: 'Surface_Pressure', 
-      converter: (v) => v / 100, // Convert Pa to hPa
-      unit: 'hPa'
-    },
-    'SWdown_f_tavg': { 
-      name: 'Downward_Shortwave_Radiation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    },
-    'LWdown_f_tavg': { 
-      name: 'Downward_Longwave_Radiation', 
-      converter: (v) => v,
-      unit: 'W_per_m2'
-    }
-  };
+  // Variable names and unit conversions come from the dataset registry
+  // (all 36 GLDAS NOAH variables, plus NLDAS and MERRA-2 products)
+  const variableMapping = (varName: string) => datasetRegistry.findVariable(varName)?.variable;
 
   // Extract available variables from the data
   const variableNamesSet = new Set<string>();
@@ -273,9 +55,9 @@ export function generateCSV(data: WeatherDataPoint[]): string {
     "Latitude_deg",
     "Longitude_deg",
     ...variableNames.map(varName => {
-      const mapping = variableMapping[varName];
+      const mapping = variableMapping(varName);
       if (mapping) {
-        return `${mapping.name}_${mapping.unit}`;
+        return `${mapping.exportName}_${mapping.exportUnits}`;
       }
       // Fallback for any unmapped variables
       console.warn(`   ⚠️ Unmapped variable: ${varName} - using original name`);
@@ -295,9 +77,9 @@ export function generateCSV(data: WeatherDataPoint[]): string {
           return "";
         }
         
-        const mapping = variableMapping[varName];
+        const mapping = variableMapping(varName);
         if (mapping) {
-          const convertedValue = mapping.converter(value);
+          const convertedValue = mapping.convert(value);
           return convertedValue.toFixed(4);
         } else {
           // Fallback: return raw value
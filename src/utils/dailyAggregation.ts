@@ -0,0 +1,171 @@
+/**
+ * ============================================================================
+ * DAILY AGGREGATION
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Reduces 3-hourly (GLDAS) / hourly (NLDAS) samples to one record per
+ * local calendar day, so probabilities describe days ("a very wet day")
+ * rather than individual time steps ("a very wet 3-hour slot"):
+ * - Temperature: daily max, min and mean (°C)
+ * - Precipitation: daily total (mm), from the mean rate × 24 h
+ * - Wind speed: daily max and mean (m/s)
+ * - Relative humidity: daily mean (%)
+ * - Heat index: daily max (°C)
+ * - Snow depth: daily max (cm)
+ *
+ * DAY BOUNDARIES:
+ * Days run midnight to midnight in the given IANA time zone (default: the
+ * browser's), so an evening thunderstorm in Denver counts towards the
+ * local day rather than the next UTC day.
+ *
+ * COVERAGE:
+ * A statistic is NaN when its variable has fewer than minCoverage of the
+ * samples expected for the day (24 h / the source's time step), so days
+ * clipped by the fetch window or by data gaps don't skew totals or
+ * extremes.
+ *
+ * ============================================================================
+ */
+
+import { WeatherDataset } from '../types/weather';
+import { getStepHours } from './gapDetection';
+import { getDefaultTimeZone, getLocalDateParts } from './timeZones';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * Statistics for one local calendar day (NaN where coverage is too low)
+ */
+export interface DailyStatistics {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  year: number;
+  month: number;
+  day: number;
+  temperatureMax: number;
+  temperatureMin: number;
+  temperatureMean: number;
+  /** mm */
+  precipitationTotal: number;
+  windSpeedMax: number;
+  windSpeedMean: number;
+  humidityMean: number;
+  heatIndexMax: number;
+  snowDepthMax: number;
+}
+
+export interface DailyAggregationOptions {
+  /** IANA time zone for day boundaries (default: browser time zone) */
+  timeZone?: string;
+  /** Fraction of expected samples a day needs per variable (default 0.75) */
+  minCoverage?: number;
+  /** Heat index for a temperature (°C) and relative humidity (%) */
+  heatIndex?: (temperature: number, humidity: number) => number;
+}
+
+interface DayAccumulator {
+  year: number;
+  month: number;
+  day: number;
+  values: Record<string, number[]>;
+}
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * Aggregate a single-cell WeatherDataset into daily statistics
+ *
+ * @param dataset - Dataset shaped [time][lat][lon]; cell [0][0] is used
+ * @param options - Time zone, coverage requirement and heat index formula
+ * @returns One record per local day with any samples, in date order
+ *
+ * @example
+ * const days = aggregateDaily(dataset, { timeZone: 'America/New_York' });
+ * const wetDays = days.filter(d => d.precipitationTotal > 10).length;
+ */
+export function aggregateDaily(
+  dataset: WeatherDataset,
+  options: DailyAggregationOptions = {}
+): DailyStatistics[] {
+  const timeZone = options.timeZone ?? getDefaultTimeZone();
+  const minCoverage = options.minCoverage ?? 0.75;
+  const { time } = dataset.data.coordinates;
+  const { variables } = dataset.data;
+
+  const sourceOf = (name: string) => dataset.metadata.variables.find(v => v.name === name)?.source;
+  const expectedPerDay = (name: string) => 24 / getStepHours(sourceOf(name));
+  const valueAt = (name: string, index: number) => {
+    const value = variables[name]?.[index]?.[0]?.[0];
+    return value === undefined || isNaN(value) ? undefined : value;
+  };
+
+  const days = new Map<string, DayAccumulator>();
+
+  time.forEach((instant, index) => {
+    const { year, month, day } = getLocalDateParts(instant, timeZone);
+    const key = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+    let accumulator = days.get(key);
+    if (!accumulator) {
+      accumulator = { year, month, day, values: {} };
+      days.set(key, accumulator);
+    }
+
+    const add = (name: string, value: number | undefined) => {
+      if (value === undefined) return;
+      (accumulator!.values[name] ??= []).push(value);
+    };
+
+    const temperature = valueAt('temperature', index);
+    const humidity = valueAt('humidity', index);
+
+    add('temperature', temperature);
+    add('precipitation', valueAt('precipitation', index));
+    add('windSpeed', valueAt('windSpeed', index));
+    add('humidity', humidity);
+    add('snowDepth', valueAt('snowDepth', index));
+
+    if (options.heatIndex && temperature !== undefined && humidity !== undefined && humidity >= 0 && humidity <= 100) {
+      add('heatIndex', options.heatIndex(temperature, humidity));
+    }
+  });
+
+  // Values of a variable, or null if the day has too few of them
+  const covered = (accumulator: DayAccumulator, name: string, expectedFrom = name): number[] | null => {
+    const values = accumulator.values[name] ?? [];
+    return values.length > 0 && values.length >= minCoverage * expectedPerDay(expectedFrom) ? values : null;
+  };
+  const mean = (values: number[] | null) => values ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+  const max = (values: number[] | null) => values ? Math.max(...values) : NaN;
+  const min = (values: number[] | null) => values ? Math.min(...values) : NaN;
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, accumulator]) => {
+      const temperature = covered(accumulator, 'temperature');
+      const precipitation = covered(accumulator, 'precipitation');
+      const windSpeed = covered(accumulator, 'windSpeed');
+
+      return {
+        date,
+        year: accumulator.year,
+        month: accumulator.month,
+        day: accumulator.day,
+        temperatureMax: max(temperature),
+        temperatureMin: min(temperature),
+        temperatureMean: mean(temperature),
+        // Rates are mm/hour, so the mean rate over the day × 24 h is the total
+        precipitationTotal: mean(precipitation) * 24,
+        windSpeedMax: max(windSpeed),
+        windSpeedMean: mean(windSpeed),
+        humidityMean: mean(covered(accumulator, 'humidity')),
+        heatIndexMax: max(covered(accumulator, 'heatIndex', 'temperature')),
+        snowDepthMax: max(covered(accumulator, 'snowDepth'))
+      };
+    });
+}
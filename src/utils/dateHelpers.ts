@@ -20,50 +20,108 @@
  * Forcing: Wind_f_inst, Rainf_f_tavg, Tair_f_inst, Qair_f_inst,
  *          Psurf_f_inst, SWdown_f_tavg, LWdown_f_tavg
  * 
+ * Product paths, grid geometry and the variable list are read from the
+ * dataset registry (see services/datasetRegistry.ts).
+ * 
+ * Dates are read as UTC calendar days, matching the granule file names
+ * (see utils/timeZones.ts for converting a location's local days).
+ * 
  * ============================================================================
  */
 
+import {
+  datasetRegistry,
+  DatasetDefinition,
+  DatasetGrid,
+  GLDAS_NOAH025_3H
+} from '../services/datasetRegistry';
+
 /**
- * Get day of year (1-366)
+ * Get day of year (1-366) of the UTC date
  */
 export function getDayOfYear(date: Date): string {
-  const start = new Date(date.getFullYear(), 0, 0);
-  const diff = date.getTime() - start.getTime();
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const diff = date.getTime() - start;
   const oneDay = 1000 * 60 * 60 * 24;
   const day = Math.floor(diff / oneDay);
   return String(day).padStart(3, '0');
 }
 
 /**
- * Format date as YYYYMMDD
+ * Format the UTC date as YYYYMMDD
  */
 export function formatYYYYMMDD(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
   return `${year}${month}${day}`;
 }
 
+/**
+ * Midnight UTC of a date's UTC day
+ */
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
 /**
  * Find nearest latitude grid index
  * GLDAS grid: -60° to 90° at 0.25° resolution = 600 points
  */
-function findNearestLatIndex(lat: number): number {
-  const minLat = -59.875;
-  const resolution = 0.25;
-  const index = Math.round((lat - minLat) / resolution);
-  return Math.max(0, Math.min(599, index));
+function findNearestLatIndex(lat: number, grid: DatasetGrid): number {
+  const index = Math.round((lat - grid.latMin) / grid.latResolution);
+  return Math.max(0, Math.min(grid.latCount - 1, index));
 }
 
 /**
  * Find nearest longitude grid index
  * GLDAS grid: -180° to 180° at 0.25° resolution = 1440 points
  */
-function findNearestLonIndex(lon: number): number {
-  const minLon = -179.875;
-  const resolution = 0.25;
-  const index = Math.round((lon - minLon) / resolution);
-  return Math.max(0, Math.min(1439, index));
+function findNearestLonIndex(lon: number, grid: DatasetGrid): number {
+  const index = Math.round((lon - grid.lonMin) / grid.lonResolution);
+  return Math.max(0, Math.min(grid.lonCount - 1, index));
+}
+
+/**
+ * Get a dataset's OPeNDAP access details, failing if it has none
+ */
+function requireOpendap(dataset: DatasetDefinition): NonNullable<DatasetDefinition['opendap']> {
+  if (!dataset.opendap) {
+    throw new Error(`${dataset.id} is not available through OPeNDAP`);
+  }
+  return dataset.opendap;
+}
+
+/**
+ * 3×3 grid window (clamped to the grid edges) around the nearest cell
+ */
+function getGridWindow(grid: DatasetGrid, lat: number, lon: number): {
+  latStart: number;
+  latEnd: number;
+  lonStart: number;
+  lonEnd: number;
+} {
+  const latIndex = findNearestLatIndex(lat, grid);
+  const lonIndex = findNearestLonIndex(lon, grid);
+
+  return {
+    latStart: Math.max(0, latIndex - 1),
+    latEnd: Math.min(grid.latCount - 1, latIndex + 1),
+    lonStart: Math.max(0, lonIndex - 1),
+    lonEnd: Math.min(grid.lonCount - 1, lonIndex + 1)
+  };
+}
+
+/**
+ * Hours of the day at which a dataset has a time step
+ * (e.g. 0, 3, 6 … 21 for 3-hourly GLDAS)
+ */
+function getTimeStepHours(dataset: DatasetDefinition): number[] {
+  const hours: number[] = [];
+  for (let hour = 0; hour < 24; hour += dataset.resolution.temporalHours) {
+    hours.push(hour);
+  }
+  return hours;
 }
 
 // ============================================================================
@@ -82,143 +140,196 @@ export function buildGLDASUrlBinary(
   lat: number,
   lon: number
 ): string {
-  const year = date.getFullYear();
-  const doy = getDayOfYear(date);
-  const dateStr = formatYYYYMMDD(date);
-  const hourStr = String(hour).padStart(2, '0') + '00';
-  
-  const baseUrl = 'https://hydro1.gesdisc.eosdis.nasa.gov/opendap/GLDAS/GLDAS_NOAH025_3H.2.1';
-  const filename = `GLDAS_NOAH025_3H.A${dateStr}.${hourStr}.021.nc4`;
-  
-  const latIndex = findNearestLatIndex(lat);
-  const lonIndex = findNearestLonIndex(lon);
+  const dataset = datasetRegistry.require(GLDAS_NOAH025_3H);
+  const opendap = requireOpendap(dataset);
+  const { latStart, latEnd, lonStart, lonEnd } = getGridWindow(opendap.grid, lat, lon);
   
-  const latStart = Math.max(0, latIndex - 1);
-  const latEnd = Math.min(599, latIndex + 1);
-  const lonStart = Math.max(0, lonIndex - 1);
-  const lonEnd = Math.min(1439, lonIndex + 1);
-  
-  // ALL 36 GLDAS NOAH VARIABLES (complete list from official documentation)
+  // ALL registered GLDAS NOAH variables (36, in registry category order),
+  // followed by the coordinates (must be at end)
   const constraints = [
-    // ========================================================================
-    // ENERGY FLUXES (5 variables)
-    // ========================================================================
-    `Swnet_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Net shortwave radiation (W/m²)
-    `Lwnet_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Net longwave radiation (W/m²)
-    `Qle_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,        // Latent heat flux (W/m²)
-    `Qh_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,         // Sensible heat flux (W/m²)
-    `Qg_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,         // Ground heat flux (W/m²)
-    
-    // ========================================================================
-    // WATER BALANCE (6 variables)
-    // ========================================================================
-    `Snowf_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Snow precipitation rate (kg/m²/s)
-    `Rainf_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Rain precipitation rate (kg/m²/s)
-    `Evap_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,       // Evapotranspiration (kg/m²/s)
-    `Qs_acc[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,          // Surface runoff (kg/m²)
-    `Qsb_acc[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,         // Subsurface runoff (kg/m²)
-    `Qsm_acc[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,         // Snow melt (kg/m²)
-    
-    // ========================================================================
-    // SURFACE PROPERTIES (4 variables)
-    // ========================================================================
-    `AvgSurfT_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // Surface skin temperature (K)
-    `Albedo_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,     // Albedo (%)
-    `SWE_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,        // Snow water equivalent (kg/m²)
-    `SnowDepth_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,  // Snow depth (m)
-    
-    // ========================================================================
-    // SOIL MOISTURE (4 layers)
-    // ========================================================================
-    `SoilMoi0_10cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,    // 0-10cm soil moisture (kg/m²)
-    `SoilMoi10_40cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // 10-40cm soil moisture (kg/m²)
-    `SoilMoi40_100cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,  // 40-100cm soil moisture (kg/m²)
-    `SoilMoi100_200cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`, // 100-200cm soil moisture (kg/m²)
-    
-    // ========================================================================
-    // SOIL TEMPERATURE (4 layers)
-    // ========================================================================
-    `SoilTMP0_10cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,    // 0-10cm soil temp (K)
-    `SoilTMP10_40cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // 10-40cm soil temp (K)
-    `SoilTMP40_100cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,  // 40-100cm soil temp (K)
-    `SoilTMP100_200cm_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`, // 100-200cm soil temp (K)
-    
-    // ========================================================================
-    // EVAPORATION COMPONENTS (4 variables)
-    // ========================================================================
-    `PotEvap_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,    // Potential evaporation (W/m²)
-    `ECanop_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,     // Canopy evaporation (W/m²)
-    `TVeg_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,       // Transpiration (W/m²)
-    `ESoil_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Bare soil evaporation (W/m²)
-    
-    // ========================================================================
-    // OTHER LAND SURFACE (3 variables)
-    // ========================================================================
-    `RootMoist_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,  // Root zone soil moisture (kg/m²)
-    `CanopInt_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // Canopy water storage (kg/m²)
-    `ACond_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,      // Aerodynamic conductance (m/s)
-    
-    // ========================================================================
-    // FORCING VARIABLES (7 atmospheric inputs)
-    // ========================================================================
-    `Wind_f_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,     // Wind speed (m/s)
-    `Rainf_f_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,    // Total precipitation forcing (kg/m²/s)
-    `Tair_f_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,     // Air temperature (K)
-    `Qair_f_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,     // Specific humidity (kg/kg)
-    `Psurf_f_inst[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,    // Surface pressure (Pa)
-    `SWdown_f_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // Downward shortwave radiation (W/m²)
-    `LWdown_f_tavg[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`,   // Downward longwave radiation (W/m²)
-    
-    // ========================================================================
-    // COORDINATES (must be at end)
-    // ========================================================================
+    ...dataset.variables.map(
+      variable => `${variable.name}[0:0][${latStart}:${latEnd}][${lonStart}:${lonEnd}]`
+    ),
     `lat[${latStart}:${latEnd}]`,
     `lon[${lonStart}:${lonEnd}]`,
     `time[0:0]`
   ].join(',');
   
   // CRITICAL: Use .dods extension for binary NetCDF format
-  const url = `${baseUrl.replace('opendap', 'dods')}/${year}/${doy}/${filename}?${constraints}`;
+  const url = `${opendap.baseUrl.replace('opendap', 'dods')}/${opendap.granulePath(date, hour)}?${constraints}`;
 
   
   console.log(`🎯 Binary NetCDF URL for (${lat}, ${lon}):`);
   console.log(`   Format: DODS binary (NetCDF-4)`);
-  console.log(`   Variables: 36 (ALL GLDAS NOAH variables)`);
+  console.log(`   Variables: ${dataset.variables.length} (ALL GLDAS NOAH variables)`);
   console.log(`   Grid: ${(latEnd - latStart + 1)} × ${(lonEnd - lonStart + 1)} points`);
   
   return url;
 }
 
 /**
- * Generate binary format URLs for date range
+ * One GLDAS granule request: URL plus the identity used to cache it
  */
-export function getUrlsForDateRangeBinary(
+export interface GranuleRequest {
+  url: string;
+  dataset: string;
+  /** Time step (UTC) of the granule */
+  timestamp: Date;
+  /** Grid index window, e.g. "401:403,422:424" */
+  gridWindow: string;
+}
+
+/**
+ * Cache identity of the 3×3 window around a point ("lat0:lat1,lon0:lon1"
+ * grid indices), shared by per-granule and time-range requests
+ */
+export function getGLDASGridWindowKey(lat: number, lon: number): string {
+  const opendap = requireOpendap(datasetRegistry.require(GLDAS_NOAH025_3H));
+  const { latStart, latEnd, lonStart, lonEnd } = getGridWindow(opendap.grid, lat, lon);
+  return `${latStart}:${latEnd},${lonStart}:${lonEnd}`;
+}
+
+/**
+ * Generate binary format granule requests for a date range
+ */
+export function getGranulesForDateRangeBinary(
   startDate: Date,
   endDate: Date,
   lat: number,
   lon: number
-): string[] {
-  const urls: string[] = [];
-  const current = new Date(startDate);
+): GranuleRequest[] {
+  const granules: GranuleRequest[] = [];
+  const current = startOfUTCDay(startDate);
+  const gridWindow = getGLDASGridWindowKey(lat, lon);
   
   console.log(`📅 Generating binary NetCDF URLs for ${lat}°N, ${lon}°E`);
   console.log(`   Format: DODS binary (all 36 variables)`);
   console.log(`   Date range: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
   
+  const hours = getTimeStepHours(datasetRegistry.require(GLDAS_NOAH025_3H)); // 3-hourly data
+  
   while (current <= endDate) {
-    const hours = [0, 3, 6, 9, 12, 15, 18, 21]; // 3-hourly data
-    
     for (const hour of hours) {
-      urls.push(buildGLDASUrlBinary(new Date(current), hour, lat, lon));
+      granules.push({
+        url: buildGLDASUrlBinary(new Date(current), hour, lat, lon),
+        dataset: GLDAS_NOAH025_3H,
+        timestamp: new Date(current.getTime() + hour * 60 * 60 * 1000),
+        gridWindow
+      });
     }
     
-    current.setDate(current.getDate() + 1);
+    current.setUTCDate(current.getUTCDate() + 1);
   }
   
-  console.log(`   Total files: ${urls.length}`);
-  console.log(`   Estimated download time: ${urls.length * 2}-${urls.length * 5} seconds`);
+  console.log(`   Total files: ${granules.length}`);
+  console.log(`   Estimated download time: ${granules.length * 2}-${granules.length * 5} seconds`);
   
-  return urls;
+  return granules;
+}
+
+/**
+ * Generate binary format URLs for date range
+ */
+export function getUrlsForDateRangeBinary(
+  startDate: Date,
+  endDate: Date,
+  lat: number,
+  lon: number
+): string[] {
+  return getGranulesForDateRangeBinary(startDate, endDate, lat, lon).map(granule => granule.url);
+}
+
+// ============================================================================
+// TIME-RANGE (AGGREGATED) REQUESTS - ONE URL PER DATE RANGE
+// ============================================================================
+
+/**
+ * Aggregation time indices (inclusive) covering two calendar dates, and
+ * the time of each step
+ *
+ * Timestamps of an aggregated response should be taken from here: GrADS
+ * "days since 1-1-1" axes do not follow the proleptic Gregorian calendar
+ * used by Date, so decoded times can be off by days.
+ *
+ * @returns Index range, or null if the product has no aggregation or the
+ *          range ends before the aggregation starts
+ */
+export function getGLDASTimeIndexRange(
+  startDate: Date,
+  endDate: Date
+): { timeStart: number; timeEnd: number; times: Date[] } | null {
+  const dataset = datasetRegistry.require(GLDAS_NOAH025_3H);
+  const aggregation = requireOpendap(dataset).aggregation;
+
+  if (!aggregation) return null;
+
+  const stepMs = dataset.resolution.temporalHours * 60 * 60 * 1000;
+  const hours = getTimeStepHours(dataset);
+  const rangeStart = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate(), hours[0]);
+  const rangeEnd = Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth(), endDate.getUTCDate(), hours[hours.length - 1]);
+
+  const origin = aggregation.firstTimeStep.getTime();
+  const timeStart = Math.max(0, Math.ceil((rangeStart - origin) / stepMs));
+  const timeEnd = Math.floor((rangeEnd - origin) / stepMs);
+
+  if (timeEnd < timeStart) return null;
+
+  const times: Date[] = [];
+  for (let index = timeStart; index <= timeEnd; index++) {
+    times.push(new Date(origin + index * stepMs));
+  }
+
+  return { timeStart, timeEnd, times };
+}
+
+/**
+ * Build a single OPeNDAP URL returning every time step between two dates
+ * for the 3×3 window, using the dataset's time-aggregated endpoint
+ *
+ * Replaces the 8 × days per-granule URLs from getUrlsForDateRangeBinary
+ * with one request. The response is NetCDF-3 (".nc"), which the proxy
+ * decodes like a single granule. Dates are read as UTC days, matching
+ * the granule file names.
+ *
+ * @returns URL, or null if the product has no aggregation (callers fall
+ *          back to per-granule URLs)
+ *
+ * @example
+ * const url = buildGLDASTimeRangeUrl(new Date(2023, 6, 1), new Date(2023, 6, 7), 40.71, -74.01);
+ * // → .../dods/GLDAS_NOAH025_3H.2.1.nc?swnet_tavg[68655:68710][401:403][422:424],...
+ */
+export function buildGLDASTimeRangeUrl(
+  startDate: Date,
+  endDate: Date,
+  lat: number,
+  lon: number
+): string | null {
+  const dataset = datasetRegistry.require(GLDAS_NOAH025_3H);
+  const opendap = requireOpendap(dataset);
+  const aggregation = opendap.aggregation;
+  const range = getGLDASTimeIndexRange(startDate, endDate);
+
+  if (!aggregation || !range) return null;
+
+  const { timeStart, timeEnd } = range;
+  const { latStart, latEnd, lonStart, lonEnd } = getGridWindow(opendap.grid, lat, lon);
+  const time = `[${timeStart}:${timeEnd}]`;
+
+  const constraints = [
+    ...dataset.variables.map(variable => {
+      const name = aggregation.lowercaseNames ? variable.name.toLowerCase() : variable.name;
+      return `${name}${time}[${latStart}:${latEnd}][${lonStart}:${lonEnd}]`;
+    }),
+    `lat[${latStart}:${latEnd}]`,
+    `lon[${lonStart}:${lonEnd}]`,
+    `time${time}`
+  ].join(',');
+
+  console.log(`🎯 Time-range URL for (${lat}, ${lon}):`);
+  console.log(`   Time steps: ${timeEnd - timeStart + 1} (indices ${timeStart}-${timeEnd})`);
+  console.log(`   Grid: ${(latEnd - latStart + 1)} × ${(lonEnd - lonStart + 1)} points`);
+
+  return `${aggregation.url}.nc?${constraints}`;
 }
 
 // ============================================================================
@@ -235,21 +346,9 @@ export function buildGLDASUrl(
   lat: number, 
   lon: number
 ): string {
-  const year = date.getFullYear();
-  const doy = getDayOfYear(date);
-  const dateStr = formatYYYYMMDD(date);
-  const hourStr = String(hour).padStart(2, '0') + '00';
-  
-  const baseUrl = 'https://hydro1.gesdisc.eosdis.nasa.gov/opendap/GLDAS/GLDAS_NOAH025_3H.2.1';
-  const filename = `GLDAS_NOAH025_3H.A${dateStr}.${hourStr}.021.nc4`;
-  
-  const latIndex = findNearestLatIndex(lat);
-  const lonIndex = findNearestLonIndex(lon);
-  
-  const latStart = Math.max(0, latIndex - 1);
-  const latEnd = Math.min(599, latIndex + 1);
-  const lonStart = Math.max(0, lonIndex - 1);
-  const lonEnd = Math.min(1439, lonIndex + 1);
+  const dataset = datasetRegistry.require(GLDAS_NOAH025_3H);
+  const opendap = requireOpendap(dataset);
+  const { latStart, latEnd, lonStart, lonEnd } = getGridWindow(opendap.grid, lat, lon);
   
   // LIMITED VARIABLES (ASCII format only returns subset)
   const constraints = [
@@ -276,7 +375,7 @@ export function buildGLDASUrl(
   ].join(',');
   
   // ASCII format
-  const url = `${baseUrl}/${year}/${doy}/${filename}.ascii?${constraints}`;
+  const url = `${opendap.baseUrl}/${opendap.granulePath(date, hour)}.ascii?${constraints}`;
   
   console.log(`🎯 ASCII URL for (${lat}, ${lon}):`);
   console.log(`   Format: ASCII text (limited variables)`);
@@ -295,19 +394,19 @@ export function getUrlsForDateRange(
   lon: number
 ): string[] {
   const urls: string[] = [];
-  const current = new Date(startDate);
+  const current = startOfUTCDay(startDate);
   
   console.log(`📅 Generating ASCII URLs for ${lat}°N, ${lon}°E`);
   console.log(`   Date range: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
   
+  const hours = getTimeStepHours(datasetRegistry.require(GLDAS_NOAH025_3H));
+  
   while (current <= endDate) {
-    const hours = [0, 3, 6, 9, 12, 15, 18, 21];
-    
     for (const hour of hours) {
       urls.push(buildGLDASUrl(new Date(current), hour, lat, lon));
     }
     
-    current.setDate(current.getDate() + 1);
+    current.setUTCDate(current.getUTCDate() + 1);
   }
   
   console.log(`   Total files: ${urls.length}`);
@@ -322,10 +421,12 @@ export function validateCoordinates(lat: number, lon: number): {
   valid: boolean;
   message?: string;
 } {
-  if (lat < -60 || lat > 90) {
+  const coverage = datasetRegistry.require(GLDAS_NOAH025_3H).spatialCoverage;
+  
+  if (lat < coverage.south || lat > coverage.north) {
     return {
       valid: false,
-      message: `Latitude ${lat}° is outside GLDAS coverage (-60° to 90°)`
+      message: `Latitude ${lat}° is outside GLDAS coverage (${coverage.south}° to ${coverage.north}°)`
     };
   }
   
@@ -0,0 +1,175 @@
+/**
+ * ============================================================================
+ * TIME SERIES GAP DETECTION
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Compares the timestamps a variable actually has against the timestamps
+ * its source dataset should provide (every 3 hours for GLDAS, every hour
+ * for NLDAS) over a requested range, and reports completeness, missing
+ * intervals and the longest gap.
+ *
+ * ALIGNMENT:
+ * Expected steps are anchored at 00:00 UTC of the range's first day
+ * (GLDAS 00Z, 03Z, … 21Z; NLDAS every hour). Observed timestamps are
+ * matched to the nearest step, so small offsets (e.g. time-averaged
+ * fields stamped mid-interval) still count as present.
+ *
+ * ============================================================================
+ */
+
+import { DateRange, WeatherDataset } from '../types/weather';
+import { datasetRegistry } from '../services/datasetRegistry';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * Consecutive missing time steps (start and end are the first and last
+ * missing steps)
+ */
+export interface GapInterval {
+  start: Date;
+  end: Date;
+  steps: number;
+}
+
+/**
+ * Gap analysis of one variable over a range
+ */
+export interface GapSummary {
+  stepHours: number;
+  expected: number;
+  present: number;
+  /** present / expected, 0-100 */
+  completeness: number;
+  missingIntervals: GapInterval[];
+  longestGapHours: number;
+}
+
+/**
+ * Gap analysis plus identification of the variable and its fill values
+ */
+export interface VariableQuality extends GapSummary {
+  variable: string;
+  /** Dataset the variable came from, if known */
+  source?: string;
+  /** Samples the source reported as fill / missing values */
+  fillCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Step used when a variable's source dataset is unknown (GLDAS)
+ */
+const DEFAULT_STEP_HOURS = 3;
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * Find missing time steps of a variable over a range
+ *
+ * @param times - Timestamps with a valid value
+ * @param range - Requested range (inclusive)
+ * @param stepHours - Dataset time step
+ * @returns Completeness, missing intervals and longest gap
+ *
+ * @example
+ * const gaps = detectGaps(series.map(p => p.date), { start, end }, 3);
+ * console.log(`${gaps.completeness.toFixed(1)}% complete, longest gap ${gaps.longestGapHours}h`);
+ */
+export function detectGaps(times: Date[], range: DateRange, stepHours: number): GapSummary {
+  const stepMs = stepHours * HOUR_MS;
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+
+  const anchor = Date.UTC(range.start.getUTCFullYear(), range.start.getUTCMonth(), range.start.getUTCDate());
+  const firstSlot = Math.ceil((start - anchor) / stepMs);
+  const lastSlot = Math.floor((end - anchor) / stepMs);
+  const expected = Math.max(0, lastSlot - firstSlot + 1);
+
+  const present = new Set<number>();
+  times.forEach(time => {
+    const slot = Math.round((time.getTime() - anchor) / stepMs);
+    if (slot >= firstSlot && slot <= lastSlot) present.add(slot);
+  });
+
+  const missingIntervals: GapInterval[] = [];
+  let runStart: number | null = null;
+
+  for (let slot = firstSlot; slot <= lastSlot + 1; slot++) {
+    const missing = slot <= lastSlot && !present.has(slot);
+    if (missing && runStart === null) {
+      runStart = slot;
+    } else if (!missing && runStart !== null) {
+      missingIntervals.push({
+        start: new Date(anchor + runStart * stepMs),
+        end: new Date(anchor + (slot - 1) * stepMs),
+        steps: slot - runStart
+      });
+      runStart = null;
+    }
+  }
+
+  const longestSteps = missingIntervals.reduce((max, gap) => Math.max(max, gap.steps), 0);
+
+  return {
+    stepHours,
+    expected,
+    present: present.size,
+    completeness: expected > 0 ? (present.size / expected) * 100 : 0,
+    missingIntervals,
+    longestGapHours: longestSteps * stepHours
+  };
+}
+
+/**
+ * Time step of a registered dataset, in hours
+ */
+export function getStepHours(datasetId?: string): number {
+  return (datasetId && datasetRegistry.get(datasetId)?.resolution.temporalHours) || DEFAULT_STEP_HOURS;
+}
+
+/**
+ * Gap analysis of every variable in a single-cell WeatherDataset
+ *
+ * Uses the source and fill count recorded in each variable's metadata
+ * (see timeSeriesToDataset) to pick the expected time step.
+ *
+ * @param dataset - Dataset shaped [time][lat][lon]; cell [0][0] is analysed
+ * @param range - Requested range (defaults to the dataset's temporal coverage)
+ */
+export function assessDatasetGaps(
+  dataset: WeatherDataset,
+  range: DateRange = dataset.metadata.temporalCoverage
+): VariableQuality[] {
+  const times = dataset.data.coordinates.time;
+
+  return dataset.metadata.variables.map(variable => {
+    const cube = dataset.data.variables[variable.name] ?? [];
+    const validTimes = times.filter((_, index) => {
+      const value = cube[index]?.[0]?.[0];
+      return value !== undefined && !isNaN(value);
+    });
+
+    return {
+      variable: variable.name,
+      source: variable.source,
+      fillCount: variable.fillCount ?? 0,
+      ...detectGaps(validTimes, range, getStepHours(variable.source))
+    };
+  });
+}
+
+/**
+ * Overall completeness (0-100) weighted by expected steps
+ */
+export function overallCompleteness(reports: GapSummary[]): number {
+  const expected = reports.reduce((sum, report) => sum + report.expected, 0);
+  const present = reports.reduce((sum, report) => sum + report.present, 0);
+  return expected > 0 ? (present / expected) * 100 : 0;
+}
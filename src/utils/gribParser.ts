@@ -0,0 +1,694 @@
+/**
+ * ============================================================================
+ * GRIB2 BINARY DATA PARSER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Decodes GRIB edition 2 files (NCEP GFS, ECMWF ERA5 / IFS) into regular
+ * [time][lat][lon] grids, the same shape netcdfParser produces for GLDAS.
+ *
+ * SUPPORTED:
+ * - Sections 0-8, including repeated fields within one message
+ * - Grid template 3.0 (regular latitude/longitude)
+ * - Data templates 5.0 (simple packing), 5.2 (complex packing) and
+ *   5.3 (complex packing with spatial differencing)
+ * - Bitmaps (section 6), including "use previous bitmap"
+ *
+ * NOT SUPPORTED:
+ * - GRIB edition 1, JPEG2000 (5.40) and PNG (5.41) packing, Gaussian,
+ *   rotated and polar-stereographic grids. Fields using them are skipped.
+ *
+ * MESSAGE LAYOUT (GRIB2):
+ * 0 Indicator ("GRIB", discipline, edition, total length)
+ * 1 Identification (centre, reference time)
+ * 2 Local use (optional)
+ * 3 Grid definition
+ * 4 Product definition (parameter, level, forecast time)
+ * 5 Data representation (packing)
+ * 6 Bitmap
+ * 7 Data
+ * 8 End ("7777")
+ *
+ * ============================================================================
+ */
+
+/**
+ * A GRIB2 parameter decoded onto a [time][lat][lon] grid
+ */
+export interface DecodedGRIBVariable {
+  /** Short name plus level, e.g. TMP_2m, UGRD_10m, HGT_500hPa */
+  name: string;
+  longName: string;
+  units: string;
+  /** Values in native units; missing / masked points are NaN */
+  cube: number[][][];
+}
+
+/**
+ * Contents of a GRIB2 file decoded into regular grids
+ */
+export interface DecodedGRIBGrid {
+  latitudes: number[];
+  longitudes: number[];
+  times: Date[];
+  variables: DecodedGRIBVariable[];
+  /** Originating centre, e.g. "NCEP" or "ECMWF" */
+  centre: string;
+}
+
+/**
+ * Regular lat/lon grid from template 3.0
+ */
+interface LatLonGrid {
+  ni: number;
+  nj: number;
+  latitudes: number[];
+  longitudes: number[];
+}
+
+/**
+ * One decoded field (a single parameter, level and time)
+ */
+interface GRIBField {
+  name: string;
+  longName: string;
+  units: string;
+  validTime: Date;
+  grid: LatLonGrid;
+  /** Values in file order (row by row), NaN where masked */
+  values: number[];
+}
+
+/**
+ * Data representation (section 5) parameters
+ */
+interface DataRepresentation {
+  template: number;
+  dataPoints: number;
+  referenceValue: number;
+  binaryScale: number;
+  decimalScale: number;
+  bitsPerValue: number;
+  // Complex packing (5.2 / 5.3)
+  missingManagement: number;
+  groupCount: number;
+  groupWidthReference: number;
+  groupWidthBits: number;
+  groupLengthReference: number;
+  groupLengthIncrement: number;
+  lastGroupLength: number;
+  groupLengthBits: number;
+  spatialDifferenceOrder: number;
+  extraDescriptorOctets: number;
+}
+
+/**
+ * Parameter names for discipline 0 (meteorological), keyed "category/number"
+ */
+const METEOROLOGICAL_PARAMETERS: Record<string, { name: string; longName: string; units: string }> = {
+  '0/0': { name: 'TMP', longName: 'Temperature', units: 'K' },
+  '0/6': { name: 'DPT', longName: 'Dew point temperature', units: 'K' },
+  '1/0': { name: 'SPFH', longName: 'Specific humidity', units: 'kg kg-1' },
+  '1/1': { name: 'RH', longName: 'Relative humidity', units: '%' },
+  '1/7': { name: 'PRATE', longName: 'Precipitation rate', units: 'kg m-2 s-1' },
+  '1/8': { name: 'APCP', longName: 'Total precipitation', units: 'kg m-2' },
+  '2/1': { name: 'WIND', longName: 'Wind speed', units: 'm s-1' },
+  '2/2': { name: 'UGRD', longName: 'U-component of wind', units: 'm s-1' },
+  '2/3': { name: 'VGRD', longName: 'V-component of wind', units: 'm s-1' },
+  '2/22': { name: 'GUST', longName: 'Wind speed (gust)', units: 'm s-1' },
+  '3/0': { name: 'PRES', longName: 'Pressure', units: 'Pa' },
+  '3/1': { name: 'PRMSL', longName: 'Pressure reduced to MSL', units: 'Pa' },
+  '3/5': { name: 'HGT', longName: 'Geopotential height', units: 'gpm' },
+  '6/1': { name: 'TCDC', longName: 'Total cloud cover', units: '%' }
+};
+
+/**
+ * Originating centres (section 1, octets 6-7)
+ */
+const CENTRES: Record<number, string> = {
+  7: 'NCEP',
+  34: 'JMA',
+  54: 'CMC',
+  78: 'DWD',
+  85: 'Meteo-France',
+  98: 'ECMWF'
+};
+
+/**
+ * Milliseconds per forecast time unit (code table 4.4)
+ */
+const TIME_UNIT_MS: Record<number, number> = {
+  0: 60 * 1000,
+  1: 60 * 60 * 1000,
+  2: 24 * 60 * 60 * 1000,
+  10: 3 * 60 * 60 * 1000,
+  11: 6 * 60 * 60 * 1000,
+  12: 12 * 60 * 60 * 1000,
+  13: 1000
+};
+
+/**
+ * Octet where the end of the overall time interval starts, for
+ * statistically processed product templates (accumulations, averages)
+ */
+const INTERVAL_END_OCTET: Record<number, number> = {
+  8: 35,
+  11: 38
+};
+
+/**
+ * Decode every supported field in a GRIB2 file onto one regular grid
+ *
+ * Fields are grouped by parameter and level; the time axis is the sorted
+ * set of valid times. Fields on a different grid from the first one are
+ * skipped.
+ *
+ * @param binaryData - Raw file contents
+ * @returns Decoded coordinates and variable cubes
+ */
+export function decodeGRIB2Grid(binaryData: ArrayBuffer): DecodedGRIBGrid {
+  const { fields, centre } = decodeGRIB2Fields(binaryData);
+
+  if (fields.length === 0) {
+    throw new Error('No supported GRIB2 fields found (regular lat/lon, simple or complex packing)');
+  }
+
+  const grid = fields[0].grid;
+  const sameGrid = fields.filter(field =>
+    field.grid.ni === grid.ni &&
+    field.grid.nj === grid.nj &&
+    field.grid.latitudes[0] === grid.latitudes[0] &&
+    field.grid.longitudes[0] === grid.longitudes[0]
+  );
+
+  if (sameGrid.length < fields.length) {
+    console.warn(`   ⚠️ Skipped ${fields.length - sameGrid.length} GRIB2 fields on a different grid`);
+  }
+
+  const times = Array.from(new Set(sameGrid.map(field => field.validTime.getTime())))
+    .sort((a, b) => a - b);
+  const timeIndex = new Map(times.map((time, index) => [time, index]));
+
+  const variables = new Map<string, DecodedGRIBVariable>();
+
+  for (const field of sameGrid) {
+    let variable = variables.get(field.name);
+    if (!variable) {
+      variable = {
+        name: field.name,
+        longName: field.longName,
+        units: field.units,
+        cube: times.map(() =>
+          Array.from({ length: grid.nj }, () => new Array(grid.ni).fill(NaN))
+        )
+      };
+      variables.set(field.name, variable);
+    }
+
+    const plane = variable.cube[timeIndex.get(field.validTime.getTime())!];
+    for (let j = 0; j < grid.nj; j++) {
+      for (let i = 0; i < grid.ni; i++) {
+        plane[j][i] = field.values[j * grid.ni + i];
+      }
+    }
+  }
+
+  console.log(`✅ GRIB2 decoded: ${variables.size} variables, ${times.length} × ${grid.nj} × ${grid.ni}`);
+
+  return {
+    latitudes: grid.latitudes,
+    longitudes: grid.longitudes,
+    times: times.map(time => new Date(time)),
+    variables: Array.from(variables.values()),
+    centre
+  };
+}
+
+// ============================================================================
+// MESSAGE / SECTION PARSING
+// ============================================================================
+
+/**
+ * Walk every message in the file and decode its fields
+ */
+function decodeGRIB2Fields(binaryData: ArrayBuffer): { fields: GRIBField[]; centre: string } {
+  const bytes = new Uint8Array(binaryData);
+  const view = new DataView(binaryData);
+  const fields: GRIBField[] = [];
+  let centre = 'unknown centre';
+  let offset = 0;
+
+  while (offset + 16 <= bytes.length) {
+    // Section 0: locate the next "GRIB" indicator
+    if (!(bytes[offset] === 0x47 && bytes[offset + 1] === 0x52 && bytes[offset + 2] === 0x49 && bytes[offset + 3] === 0x42)) {
+      offset++;
+      continue;
+    }
+
+    const edition = bytes[offset + 7];
+    const totalLength = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+
+    if (edition !== 2) {
+      console.warn(`   ⚠️ Skipping GRIB edition ${edition} message (only GRIB2 is supported)`);
+      offset += edition === 1 ? (bytes[offset + 4] << 16) | (bytes[offset + 5] << 8) | bytes[offset + 6] : 16;
+      continue;
+    }
+
+    const discipline = bytes[offset + 6];
+    const messageEnd = offset + totalLength;
+    let position = offset + 16;
+
+    let referenceTime = new Date(0);
+    let grid: LatLonGrid | null = null;
+    let product: { name: string; longName: string; units: string; validTime: Date } | null = null;
+    let representation: DataRepresentation | null = null;
+    let bitmap: Uint8Array | null = null;
+    let previousBitmap: Uint8Array | null = null;
+
+    while (position + 4 <= messageEnd) {
+      // Section 8: "7777"
+      if (view.getUint32(position) === 0x37373737) break;
+
+      const length = view.getUint32(position);
+      const section = bytes[position + 4];
+      // octet(n) converts a 1-based section octet number to a byte offset
+      const octet = (n: number) => position + n - 1;
+
+      if (length < 5) {
+        throw new Error(`Corrupt GRIB2 message: section ${section} has length ${length}`);
+      }
+
+      switch (section) {
+        case 1: {
+          centre = CENTRES[view.getUint16(octet(6))] ?? `centre ${view.getUint16(octet(6))}`;
+          referenceTime = new Date(Date.UTC(
+            view.getUint16(octet(13)),
+            bytes[octet(15)] - 1,
+            bytes[octet(16)],
+            bytes[octet(17)],
+            bytes[octet(18)],
+            bytes[octet(19)]
+          ));
+          break;
+        }
+        case 3:
+          grid = parseGridDefinition(bytes, view, position);
+          break;
+        case 4:
+          product = parseProductDefinition(bytes, view, position, discipline, referenceTime);
+          break;
+        case 5:
+          representation = parseDataRepresentation(bytes, view, position);
+          break;
+        case 6: {
+          const indicator = bytes[octet(6)];
+          if (indicator === 0) {
+            bitmap = bytes.subarray(octet(7), position + length);
+            previousBitmap = bitmap;
+          } else if (indicator === 254) {
+            bitmap = previousBitmap;
+          } else {
+            bitmap = null;
+          }
+          break;
+        }
+        case 7: {
+          if (grid && product && representation) {
+            try {
+              const packed = bytes.subarray(octet(6), position + length);
+              const values = applyBitmap(unpackData(packed, representation), bitmap, grid.ni * grid.nj);
+              fields.push({ ...product, grid, values });
+            } catch (error) {
+              console.warn(`   ⚠️ Skipping ${product.name}:`, error instanceof Error ? error.message : error);
+            }
+          } else if (product) {
+            console.warn(`   ⚠️ Skipping ${product.name}: unsupported grid or packing`);
+          }
+          break;
+        }
+      }
+
+      position += length;
+    }
+
+    offset = messageEnd;
+  }
+
+  return { fields, centre };
+}
+
+/**
+ * Section 3: grid definition (only template 3.0, regular lat/lon)
+ */
+function parseGridDefinition(bytes: Uint8Array, view: DataView, position: number): LatLonGrid | null {
+  const octet = (n: number) => position + n - 1;
+  const template = view.getUint16(octet(13));
+
+  if (template !== 0) {
+    console.warn(`   ⚠️ Unsupported GRIB2 grid template 3.${template}`);
+    return null;
+  }
+
+  const ni = view.getUint32(octet(31));
+  const nj = view.getUint32(octet(35));
+  const basicAngle = view.getUint32(octet(39));
+  const subdivisions = view.getUint32(octet(43));
+  const unit = basicAngle === 0 || basicAngle === 0xFFFFFFFF || subdivisions === 0xFFFFFFFF
+    ? 1e-6
+    : basicAngle / subdivisions;
+
+  const la1 = readSignedInt(bytes, octet(47), 4) * unit;
+  const lo1 = readSignedInt(bytes, octet(51), 4) * unit;
+  const di = view.getUint32(octet(64)) * unit;
+  const dj = view.getUint32(octet(68)) * unit;
+  const scanningMode = bytes[octet(72)];
+
+  if (scanningMode & 0x30) {
+    console.warn(`   ⚠️ Unsupported GRIB2 scanning mode ${scanningMode}`);
+    return null;
+  }
+
+  // Bit 1: points scan in -i direction; bit 2: points scan in +j direction
+  const iStep = scanningMode & 0x80 ? -di : di;
+  const jStep = scanningMode & 0x40 ? dj : -dj;
+
+  return {
+    ni,
+    nj,
+    latitudes: Array.from({ length: nj }, (_, j) => roundCoordinate(la1 + j * jStep)),
+    longitudes: Array.from({ length: ni }, (_, i) => roundCoordinate(lo1 + i * iStep))
+  };
+}
+
+/**
+ * Section 4: product definition — parameter, level and valid time
+ */
+function parseProductDefinition(
+  bytes: Uint8Array,
+  view: DataView,
+  position: number,
+  discipline: number,
+  referenceTime: Date
+): { name: string; longName: string; units: string; validTime: Date } {
+  const octet = (n: number) => position + n - 1;
+  const template = view.getUint16(octet(8));
+  const category = bytes[octet(10)];
+  const number = bytes[octet(11)];
+
+  const parameter = discipline === 0 ? METEOROLOGICAL_PARAMETERS[`${category}/${number}`] : undefined;
+  const baseName = parameter?.name ?? `D${discipline}_C${category}_P${number}`;
+
+  // Forecast time (octets 18-22) and first fixed surface (23-28) share
+  // positions across the common analysis/forecast templates
+  const timeUnit = bytes[octet(18)];
+  const forecastTime = view.getUint32(octet(19));
+  const scaleFactor = bytes[octet(24)] === 0xFF ? 0 : readSignedInt(bytes, octet(24), 1);
+  const level = describeLevel(bytes[octet(23)], scaleFactor, view.getUint32(octet(25)));
+
+  let validTime = new Date(referenceTime.getTime() + forecastTime * (TIME_UNIT_MS[timeUnit] ?? TIME_UNIT_MS[1]));
+
+  const intervalEnd = INTERVAL_END_OCTET[template];
+  if (intervalEnd !== undefined) {
+    validTime = new Date(Date.UTC(
+      view.getUint16(octet(intervalEnd)),
+      bytes[octet(intervalEnd + 2)] - 1,
+      bytes[octet(intervalEnd + 3)],
+      bytes[octet(intervalEnd + 4)],
+      bytes[octet(intervalEnd + 5)],
+      bytes[octet(intervalEnd + 6)]
+    ));
+  }
+
+  return {
+    name: level ? `${baseName}_${level}` : baseName,
+    longName: parameter ? `${parameter.longName}${level ? ` (${level})` : ''}` : baseName,
+    units: parameter?.units ?? '',
+    validTime
+  };
+}
+
+/**
+ * Section 5: data representation
+ */
+function parseDataRepresentation(bytes: Uint8Array, view: DataView, position: number): DataRepresentation | null {
+  const octet = (n: number) => position + n - 1;
+  const template = view.getUint16(octet(10));
+
+  if (template !== 0 && template !== 2 && template !== 3) {
+    console.warn(`   ⚠️ Unsupported GRIB2 packing template 5.${template}`);
+    return null;
+  }
+
+  const complex = template === 2 || template === 3;
+
+  return {
+    template,
+    dataPoints: view.getUint32(octet(6)),
+    referenceValue: view.getFloat32(octet(12)),
+    binaryScale: readSignedInt(bytes, octet(16), 2),
+    decimalScale: readSignedInt(bytes, octet(18), 2),
+    bitsPerValue: bytes[octet(20)],
+    missingManagement: complex ? bytes[octet(23)] : 0,
+    groupCount: complex ? view.getUint32(octet(32)) : 0,
+    groupWidthReference: complex ? bytes[octet(36)] : 0,
+    groupWidthBits: complex ? bytes[octet(37)] : 0,
+    groupLengthReference: complex ? view.getUint32(octet(38)) : 0,
+    groupLengthIncrement: complex ? bytes[octet(42)] : 0,
+    lastGroupLength: complex ? view.getUint32(octet(43)) : 0,
+    groupLengthBits: complex ? bytes[octet(47)] : 0,
+    spatialDifferenceOrder: template === 3 ? bytes[octet(48)] : 0,
+    extraDescriptorOctets: template === 3 ? bytes[octet(49)] : 0
+  };
+}
+
+// ============================================================================
+// DATA UNPACKING
+// ============================================================================
+
+/**
+ * Unpack section 7 into physical values: Y = (R + X · 2^E) / 10^D
+ */
+function unpackData(packed: Uint8Array, rep: DataRepresentation): number[] {
+  const integers = rep.template === 0
+    ? unpackSimple(packed, rep)
+    : unpackComplex(packed, rep);
+
+  const binaryFactor = 2 ** rep.binaryScale;
+  const decimalFactor = 10 ** -rep.decimalScale;
+
+  return integers.map(x =>
+    isNaN(x) ? NaN : (rep.referenceValue + x * binaryFactor) * decimalFactor
+  );
+}
+
+/**
+ * Template 5.0: fixed-width packed integers
+ */
+function unpackSimple(packed: Uint8Array, rep: DataRepresentation): number[] {
+  if (rep.bitsPerValue === 0) {
+    return new Array(rep.dataPoints).fill(0);
+  }
+
+  const reader = new BitReader(packed);
+  const values = new Array<number>(rep.dataPoints);
+  for (let i = 0; i < rep.dataPoints; i++) {
+    values[i] = reader.read(rep.bitsPerValue);
+  }
+  return values;
+}
+
+/**
+ * Templates 5.2 / 5.3: grouped packing, optionally with spatial differencing
+ *
+ * Missing values (management 1 or 2) are returned as NaN.
+ */
+function unpackComplex(packed: Uint8Array, rep: DataRepresentation): number[] {
+  const reader = new BitReader(packed);
+
+  // Spatial differencing descriptors (5.3 only)
+  let firstValue = 0;
+  let secondValue = 0;
+  let minimumDifference = 0;
+  if (rep.template === 3 && rep.extraDescriptorOctets > 0) {
+    const bits = rep.extraDescriptorOctets * 8;
+    firstValue = reader.readSigned(bits);
+    if (rep.spatialDifferenceOrder === 2) secondValue = reader.readSigned(bits);
+    minimumDifference = reader.readSigned(bits);
+  }
+
+  const groups = rep.groupCount;
+
+  const references: number[] = [];
+  for (let g = 0; g < groups; g++) references.push(reader.read(rep.bitsPerValue));
+  reader.alignToByte();
+
+  const widths: number[] = [];
+  for (let g = 0; g < groups; g++) widths.push(rep.groupWidthReference + reader.read(rep.groupWidthBits));
+  reader.alignToByte();
+
+  const lengths: number[] = [];
+  for (let g = 0; g < groups; g++) {
+    lengths.push(rep.groupLengthReference + reader.read(rep.groupLengthBits) * rep.groupLengthIncrement);
+  }
+  if (groups > 0) lengths[groups - 1] = rep.lastGroupLength;
+  reader.alignToByte();
+
+  const primaryMissingReference = 2 ** rep.bitsPerValue - 1;
+  const secondaryMissingReference = 2 ** rep.bitsPerValue - 2;
+
+  const values: number[] = [];
+  for (let g = 0; g < groups; g++) {
+    const width = widths[g];
+    const reference = references[g];
+
+    for (let k = 0; k < lengths[g]; k++) {
+      if (width === 0) {
+        const missing = rep.missingManagement > 0 && (
+          reference === primaryMissingReference ||
+          (rep.missingManagement === 2 && reference === secondaryMissingReference)
+        );
+        values.push(missing ? NaN : reference);
+        continue;
+      }
+
+      const raw = reader.read(width);
+      const missing = rep.missingManagement > 0 && (
+        raw === 2 ** width - 1 ||
+        (rep.missingManagement === 2 && raw === 2 ** width - 2)
+      );
+      values.push(missing ? NaN : reference + raw);
+    }
+  }
+
+  if (rep.template === 3) {
+    undoSpatialDifferencing(values, rep.spatialDifferenceOrder, firstValue, secondValue, minimumDifference);
+  }
+
+  return values;
+}
+
+/**
+ * Rebuild original integers from first- or second-order differences,
+ * skipping missing values
+ */
+function undoSpatialDifferencing(
+  values: number[],
+  order: number,
+  firstValue: number,
+  secondValue: number,
+  minimumDifference: number
+): void {
+  const present = values.map((v, i) => (isNaN(v) ? -1 : i)).filter(i => i >= 0);
+
+  present.forEach((index, n) => {
+    if (n === 0) {
+      values[index] = firstValue;
+    } else if (n === 1 && order === 2) {
+      values[index] = secondValue;
+    } else if (order === 1) {
+      values[index] = values[index] + minimumDifference + values[present[n - 1]];
+    } else {
+      values[index] = values[index] + minimumDifference +
+        2 * values[present[n - 1]] - values[present[n - 2]];
+    }
+  });
+}
+
+/**
+ * Expand packed values onto the full grid using the section 6 bitmap
+ */
+function applyBitmap(values: number[], bitmap: Uint8Array | null, gridPoints: number): number[] {
+  if (!bitmap) {
+    if (values.length !== gridPoints) {
+      throw new Error(`Expected ${gridPoints} values, decoded ${values.length}`);
+    }
+    return values;
+  }
+
+  const full = new Array<number>(gridPoints);
+  let next = 0;
+  for (let i = 0; i < gridPoints; i++) {
+    const present = (bitmap[i >> 3] >> (7 - (i & 7))) & 1;
+    full[i] = present ? values[next++] : NaN;
+  }
+  return full;
+}
+
+// ============================================================================
+// BINARY HELPERS
+// ============================================================================
+
+/**
+ * Big-endian bit reader for packed GRIB2 data
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  /**
+   * Read an unsigned integer of up to 53 bits
+   */
+  read(bits: number): number {
+    let value = 0;
+    let remaining = bits;
+
+    while (remaining > 0) {
+      const byte = this.bytes[this.position >> 3] ?? 0;
+      const bitOffset = this.position & 7;
+      const take = Math.min(remaining, 8 - bitOffset);
+      const chunk = (byte >> (8 - bitOffset - take)) & ((1 << take) - 1);
+
+      value = value * 2 ** take + chunk;
+      remaining -= take;
+      this.position += take;
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a sign-and-magnitude integer (GRIB2 convention)
+   */
+  readSigned(bits: number): number {
+    const raw = this.read(bits);
+    const signBit = 2 ** (bits - 1);
+    return raw >= signBit ? -(raw - signBit) : raw;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+/**
+ * Read a sign-and-magnitude integer of 1-4 octets
+ */
+function readSignedInt(bytes: Uint8Array, offset: number, length: number): number {
+  let value = bytes[offset] & 0x7F;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return bytes[offset] & 0x80 ? -value : value;
+}
+
+/**
+ * Level suffix from the first fixed surface (code table 4.5)
+ */
+function describeLevel(type: number, scaleFactor: number, scaledValue: number): string {
+  const value = scaledValue === 0xFFFFFFFF ? 0 : scaledValue / 10 ** scaleFactor;
+
+  switch (type) {
+    case 1: return 'sfc';
+    case 100: return `${value / 100}hPa`;
+    case 101: return 'msl';
+    case 103: return `${value}m`;
+    case 200: return 'atmos';
+    case 255: return '';
+    default: return `L${type}_${value}`;
+  }
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,42 @@
+/**
+ * Type declarations for netcdfDecoder.js (plain ESM shared with server.js)
+ */
+
+/**
+ * A NetCDF variable decoded onto a [time][lat][lon] grid
+ */
+export interface DecodedNetCDFVariable {
+  name: string;
+  longName: string;
+  units: string;
+  /** Unpacked values; fill / missing values are NaN */
+  cube: number[][][];
+  /** Number of cells that held _FillValue / missing_value */
+  fillCount: number;
+}
+
+/**
+ * Contents of a NetCDF file decoded into regular grids
+ */
+export interface DecodedNetCDFGrid {
+  latitudes: number[];
+  longitudes: number[];
+  times: Date[];
+  variables: DecodedNetCDFVariable[];
+}
+
+/**
+ * One grid cell at one time step
+ */
+export interface NetCDFDataPoint {
+  lat: number;
+  lon: number;
+  timestamp: Date;
+  variables: Record<string, number>;
+}
+
+export function decodeNetCDFGrid(binaryData: ArrayBuffer): DecodedNetCDFGrid;
+
+export function gridToDataPoints(grid: DecodedNetCDFGrid): NetCDFDataPoint[];
+
+export function isHDF5(binaryData: ArrayBuffer): boolean;
@@ -0,0 +1,359 @@
+/**
+ * ============================================================================
+ * NETCDF GRID DECODER (SHARED BY BROWSER AND PROXY SERVER)
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Decodes NetCDF files into regular [time][lat][lon] grids and flattens
+ * them into WeatherDataPoint records:
+ * - NetCDF-3 (classic / 64-bit offset), e.g. OPeNDAP subsets, with netcdfjs
+ * - NetCDF-4, e.g. GLDAS .nc4 granules, which are HDF5 files, with jsfive
+ *
+ * Both are opened as a list of variables (dimension names, sizes and
+ * attributes) plus a reader for their values, so decoding is shared.
+ *
+ * WHY PLAIN JAVASCRIPT:
+ * server.js runs directly under Node without a build step, so this module
+ * is plain ESM with type declarations in netcdfDecoder.d.ts. The browser
+ * imports it through netcdfParser.ts; the proxy imports it directly for
+ * POST /api/gldas-points.
+ *
+ * ============================================================================
+ */
+
+import { NetCDFReader } from 'netcdfjs';
+import * as hdf5 from 'jsfive';
+
+const LATITUDE_NAMES = ['lat', 'latitude'];
+const LONGITUDE_NAMES = ['lon', 'longitude'];
+const TIME_NAMES = ['time'];
+
+/**
+ * Fill values assumed when a variable carries no _FillValue attribute
+ * (GLDAS undefined value and the NetCDF default float fill)
+ */
+const DEFAULT_FILL_VALUES = [-9999, -999, 9.96921e+36];
+
+/**
+ * Milliseconds per CF time unit
+ */
+const TIME_UNIT_MS = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Decode a NetCDF-3 or NetCDF-4 file into [time][lat][lon] grids
+ *
+ * - Coordinates are read from lat/latitude, lon/longitude and time
+ * - Time is converted using its CF "units" attribute
+ *   (e.g. "minutes since 2000-01-01 00:00:00" for GLDAS)
+ * - Values are unpacked as value * scale_factor + add_offset
+ * - _FillValue / missing_value cells become NaN
+ * - Variables without a time dimension are repeated at every time step;
+ *   variables without both lat and lon dimensions are skipped
+ *
+ * NetCDF-4 files are recognised by their HDF5 signature, not their
+ * extension.
+ *
+ * @param {ArrayBuffer} binaryData - Raw file contents
+ * @returns {import('./netcdfDecoder').DecodedNetCDFGrid} Decoded coordinates and variable cubes
+ */
+export function decodeNetCDFGrid(binaryData) {
+  const file = isHDF5(binaryData) ? openHDF5(binaryData) : openNetCDF3(binaryData);
+
+  const latName = findVariableName(file, LATITUDE_NAMES);
+  const lonName = findVariableName(file, LONGITUDE_NAMES);
+  const timeName = findVariableName(file, TIME_NAMES);
+
+  if (!latName || !lonName) {
+    throw new Error('Could not find latitude/longitude coordinates in NetCDF file');
+  }
+
+  const latitudes = file.read(latName);
+  const longitudes = file.read(lonName);
+  const times = timeName ? decodeTimes(file, timeName) : [new Date(0)];
+
+  const coordinateNames = [latName, lonName, timeName];
+  const variables = [];
+
+  for (const variable of file.variables) {
+    if (coordinateNames.includes(variable.name)) continue;
+
+    const dimensionNames = variable.dimensions;
+    const latAxis = dimensionNames.findIndex(name => LATITUDE_NAMES.includes(name));
+    const lonAxis = dimensionNames.findIndex(name => LONGITUDE_NAMES.includes(name));
+    const timeAxis = dimensionNames.findIndex(name => TIME_NAMES.includes(name));
+
+    if (latAxis === -1 || lonAxis === -1) continue;
+
+    try {
+      const attributes = variable.attributes;
+      const raw = file.read(variable.name);
+
+      // Row-major strides for the variable's own dimension order
+      const sizes = variable.sizes;
+      const strides = sizes.map((_, axis) =>
+        sizes.slice(axis + 1).reduce((product, size) => product * size, 1)
+      );
+
+      const { unpack, isFill } = getPacking(attributes);
+      let fillCount = 0;
+
+      const cube = times.map((_, t) =>
+        latitudes.map((_, y) =>
+          longitudes.map((_, x) => {
+            const index =
+              (timeAxis === -1 ? 0 : t * strides[timeAxis]) +
+              y * strides[latAxis] +
+              x * strides[lonAxis];
+            const value = raw[index];
+
+            if (value === undefined || !isFinite(value)) return NaN;
+            if (isFill(value)) {
+              fillCount++;
+              return NaN;
+            }
+            return unpack(value);
+          })
+        )
+      );
+
+      variables.push({
+        name: variable.name,
+        longName: String(attributes.long_name ?? variable.name),
+        units: String(attributes.units ?? ''),
+        cube,
+        fillCount
+      });
+
+    } catch (error) {
+      console.warn(`   ⚠️ Error decoding variable ${variable.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { latitudes, longitudes, times, variables };
+}
+
+/**
+ * Flatten a decoded grid into one record per grid cell and time step
+ *
+ * Fill values (NaN) are omitted from each record's variables.
+ *
+ * @param {import('./netcdfDecoder').DecodedNetCDFGrid} grid - Output of decodeNetCDFGrid
+ * @returns {import('./netcdfDecoder').NetCDFDataPoint[]} Data points in time, lat, lon order
+ */
+export function gridToDataPoints(grid) {
+  const { latitudes, longitudes, times } = grid;
+  const points = [];
+
+  for (let timeIdx = 0; timeIdx < times.length; timeIdx++) {
+    for (let latIdx = 0; latIdx < latitudes.length; latIdx++) {
+      for (let lonIdx = 0; lonIdx < longitudes.length; lonIdx++) {
+        const variables = {};
+
+        for (const variable of grid.variables) {
+          const value = variable.cube[timeIdx][latIdx][lonIdx];
+          if (!isNaN(value)) {
+            variables[variable.name] = value;
+          }
+        }
+
+        points.push({
+          lat: latitudes[latIdx],
+          lon: longitudes[lonIdx],
+          timestamp: times[timeIdx],
+          variables
+        });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Whether a file is HDF5 (and so possibly NetCDF-4): it starts with \x89HDF
+ *
+ * @param {ArrayBuffer} binaryData - Raw file contents
+ * @returns {boolean}
+ */
+export function isHDF5(binaryData) {
+  const signature = new Uint8Array(binaryData, 0, Math.min(4, binaryData.byteLength));
+  return signature.length === 4 &&
+    signature[0] === 0x89 && signature[1] === 0x48 && signature[2] === 0x44 && signature[3] === 0x46;
+}
+
+// ============================================================================
+// FILE READERS
+// ============================================================================
+
+/**
+ * NetCDF-3 variables and values, via netcdfjs
+ */
+function openNetCDF3(binaryData) {
+  const reader = new NetCDFReader(binaryData);
+
+  return {
+    variables: reader.variables.map(variable => ({
+      name: variable.name,
+      dimensions: variable.dimensions.map(id => reader.dimensions[id]?.name),
+      // The record dimension is always first, so its header size of 0 is unused
+      sizes: variable.dimensions.map(id => reader.dimensions[id]?.size ?? 1),
+      attributes: getAttributes(variable.attributes.map(attribute => [attribute.name, attribute.value]))
+    })),
+    // Record variables are flattened
+    read: name => toNumbers(reader.getDataVariable(name).flat())
+  };
+}
+
+/**
+ * NetCDF-4 variables and values, via jsfive (chunked and deflated data
+ * is supported)
+ *
+ * Dimension names are not read from the HDF5 dimension scales: each axis
+ * is matched to the time, lat or lon coordinate of the same length, in CF
+ * order (time, lat, lon), so equal lat and lon lengths still resolve.
+ * Axes that match none (e.g. bounds) get no name.
+ */
+function openHDF5(binaryData) {
+  const file = new hdf5.File(binaryData);
+  const datasets = file.keys
+    .map(key => file.get(key))
+    .filter(object => object instanceof hdf5.Dataset);
+
+  const coordinates = [TIME_NAMES, LATITUDE_NAMES, LONGITUDE_NAMES]
+    .map(names => datasets.find(dataset => names.includes(dataset.name.split('/').pop())))
+    .filter(dataset => dataset !== undefined)
+    .map(dataset => ({ name: dataset.name.split('/').pop(), size: dataset.shape[0] }));
+
+  const variables = datasets.map(dataset => {
+    const used = new Set();
+    const dimensions = dataset.shape.map(size => {
+      const match = coordinates.find(coordinate => !used.has(coordinate.name) && coordinate.size === size);
+      if (!match) return undefined;
+      used.add(match.name);
+      return match.name;
+    });
+
+    let attributes = {};
+    try {
+      attributes = getAttributes(Object.entries(dataset.attrs));
+    } catch (error) {
+      console.warn(`   ⚠️ Could not read attributes of ${dataset.name}:`, error instanceof Error ? error.message : error);
+    }
+
+    return { name: dataset.name.split('/').pop(), dimensions, sizes: dataset.shape, attributes };
+  });
+
+  return {
+    variables,
+    read: name => toNumbers(Array.from(file.get(name).value))
+  };
+}
+
+// ============================================================================
+// DECODING HELPERS
+// ============================================================================
+
+function findVariableName(file, candidates) {
+  return file.variables.find(v => candidates.includes(v.name))?.name;
+}
+
+/**
+ * Values as plain numbers (64-bit integers arrive as BigInt; anything
+ * non-numeric becomes NaN)
+ */
+function toNumbers(values) {
+  return values.map(value => {
+    if (typeof value === 'bigint') return Number(value);
+    return typeof value === 'number' ? value : NaN;
+  });
+}
+
+/**
+ * Attributes as a name → value map
+ *
+ * HDF5 attributes arrive as arrays and NUL-terminated strings, so
+ * single-element arrays are unwrapped and trailing NULs trimmed.
+ */
+function getAttributes(entries) {
+  const attributes = {};
+  entries.forEach(([name, value]) => {
+    let normalized = Array.isArray(value) && value.length === 1 ? value[0] : value;
+    if (typeof normalized === 'string') normalized = normalized.replace(/\0+$/, '');
+    attributes[name] = normalized;
+  });
+  return attributes;
+}
+
+/**
+ * Build unpacking and fill detection from CF packing attributes
+ */
+function getPacking(attributes) {
+  const scale = typeof attributes.scale_factor === 'number' ? attributes.scale_factor : 1;
+  const offset = typeof attributes.add_offset === 'number' ? attributes.add_offset : 0;
+
+  const fillValues = [attributes._FillValue, attributes.missing_value]
+    .filter(value => typeof value === 'number');
+  const candidates = fillValues.length > 0 ? fillValues : DEFAULT_FILL_VALUES;
+
+  return {
+    unpack: value => value * scale + offset,
+    // Compare with relative tolerance: float32 fills read back as e.g. 9.969209968386869e+36
+    isFill: value => candidates.some(fill =>
+      value === fill || Math.abs(value - fill) <= Math.abs(fill) * 1e-6
+    )
+  };
+}
+
+/**
+ * Convert a CF time coordinate ("<unit>s since <date>") to Dates
+ *
+ * Without a parsable units attribute, values are assumed to be seconds
+ * since the Unix epoch.
+ */
+function decodeTimes(file, name) {
+  const values = file.read(name);
+  const variable = file.variables.find(v => v.name === name);
+  const units = String(variable.attributes.units ?? '');
+
+  const match = units.match(/^\s*(second|minute|hour|day)s?\s+since\s+(.+?)\s*$/i);
+  let unitMs = 1000;
+  let epoch = 0;
+
+  if (match) {
+    unitMs = TIME_UNIT_MS[match[1].toLowerCase()];
+    const parsed = parseReferenceTime(match[2]);
+    if (parsed !== null) {
+      epoch = parsed;
+    }
+  }
+
+  return values.map(value => new Date(epoch + value * unitMs));
+}
+
+/**
+ * Parse a CF reference time as UTC milliseconds
+ *
+ * Accepts unpadded dates and years below 100, e.g. GrADS Data Server
+ * aggregations use "days since 1-1-1 00:00:0.0".
+ */
+function parseReferenceTime(reference) {
+  const match = reference.trim().match(
+    /^(\d{1,4})-(\d{1,2})-(\d{1,2})(?:[T\s]+(\d{1,2}):(\d{1,2})(?::(\d{1,2}(?:\.\d*)?))?)?\s*(?:Z|UTC)?$/i
+  );
+
+  if (!match) {
+    const parsed = new Date(reference).getTime();
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const date = new Date(Date.UTC(2000, Number(month) - 1, Number(day), Number(hour), Number(minute)));
+  // setUTCFullYear avoids Date.UTC mapping years 0-99 to 1900-1999
+  date.setUTCFullYear(Number(year));
+  return date.getTime() + parseFloat(second) * 1000;
+}
@@ -27,6 +27,7 @@
  */
 
 import { NetCDFReader } from 'netcdfjs';
+import { decodeNetCDFGrid, gridToDataPoints, isHDF5 } from './netcdfDecoder';
 
 export interface WeatherDataPoint {
   lat: number;
@@ -35,6 +36,9 @@ export interface WeatherDataPoint {
   variables: Record<string, number>;
 }
 
+export type { DecodedNetCDFGrid, DecodedNetCDFVariable } from './netcdfDecoder';
+export { decodeNetCDFGrid, isHDF5 };
+
 /**
  * Parse NetCDF-4 binary data from OPeNDAP DODS endpoint
  * 
@@ -53,144 +57,18 @@ export function parseNetCDFData(
   console.log("   Binary data size:", (binaryData.byteLength / 1024).toFixed(2), "KB");
 
   try {
-    // Initialize NetCDF reader
-    const reader = new NetCDFReader(binaryData);
-    
-    console.log("   📊 NetCDF file structure:");
-    console.log("   Dimensions:", reader.dimensions.map(d => `${d.name}=${d.size}`).join(', '));
-    console.log("   Total variables:", reader.variables.length);
-    
-    // Extract coordinate arrays
-    const lats = reader.getDataVariable('lat') as number[];
-    const lons = reader.getDataVariable('lon') as number[];
-    const times = reader.getDataVariable('time') as number[];
-    
-    if (!lats || !lons || !times) {
-      throw new Error("❌ Could not extract coordinate arrays from NetCDF");
-    }
+    const grid = decodeNetCDFGrid(binaryData);
+    const { latitudes: lats, longitudes: lons, times } = grid;
     
     console.log(`   Coordinates: ${lats.length} lats, ${lons.length} lons, ${times.length} times`);
+    console.log(`   Found ${grid.variables.length} data variables`);
+    console.log(`   Variables: ${grid.variables.slice(0, 10).map(v => v.name).join(', ')}${grid.variables.length > 10 ? '...' : ''}`);
     
-    // Get all variable names (excluding coordinates)
-    const variableNames = reader.variables
-      .map(v => v.name)
-      .filter(name => !['lat', 'lon', 'time'].includes(name));
-    
-    console.log(`   Found ${variableNames.length} data variables`);
-    console.log(`   Variables: ${variableNames.slice(0, 10).join(', ')}${variableNames.length > 10 ? '...' : ''}`);
+    // One point per grid cell and time step (fill values omitted)
+    const points: WeatherDataPoint[] = gridToDataPoints(grid);
     
-    // Create map to store data points
-    const pointsMap: Record<string, WeatherDataPoint> = {};
-    
-    // Initialize all points
-    for (let timeIdx = 0; timeIdx < times.length; timeIdx++) {
-      for (let latIdx = 0; latIdx < lats.length; latIdx++) {
-        for (let lonIdx = 0; lonIdx < lons.length; lonIdx++) {
-          const key = `${timeIdx}_${latIdx}_${lonIdx}`;
-          pointsMap[key] = {
-            lat: lats[latIdx],
-            lon: lons[lonIdx],
-            timestamp: new Date(times[timeIdx] * 1000), // Convert seconds to ms
-            variables: {}
-          };
-        }
-      }
-    }
-    
-    // Extract each variable's data
-    let successfulVars = 0;
-    let failedVars = 0;
-    
-    for (const varName of variableNames) {
-      try {
-        const varData = reader.getDataVariable(varName);
-        
-        if (!varData) {
-          console.warn(`   ⚠️ Could not read variable: ${varName}`);
-          failedVars++;
-          continue;
-        }
-        
-        // Get variable info for dimensions
-        const varInfo = reader.variables.find(v => v.name === varName);
-        if (!varInfo) {
-          failedVars++;
-          continue;
-        }
-        
-        // Determine data structure based on dimensions
-        const hasTimeDim = varInfo.dimensions.some(d => d === 'time' || d.includes('time'));
-        const hasLatDim = varInfo.dimensions.some(d => d === 'lat' || d.includes('lat'));
-        const hasLonDim = varInfo.dimensions.some(d => d === 'lon' || d.includes('lon'));
-        
-        // Most GLDAS variables are 3D: [time, lat, lon]
-        if (hasTimeDim && hasLatDim && hasLonDim) {
-          // 3D variable
-          for (let timeIdx = 0; timeIdx < times.length; timeIdx++) {
-            for (let latIdx = 0; latIdx < lats.length; latIdx++) {
-              for (let lonIdx = 0; lonIdx < lons.length; lonIdx++) {
-                const key = `${timeIdx}_${latIdx}_${lonIdx}`;
-                
-                // Calculate flat array index: time * (lat * lon) + lat * lon + lon
-                const flatIndex = timeIdx * (lats.length * lons.length) + 
-                                  latIdx * lons.length + 
-                                  lonIdx;
-                
-                const value = Array.isArray(varData) ? varData[flatIndex] : varData;
-                
-                // Store value (skip fill values / NaN / Infinity)
-                if (value != null && !isNaN(value) && isFinite(value)) {
-                  // Check for typical NetCDF fill values
-                  if (value !== -9999 && value !== -999 && value !== 9.96921e+36) {
-                    pointsMap[key].variables[varName] = value;
-                  }
-                }
-              }
-            }
-          }
-          successfulVars++;
-        } else if (hasLatDim && hasLonDim) {
-          // 2D variable (time-independent, like elevation)
-          for (let timeIdx = 0; timeIdx < times.length; timeIdx++) {
-            for (let latIdx = 0; latIdx < lats.length; latIdx++) {
-              for (let lonIdx = 0; lonIdx < lons.length; lonIdx++) {
-                const key = `${timeIdx}_${latIdx}_${lonIdx}`;
-                const flatIndex = latIdx * lons.length + lonIdx;
-                const value = Array.isArray(varData) ? varData[flatIndex] : varData;
-                
-                if (value != null && !isNaN(value) && isFinite(value)) {
-                  if (value !== -9999 && value !== -999 && value !== 9.96921e+36) {
-                    pointsMap[key].variables[varName] = value;
-                  }
-                }
-              }
-            }
-          }
-          successfulVars++;
-        } else {
-          // Scalar or 1D variable - apply to all points
-          const value = Array.isArray(varData) ? varData[0] : varData;
-          if (value != null && !isNaN(value) && isFinite(value)) {
-            for (const key of Object.keys(pointsMap)) {
-              pointsMap[key].variables[varName] = value;
-            }
-          }
-          successfulVars++;
-        }
-        
-      } catch (error) {
-        console.warn(`   ⚠️ Error processing variable ${varName}:`, error instanceof Error ? error.message : error);
-        failedVars++;
-        continue;
-      }
-    }
-    
-    const points = Object.values(pointsMap);
     console.log(`✅ Parsed ${points.length} data points`);
-    console.log(`   Successfully extracted: ${successfulVars} variables`);
-    if (failedVars > 0) {
-      console.warn(`   Failed to extract: ${failedVars} variables`);
-    }
+    console.log(`   Successfully extracted: ${grid.variables.length} variables`);
     
     // Log sample point for verification
     if (points.length > 0) {
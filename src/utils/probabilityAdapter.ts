@@ -0,0 +1,199 @@
+/**
+ * ============================================================================
+ * CALCULATOR RESULTS → UI MODEL ADAPTER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * WeatherProbabilityCalculator returns one ProbabilityResult per condition
+ * keyed by name. The UI components (ProbabilityCard, ProbabilityChart) work
+ * with the WeatherCondition[] / ProbabilityResults shapes from
+ * types/weather.ts. This adapter converts between the two.
+ *
+ * ============================================================================
+ */
+
+import {
+  ProbabilityResults,
+  WeatherCondition
+} from '../types/weather';
+import {
+  ProbabilityResults as CalculatorResults,
+  SpellProbabilityResult
+} from '../services/probabilityCalculator';
+import { describeThreshold } from './thresholds';
+import { TrendResult } from './trendAnalysis';
+import { describeSpell } from './spellAnalysis';
+
+/**
+ * Card trend summary from a calculator trend
+ */
+function toConditionTrend(trend: TrendResult): WeatherCondition['trend'] {
+  return {
+    slopePerDecade: Math.round(trend.slope * 100) / 10,
+    pValue: trend.pValue,
+    direction: trend.direction
+  };
+}
+
+/**
+ * Display order and labels for the five condition types
+ */
+export const CONDITION_LABELS: Record<WeatherCondition['type'], string> = {
+  veryHot: 'Very Hot',
+  veryCold: 'Very Cold',
+  veryWet: 'Very Wet',
+  veryWindy: 'Very Windy',
+  veryUncomfortable: 'Very Uncomfortable'
+};
+
+/**
+ * Convert calculator output into WeatherCondition cards
+ *
+ * @param results - Output of WeatherProbabilityCalculator.calculateProbabilities
+ * @returns One WeatherCondition per condition type, in display order
+ */
+export function toWeatherConditions(results: CalculatorResults): WeatherCondition[] {
+  return (Object.keys(CONDITION_LABELS) as Array<WeatherCondition['type']>).map(type => {
+    const result = results.probabilities[type];
+
+    return {
+      type,
+      label: CONDITION_LABELS[type],
+      probability: Math.round(result.probability * 10) / 10,
+      confidence: result.confidence,
+      confidenceInterval: {
+        lower: Math.round(result.confidenceInterval.lower * 10) / 10,
+        upper: Math.round(result.confidenceInterval.upper * 10) / 10
+      },
+      threshold: result.threshold,
+      thresholdLabel: describeThreshold(type, result.thresholdDefinition, result.threshold),
+      historicalOccurrences: result.historicalOccurrences,
+      trend: toConditionTrend(result.trend)
+    };
+  });
+}
+
+/**
+ * Convert user-defined condition results into ProbabilityCard data
+ *
+ * The expression (or its parse error) is shown in place of a threshold.
+ *
+ * @param results - Output of WeatherProbabilityCalculator.calculateProbabilities
+ * @returns One card per custom condition, typed "custom-<id>"
+ */
+export function toCustomConditionCards(
+  results: CalculatorResults
+): Array<Omit<WeatherCondition, 'type'> & { type: string }> {
+  return results.customConditions.map(result => ({
+    type: `custom-${result.id}`,
+    label: result.name,
+    probability: Math.round(result.probability * 10) / 10,
+    confidence: result.confidence,
+    confidenceInterval: {
+      lower: Math.round(result.confidenceInterval.lower * 10) / 10,
+      upper: Math.round(result.confidenceInterval.upper * 10) / 10
+    },
+    threshold: NaN,
+    thresholdLabel: result.error ? `⚠️ ${result.error}` : result.expression,
+    historicalOccurrences: result.historicalOccurrences,
+    trend: toConditionTrend(result.trend)
+  }));
+}
+
+/**
+ * Card for a window result (spell or at-least-once); the description (or
+ * the reason it could not be evaluated) is shown in place of a threshold
+ */
+function toWindowCard(
+  result: SpellProbabilityResult,
+  type: string,
+  label: string,
+  description: string
+): Omit<WeatherCondition, 'type'> & { type: string } {
+  return {
+    type,
+    label,
+    probability: Math.round(result.probability * 10) / 10,
+    confidence: result.confidence,
+    confidenceInterval: {
+      lower: Math.round(result.confidenceInterval.lower * 10) / 10,
+      upper: Math.round(result.confidenceInterval.upper * 10) / 10
+    },
+    threshold: NaN,
+    thresholdLabel: result.error ? `⚠️ ${result.error}` : description,
+    historicalOccurrences: result.historicalOccurrences,
+    trend: toConditionTrend(result.trend)
+  };
+}
+
+/**
+ * Convert multi-day spell results into ProbabilityCard data
+ *
+ * Probabilities are per event window, shown with the run length and window.
+ *
+ * @param results - Output of WeatherProbabilityCalculator.calculateProbabilities
+ * @returns One card per spell, typed "spell-<id>"
+ */
+export function toSpellCards(
+  results: CalculatorResults
+): Array<Omit<WeatherCondition, 'type'> & { type: string }> {
+  return results.spells.map(result => toWindowCard(
+    result,
+    `spell-${result.id}`,
+    result.name,
+    `${CONDITION_LABELS[result.condition as WeatherCondition['type']] ?? result.condition}: ${describeSpell(result.minDays, result.windowDays)}`
+  ));
+}
+
+/**
+ * Convert "at least once in the date range" results into ProbabilityCard data
+ *
+ * Built-in conditions show their threshold, custom ones their expression.
+ *
+ * @param results - Output of WeatherProbabilityCalculator.calculateProbabilities
+ * @returns One card per condition, typed "once-<id>"
+ */
+export function toAtLeastOnceCards(
+  results: CalculatorResults
+): Array<Omit<WeatherCondition, 'type'> & { type: string }> {
+  return results.atLeastOnce.map(result => {
+    const type = result.id as WeatherCondition['type'];
+    const builtIn = type in CONDITION_LABELS;
+    const condition = builtIn
+      ? describeThreshold(type, results.probabilities[type].thresholdDefinition, results.probabilities[type].threshold)
+      : result.condition;
+
+    return toWindowCard(
+      result,
+      `once-${result.id}`,
+      builtIn ? CONDITION_LABELS[type] : result.name,
+      `${condition} · at least once in ${result.windowDays} day${result.windowDays === 1 ? '' : 's'}`
+    );
+  });
+}
+
+/**
+ * Convert calculator output into the ProbabilityResults shape
+ * consumed by ProbabilityChart
+ *
+ * Historical context is the mean seasonal-window temperature per year;
+ * confidence intervals are the conditions' probability bounds, in
+ * conditions order.
+ *
+ * @param results - Output of WeatherProbabilityCalculator.calculateProbabilities
+ * @returns ProbabilityResults for display
+ */
+export function toProbabilityResults(results: CalculatorResults): ProbabilityResults {
+  const { yearlyTemperature } = results.historicalContext;
+  const conditions = toWeatherConditions(results);
+
+  return {
+    conditions,
+    confidenceIntervals: conditions.map(condition => condition.confidenceInterval!),
+    historicalContext: {
+      years: yearlyTemperature.years,
+      values: yearlyTemperature.values.map(value => Math.round(value * 10) / 10)
+    },
+    dataQuality: results.dataQuality
+  };
+}
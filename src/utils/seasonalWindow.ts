@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * SEASONAL WINDOW
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Decides which historical days count as "the same time of year" as a
+ * target date (or date range), and how much each one counts.
+ *
+ * CIRCULAR CALENDAR MATHS:
+ * Days are compared by calendar position, not day-of-year numbers: the
+ * target's month/day is placed in the day's own year and the years either
+ * side, and the nearest placement wins. So Dec 28 is 4 days before Jan 1
+ * (not 361 days after), and Mar 1 is the day after Feb 28 / Feb 29 in
+ * every year. A Feb 29 target falls on Feb 28 in common years.
+ *
+ * WEIGHTING:
+ * Distance is counted in days outside the target range (0 inside it):
+ * - uniform:    every day in the window counts fully
+ * - triangular: 1 - d / (window + 1), falling linearly to the edge
+ * - gaussian:   exp(-d² / 2σ²) with σ = window / 2
+ *
+ * ============================================================================
+ */
+
+import { addCalendarDays, calendarDaysBetween, CalendarDate } from './timeZones';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+export type SeasonalWeighting = 'uniform' | 'triangular' | 'gaussian';
+
+export interface SeasonalPosition {
+  /** Days from the target (range start) placed in the nearest year */
+  offset: number;
+  /** Year the target was placed in: the season the day belongs to */
+  season: number;
+}
+
+/**
+ * Days either side of the target used unless configured otherwise
+ */
+export const DEFAULT_SEASONAL_WINDOW_DAYS = 7;
+
+export const SEASONAL_WEIGHTING_LABELS: Record<SeasonalWeighting, string> = {
+  uniform: 'Equal weights',
+  triangular: 'Triangular (closer days count more)',
+  gaussian: 'Gaussian (closer days count more)'
+};
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * A target month/day placed in a given year (Feb 29 → Feb 28 in common years)
+ *
+ * @example
+ * placeInYear({ year: 2024, month: 2, day: 29 }, 2023); // { year: 2023, month: 2, day: 28 }
+ */
+export function placeInYear(target: CalendarDate, year: number): CalendarDate {
+  const daysInMonth = new Date(Date.UTC(year, target.month, 0)).getUTCDate();
+  return { year, month: target.month, day: Math.min(target.day, daysInMonth) };
+}
+
+/**
+ * Position of a day relative to a target date or range, across New Year
+ *
+ * @param day - Historical calendar day
+ * @param target - Target date (first day of a range)
+ * @param rangeDays - Length of the target range (1 for a single date)
+ * @returns Offset from the nearest placement of the target and its year
+ *
+ * @example
+ * getSeasonalPosition({ year: 2019, month: 12, day: 28 }, { year: 2025, month: 1, day: 1 });
+ * // { offset: -4, season: 2020 }
+ */
+export function getSeasonalPosition(day: CalendarDate, target: CalendarDate, rangeDays = 1): SeasonalPosition {
+  let best: SeasonalPosition | null = null;
+
+  for (const season of [day.year - 1, day.year, day.year + 1]) {
+    const offset = calendarDaysBetween(placeInYear(target, season), day);
+    if (!best || distanceFromRange(offset, rangeDays) < distanceFromRange(best.offset, rangeDays)) {
+      best = { offset, season };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Days outside a range of rangeDays starting at offset 0 (0 inside it)
+ */
+export function distanceFromRange(offset: number, rangeDays = 1): number {
+  if (offset < 0) return -offset;
+  return Math.max(0, offset - (rangeDays - 1));
+}
+
+/**
+ * Weight of a day `distance` days from the target range
+ *
+ * @param distance - Days outside the range (see distanceFromRange)
+ * @param windowDays - Days either side included in the window
+ * @param weighting - Weighting scheme
+ * @returns Weight in (0, 1], or 0 outside the window
+ */
+export function seasonalWeight(distance: number, windowDays: number, weighting: SeasonalWeighting): number {
+  if (distance > windowDays) return 0;
+
+  switch (weighting) {
+    case 'triangular':
+      return 1 - distance / (windowDays + 1);
+    case 'gaussian': {
+      const sigma = Math.max(windowDays, 1) / 2;
+      return Math.exp(-(distance * distance) / (2 * sigma * sigma));
+    }
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Calendar range of the seasonal window in a given year
+ *
+ * @returns First and last day: target - windowDays to range end + windowDays
+ */
+export function getSeasonalWindowDays(
+  target: CalendarDate,
+  year: number,
+  rangeDays: number,
+  windowDays: number
+): { first: CalendarDate; last: CalendarDate } {
+  const start = placeInYear(target, year);
+  return {
+    first: addCalendarDays(start, -windowDays),
+    last: addCalendarDays(start, rangeDays - 1 + windowDays)
+  };
+}
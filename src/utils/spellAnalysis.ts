@@ -0,0 +1,130 @@
+/**
+ * ============================================================================
+ * SPELL / RUN ANALYSIS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Multi-day events for planning: "3+ consecutive very hot days", "any
+ * rain during a 5-day festival", "a dry spell of 7+ days". A spell is a
+ * run of consecutive days meeting a condition; an event window of N days
+ * "has" the spell if it contains a run of at least minDays.
+ *
+ * SAMPLING:
+ * The daily series (see utils/dailyAggregation) is split into stretches
+ * of consecutive calendar days (one per year's seasonal window), and
+ * every N-day window inside a stretch is one sample. Windows overlap, so
+ * samples within a year are not independent; intervals should resample
+ * whole years.
+ *
+ * MISSING DAYS:
+ * A day without data breaks a run. A window with missing days still
+ * counts as "yes" if a long enough run was found; otherwise it is left
+ * out, since the missing days might have completed one.
+ *
+ * ============================================================================
+ */
+
+import { SpellDefinition } from '../types/weather';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Event window length (days) used unless the user chooses another
+ */
+export const DEFAULT_EVENT_WINDOW_DAYS = 5;
+
+/**
+ * Longest event window, and longest target date range: each year's fetch
+ * covers the range plus the seasonal window either side, so this also
+ * bounds the download
+ */
+export const MAX_EVENT_WINDOW_DAYS = 15;
+
+/**
+ * Spells shown by default (1 mm/day is the usual wet-day threshold)
+ */
+export const DEFAULT_SPELLS: SpellDefinition[] = [
+  { id: 'heatwave', name: 'Heatwave (3+ very hot days)', condition: 'veryHot', minDays: 3 },
+  { id: 'any-rain', name: 'Any Rain', condition: 'rain >= 1 mm', minDays: 1 },
+  { id: 'wet-spell', name: 'Wet Spell (3+ very wet days)', condition: 'veryWet', minDays: 3 },
+  { id: 'dry-spell', name: 'Dry Spell (5+ days)', condition: 'rain < 1 mm', minDays: 5 }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * Length of the longest run of `true` (null breaks a run)
+ *
+ * @example
+ * longestRun([true, true, null, true, true, true, false]); // 3
+ */
+export function longestRun(flags: Array<boolean | null>): number {
+  let longest = 0;
+  let current = 0;
+  flags.forEach(flag => {
+    current = flag === true ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+/**
+ * Whether a window contains a run of at least minDays
+ *
+ * @returns true / false, or null if missing days leave it undecided
+ */
+export function hasSpell(flags: Array<boolean | null>, minDays: number): boolean | null {
+  if (longestRun(flags) >= minDays) return true;
+  return flags.includes(null) ? null : false;
+}
+
+/**
+ * Split days into stretches of consecutive calendar days
+ *
+ * @param days - Days with a YYYY-MM-DD date, in any order (no duplicates)
+ * @returns Stretches in date order
+ */
+export function splitConsecutiveDays<T extends { date: string }>(days: T[]): T[][] {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const stretches: T[][] = [];
+  let previous = NaN;
+
+  sorted.forEach(day => {
+    const time = Date.parse(`${day.date}T00:00:00Z`);
+    if (stretches.length === 0 || time - previous !== DAY_MS) {
+      stretches.push([]);
+    }
+    stretches[stretches.length - 1].push(day);
+    previous = time;
+  });
+
+  return stretches;
+}
+
+/**
+ * All windows of `length` consecutive items
+ *
+ * @example
+ * slidingWindows([1, 2, 3, 4], 3); // [[1, 2, 3], [2, 3, 4]]
+ */
+export function slidingWindows<T>(items: T[], length: number): T[][] {
+  const windows: T[][] = [];
+  for (let start = 0; start + length <= items.length; start++) {
+    windows.push(items.slice(start, start + length));
+  }
+  return windows;
+}
+
+/**
+ * e.g. "3+ days in a row within 5 days" or "any day within 5 days"
+ */
+export function describeSpell(minDays: number, windowDays: number): string {
+  const run = minDays <= 1 ? 'any day' : `${minDays}+ days in a row`;
+  return `${run} within ${windowDays} day${windowDays === 1 ? '' : 's'}`;
+}
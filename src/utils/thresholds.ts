@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * CONDITION THRESHOLD CONFIGURATION
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Each weather condition is defined by a threshold that is either
+ * - a percentile of the same-season data (the original behaviour: "very
+ *   hot" = above the local 95th percentile), or
+ * - an absolute value in user-chosen units ("above 32 °C", "more than
+ *   10 mm/day", "wind over 40 km/h").
+ *
+ * This module holds the defaults, the units each condition accepts and
+ * the conversions to and from the units the data is stored in
+ * (°C, mm/day, m/s).
+ *
+ * PRECIPITATION:
+ * Conditions are tested against daily totals (see utils/dailyAggregation),
+ * so a mm/hour threshold is read as an average rate over the day
+ * (0.5 mm/hour = 12 mm/day).
+ *
+ * ============================================================================
+ */
+
+import { ConditionThreshold, ThresholdConfig, ThresholdUnit, WeatherCondition } from '../types/weather';
+
+type ConditionType = WeatherCondition['type'];
+
+/**
+ * Percentile thresholds matching the calculator's original definitions
+ */
+export const DEFAULT_THRESHOLDS: ThresholdConfig = {
+  veryHot: { mode: 'percentile', value: 95, units: '°C' },
+  veryCold: { mode: 'percentile', value: 5, units: '°C' },
+  veryWet: { mode: 'percentile', value: 90, units: 'mm/day' },
+  veryWindy: { mode: 'percentile', value: 85, units: 'km/h' },
+  veryUncomfortable: { mode: 'percentile', value: 90, units: '°C' }
+};
+
+/**
+ * Units offered per condition; the first is the unit the data is stored in
+ */
+export const CONDITION_UNITS: Record<ConditionType, ThresholdUnit[]> = {
+  veryHot: ['°C', '°F'],
+  veryCold: ['°C', '°F'],
+  veryWet: ['mm/day', 'mm/hour'],
+  veryWindy: ['m/s', 'km/h', 'mph'],
+  veryUncomfortable: ['°C', '°F']
+};
+
+/**
+ * Whether a condition is met above (true) or below (false) its threshold
+ */
+export const CONDITION_ABOVE: Record<ConditionType, boolean> = {
+  veryHot: true,
+  veryCold: false,
+  veryWet: true,
+  veryWindy: true,
+  veryUncomfortable: true
+};
+
+/**
+ * Convert a value in the given units to the data's units
+ * (°C, mm/day or m/s)
+ */
+export function toDataUnits(value: number, units: ThresholdUnit): number {
+  switch (units) {
+    case '°F': return (value - 32) * 5 / 9;
+    case 'mm/hour': return value * 24;
+    case 'km/h': return value / 3.6;
+    case 'mph': return value * 0.44704;
+    default: return value;
+  }
+}
+
+/**
+ * Convert a value in the data's units to the given units
+ */
+export function fromDataUnits(value: number, units: ThresholdUnit): number {
+  switch (units) {
+    case '°F': return value * 9 / 5 + 32;
+    case 'mm/hour': return value / 24;
+    case 'km/h': return value * 3.6;
+    case 'mph': return value / 0.44704;
+    default: return value;
+  }
+}
+
+/**
+ * Human-readable threshold, e.g. "≥ 32 °C" or "≤ 1.2 °C (5th percentile)"
+ *
+ * @param condition - Condition the threshold belongs to
+ * @param threshold - Configured threshold
+ * @param dataValue - Resolved threshold in data units
+ */
+export function describeThreshold(
+  condition: ConditionType,
+  threshold: ConditionThreshold,
+  dataValue: number
+): string {
+  const comparison = CONDITION_ABOVE[condition] ? '≥' : '≤';
+  const value = `${comparison} ${formatNumber(fromDataUnits(dataValue, threshold.units))} ${threshold.units}`;
+
+  return threshold.mode === 'percentile'
+    ? `${value} (${ordinal(threshold.value)} percentile)`
+    : value;
+}
+
+/**
+ * Check a threshold configuration, returning an error message per
+ * invalid condition
+ */
+export function validateThresholds(config: ThresholdConfig): Partial<Record<ConditionType, string>> {
+  const errors: Partial<Record<ConditionType, string>> = {};
+
+  (Object.keys(config) as ConditionType[]).forEach(condition => {
+    const { mode, value, units } = config[condition];
+    if (!isFinite(value)) {
+      errors[condition] = 'Enter a number';
+    } else if (mode === 'percentile' && (value < 0 || value > 100)) {
+      errors[condition] = 'Percentile must be between 0 and 100';
+    } else if (!CONDITION_UNITS[condition].includes(units)) {
+      errors[condition] = `Unsupported unit ${units}`;
+    }
+  });
+
+  return errors;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function ordinal(value: number): string {
+  const rounded = Math.round(value * 10) / 10;
+  if (!Number.isInteger(rounded)) return `${rounded}th`;
+  const lastTwo = rounded % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${rounded}th`;
+  switch (rounded % 10) {
+    case 1: return `${rounded}st`;
+    case 2: return `${rounded}nd`;
+    case 3: return `${rounded}rd`;
+    default: return `${rounded}th`;
+  }
+}
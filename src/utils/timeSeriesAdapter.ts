@@ -0,0 +1,121 @@
+/**
+ * ============================================================================
+ * WEATHER TIME SERIES → WEATHER DATASET ADAPTER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * NASADataFetcher returns point time series (one array of {date, value} per
+ * variable), while WeatherProbabilityCalculator works on WeatherDataset
+ * cubes shaped [time][lat][lon]. This adapter bridges the two.
+ *
+ * LAYOUT:
+ * - One shared, sorted time axis built from every variable's timestamps
+ * - A single grid cell (1 × 1) at the requested location
+ * - NaN wherever a variable has no sample at a timestamp (e.g. 3-hourly
+ *   GLDAS temperature on an hourly NLDAS precipitation axis)
+ * - Each variable's source dataset and fill count kept in its metadata,
+ *   so gap detection knows the time step to expect
+ *
+ * ============================================================================
+ */
+
+import { Coordinates, Variable, WeatherDataset } from '../types/weather';
+import { TimeSeriesVariable, WeatherTimeSeries } from '../services/nasaDataService';
+
+/**
+ * Variable metadata for each WeatherTimeSeries field
+ */
+const TIME_SERIES_VARIABLES: Record<TimeSeriesVariable, Variable> = {
+  temperature: { name: 'temperature', longName: 'Air Temperature', units: 'Celsius' },
+  precipitation: { name: 'precipitation', longName: 'Precipitation Rate', units: 'mm/hour' },
+  humidity: { name: 'humidity', longName: 'Relative Humidity', units: '%' },
+  windSpeed: { name: 'windSpeed', longName: 'Wind Speed', units: 'm/s' },
+  snowDepth: { name: 'snowDepth', longName: 'Snow Depth', units: 'cm' }
+};
+
+/**
+ * Convert a point time series into a single-cell WeatherDataset
+ *
+ * @param timeSeries - Time series returned by NASADataFetcher
+ * @param location - Location the series was fetched for
+ * @param source - Human-readable data source label
+ * @returns WeatherDataset with [time][1][1] variable cubes
+ */
+export function timeSeriesToDataset(
+  timeSeries: WeatherTimeSeries,
+  location: Coordinates,
+  source: string
+): WeatherDataset {
+  const variableKeys = Object.keys(TIME_SERIES_VARIABLES) as TimeSeriesVariable[];
+
+  // Build shared time axis (sorted, de-duplicated)
+  const timestamps = new Set<number>();
+  variableKeys.forEach(key => {
+    timeSeries[key].forEach(point => timestamps.add(point.date.getTime()));
+  });
+  const axis = Array.from(timestamps).sort((a, b) => a - b);
+  const axisIndex = new Map(axis.map((t, i) => [t, i]));
+
+  // Fill [time][lat][lon] cubes for each variable
+  const variables: Record<string, number[][][]> = {};
+  variableKeys.forEach(key => {
+    const cube = axis.map(() => [[NaN]]);
+    timeSeries[key].forEach(point => {
+      const index = axisIndex.get(point.date.getTime());
+      if (index !== undefined) {
+        cube[index][0][0] = point.value;
+      }
+    });
+    variables[key] = cube;
+  });
+
+  const start = axis.length > 0 ? new Date(axis[0]) : new Date();
+  const end = axis.length > 0 ? new Date(axis[axis.length - 1]) : new Date();
+
+  return {
+    metadata: {
+      source,
+      sources: describeSources(timeSeries.sources),
+      spatialCoverage: {
+        north: location.lat,
+        south: location.lat,
+        east: location.lng,
+        west: location.lng
+      },
+      temporalCoverage: { start, end },
+      variables: variableKeys
+        .filter(key => timeSeries[key].length > 0)
+        .map(key => ({
+          ...TIME_SERIES_VARIABLES[key],
+          source: timeSeries.sources[key],
+          fillCount: timeSeries.fillCounts?.[key] ?? 0
+        })),
+      resolution: { spatial: 0.25, temporal: '3-hourly' }
+    },
+    data: {
+      coordinates: {
+        latitude: [location.lat],
+        longitude: [location.lng],
+        time: axis.map(t => new Date(t))
+      },
+      variables
+    }
+  };
+}
+
+/**
+ * Group per-variable sources by dataset,
+ * e.g. "GLDAS_NOAH025_3H_2.1 (temperature, windSpeed)"
+ */
+function describeSources(sources: WeatherTimeSeries['sources']): string[] {
+  const variablesByDataset = new Map<string, string[]>();
+
+  (Object.entries(sources) as Array<[TimeSeriesVariable, string]>).forEach(([variable, dataset]) => {
+    if (!variablesByDataset.has(dataset)) variablesByDataset.set(dataset, []);
+    variablesByDataset.get(dataset)!.push(variable);
+  });
+
+  return Array.from(variablesByDataset.entries()).map(
+    ([dataset, variables]) => `${dataset} (${variables.join(', ')})`
+  );
+}
@@ -0,0 +1,322 @@
+/**
+ * ============================================================================
+ * TIME ZONES
+ * ============================================================================
+ *
+ * TIME MODEL:
+ * - Data: every timestamp is a UTC instant (GLDAS/NLDAS granules, Data
+ *   Rods and NetCDF time axes are all UTC), and fetchers / URL builders
+ *   read dates with UTC getters.
+ * - Target dates: a picked date is a calendar date (year, month, day)
+ *   interpreted in the location's time zone, so "July 4 in Tokyo" covers
+ *   July 3 15:00Z to July 4 15:00Z.
+ * - Display: either the location's time zone or UTC.
+ *
+ * LOCATION TIME ZONES:
+ * Derived offline: a bundled table of coarse rectangles for the main
+ * populated zones (borders within ~1° may resolve to the neighbouring
+ * zone), falling back to the nautical zone of the longitude (15° per
+ * hour, no daylight saving).
+ *
+ * ============================================================================
+ */
+
+import { Coordinates, DateRange } from '../types/weather';
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+/**
+ * A day on the calendar, independent of any time zone (month 1-12)
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface LocationTimeZone {
+  /** IANA time zone, e.g. "America/Denver" or "Etc/GMT-3" */
+  timeZone: string;
+  /** 'table' if matched in the bundled table, 'longitude' if estimated */
+  source: 'table' | 'longitude';
+}
+
+/**
+ * How times are shown: in the location's time zone or in UTC
+ */
+export type TimeDisplayMode = 'location' | 'utc';
+
+interface TimeZoneRegion {
+  timeZone: string;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+}
+
+/**
+ * Coarse zone rectangles, checked in order (first match wins), so small
+ * or irregular zones come before the larger ones around them
+ */
+const TIME_ZONE_REGIONS: TimeZoneRegion[] = [
+  // North America
+  { timeZone: 'Pacific/Honolulu', south: 18, north: 23, west: -161, east: -154 },
+  { timeZone: 'America/Anchorage', south: 51, north: 72, west: -170, east: -141 },
+  { timeZone: 'America/Phoenix', south: 31.3, north: 37, west: -114.8, east: -109 },
+  { timeZone: 'America/Los_Angeles', south: 32, north: 60, west: -125, east: -114.5 },
+  { timeZone: 'America/Denver', south: 31, north: 60, west: -114.5, east: -102 },
+  { timeZone: 'America/Mexico_City', south: 14.5, north: 24, west: -106, east: -86.5 },
+  { timeZone: 'America/Chicago', south: 24, north: 60, west: -102, east: -87.5 },
+  { timeZone: 'America/New_York', south: 24, north: 60, west: -87.5, east: -66.5 },
+  { timeZone: 'America/Halifax', south: 43, north: 60, west: -66.5, east: -59.5 },
+  // South America
+  { timeZone: 'America/Bogota', south: -4.2, north: 12.5, west: -79, east: -67 },
+  { timeZone: 'America/Lima', south: -18.4, north: -0.1, west: -81.4, east: -68.7 },
+  { timeZone: 'America/Santiago', south: -56, north: -17.5, west: -76, east: -69.5 },
+  { timeZone: 'America/Argentina/Buenos_Aires', south: -55, north: -21.8, west: -69.5, east: -53.6 },
+  { timeZone: 'America/Sao_Paulo', south: -34, north: -5, west: -53.6, east: -34.8 },
+  // Europe
+  { timeZone: 'Atlantic/Reykjavik', south: 63, north: 67, west: -25, east: -13 },
+  { timeZone: 'Europe/Lisbon', south: 36.9, north: 42.2, west: -9.6, east: -6.2 },
+  { timeZone: 'Europe/London', south: 49.8, north: 61, west: -11, east: 1.8 },
+  { timeZone: 'Europe/Berlin', south: 35.5, north: 71, west: -9.4, east: 19.5 },
+  { timeZone: 'Europe/Istanbul', south: 35.8, north: 42.1, west: 26, east: 45 },
+  { timeZone: 'Europe/Athens', south: 34.8, north: 70, west: 19.5, east: 30 },
+  { timeZone: 'Europe/Moscow', south: 41, north: 70, west: 30, east: 50 },
+  // Africa and the Middle East
+  { timeZone: 'Africa/Cairo', south: 22, north: 31.7, west: 24.7, east: 36.9 },
+  { timeZone: 'Africa/Casablanca', south: 27.6, north: 35.9, west: -13.2, east: -1 },
+  { timeZone: 'Africa/Lagos', south: 4, north: 14, west: 2.7, east: 14.7 },
+  { timeZone: 'Africa/Nairobi', south: -4.7, north: 5, west: 33.9, east: 41.9 },
+  { timeZone: 'Africa/Johannesburg', south: -35, north: -22, west: 16.4, east: 33 },
+  { timeZone: 'Asia/Dubai', south: 22.6, north: 26.1, west: 51.5, east: 56.4 },
+  { timeZone: 'Asia/Riyadh', south: 16.3, north: 32.2, west: 34.5, east: 55.7 },
+  { timeZone: 'Asia/Tehran', south: 25, north: 39.8, west: 44, east: 63.3 },
+  // Asia
+  { timeZone: 'Asia/Karachi', south: 23.6, north: 37.1, west: 60.8, east: 71 },
+  { timeZone: 'Asia/Kolkata', south: 6.7, north: 35.7, west: 68, east: 88 },
+  { timeZone: 'Asia/Kathmandu', south: 26.3, north: 30.5, west: 80, east: 88.2 },
+  { timeZone: 'Asia/Dhaka', south: 20.6, north: 26.7, west: 88, east: 92.7 },
+  { timeZone: 'Asia/Bangkok', south: 5.6, north: 23.4, west: 97.3, east: 109.5 },
+  { timeZone: 'Asia/Jakarta', south: -11, north: 6, west: 95, east: 115 },
+  { timeZone: 'Asia/Manila', south: 4.6, north: 21.2, west: 116.9, east: 126.6 },
+  { timeZone: 'Asia/Seoul', south: 33, north: 38.7, west: 124.6, east: 131 },
+  { timeZone: 'Asia/Tokyo', south: 24, north: 45.6, west: 129, east: 146 },
+  { timeZone: 'Asia/Shanghai', south: 18, north: 53.6, west: 73.5, east: 135 },
+  // Oceania
+  { timeZone: 'Australia/Perth', south: -35.2, north: -13.7, west: 112.9, east: 129 },
+  { timeZone: 'Australia/Darwin', south: -26, north: -10.9, west: 129, east: 138 },
+  { timeZone: 'Australia/Adelaide', south: -38.1, north: -26, west: 129, east: 141 },
+  { timeZone: 'Australia/Brisbane', south: -29, north: -9, west: 138, east: 154 },
+  { timeZone: 'Australia/Hobart', south: -43.7, north: -39.5, west: 143.8, east: 148.5 },
+  { timeZone: 'Australia/Sydney', south: -39.2, north: -28, west: 141, east: 154 },
+  { timeZone: 'Pacific/Auckland', south: -47.4, north: -34.3, west: 166, east: 178.7 }
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Formatters are comparatively expensive to create; reuse one per zone
+ */
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// ============================================================================
+// PUBLIC FUNCTIONS - TIME ZONES
+// ============================================================================
+
+/**
+ * The browser's IANA time zone, e.g. "America/Denver"
+ */
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Time zone of a location, from the bundled table or its longitude
+ *
+ * @example
+ * getLocationTimeZone({ lat: 39.74, lng: -104.99 }); // { timeZone: 'America/Denver', source: 'table' }
+ * getLocationTimeZone({ lat: -20, lng: -150 });      // { timeZone: 'Etc/GMT+10', source: 'longitude' }
+ */
+export function getLocationTimeZone(location: Coordinates): LocationTimeZone {
+  const { lat, lng } = location;
+  const region = TIME_ZONE_REGIONS.find(r => lat >= r.south && lat <= r.north && lng >= r.west && lng <= r.east);
+  if (region) {
+    return { timeZone: region.timeZone, source: 'table' };
+  }
+
+  // Etc/GMT zones use POSIX signs: Etc/GMT+5 is five hours behind UTC
+  const normalizedLng = ((lng + 540) % 360) - 180;
+  const hours = Math.max(-12, Math.min(12, Math.round(normalizedLng / 15)));
+  return {
+    timeZone: hours === 0 ? 'UTC' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`,
+    source: 'longitude'
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (east positive,
+ * daylight saving included)
+ *
+ * @example
+ * getTimeZoneOffsetMinutes(new Date('2024-07-04T12:00:00Z'), 'America/Denver'); // -360
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+
+  return Math.round((wallClock - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+// ============================================================================
+// PUBLIC FUNCTIONS - CALENDAR DATES
+// ============================================================================
+
+/**
+ * Calendar date of an instant in a time zone
+ *
+ * @example
+ * getLocalDateParts(new Date('2024-07-05T03:00:00Z'), 'America/Denver');
+ * // { year: 2024, month: 7, day: 4 }
+ */
+export function getLocalDateParts(date: Date, timeZone: string): CalendarDate {
+  let formatter = dateFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dateFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+/**
+ * Calendar date a picker Date stands for (its browser-local year, month
+ * and day; pickers create local midnights)
+ */
+export function toCalendarDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/**
+ * Picker Date (local midnight) for a date input's YYYY-MM-DD value
+ *
+ * `new Date('2025-07-04')` would be UTC midnight, which is the previous
+ * local day west of UTC.
+ *
+ * @returns null for an empty or malformed value
+ */
+export function parseDateInput(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * YYYY-MM-DD value for a date input, from a picker Date's local parts
+ */
+export function formatDateInput(date: Date): string {
+  const { year, month, day } = toCalendarDate(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar date a number of days later (or earlier, if negative)
+ */
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Whole calendar days from one date to another (negative if `last` is earlier)
+ *
+ * @example
+ * calendarDaysBetween({ year: 2024, month: 2, day: 27 }, { year: 2024, month: 3, day: 2 }); // 4
+ */
+export function calendarDaysBetween(first: CalendarDate, last: CalendarDate): number {
+  return Math.round(
+    (Date.UTC(last.year, last.month - 1, last.day) - Date.UTC(first.year, first.month - 1, first.day)) / DAY_MS
+  );
+}
+
+/**
+ * UTC instant at which a calendar day starts in a time zone
+ *
+ * @example
+ * startOfZonedDay({ year: 2024, month: 7, day: 4 }, 'Asia/Tokyo'); // 2024-07-03T15:00:00Z
+ */
+export function startOfZonedDay(date: CalendarDate, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day);
+
+  // The offset at local midnight can differ from the offset at the first
+  // guess when daylight saving changes that day, so refine once
+  let instant = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * MINUTE_MS;
+  instant = wallClock - getTimeZoneOffsetMinutes(new Date(instant), timeZone) * MINUTE_MS;
+
+  return new Date(instant);
+}
+
+/**
+ * UTC span of consecutive calendar days in a time zone, from the start of
+ * the first to the last millisecond of the last
+ *
+ * @param first - First day (inclusive)
+ * @param last - Last day (inclusive)
+ * @param timeZone - Zone the days are in
+ *
+ * @example
+ * getZonedDayRange({ year: 2024, month: 7, day: 4 }, { year: 2024, month: 7, day: 4 }, 'America/Denver');
+ * // { start: 2024-07-04T06:00:00Z, end: 2024-07-05T05:59:59.999Z }
+ */
+export function getZonedDayRange(first: CalendarDate, last: CalendarDate, timeZone: string): DateRange {
+  return {
+    start: startOfZonedDay(first, timeZone),
+    end: new Date(startOfZonedDay(addCalendarDays(last, 1), timeZone).getTime() - 1)
+  };
+}
+
+// ============================================================================
+// PUBLIC FUNCTIONS - FORMATTING
+// ============================================================================
+
+/**
+ * Date and time of an instant in the location's zone or in UTC
+ *
+ * @example
+ * formatDateTime(point.timestamp, 'utc', 'America/Denver');      // "7/4/2024, 12:00 UTC"
+ * formatDateTime(point.timestamp, 'location', 'America/Denver'); // "7/4/2024, 06:00 MDT"
+ */
+export function formatDateTime(date: Date, mode: TimeDisplayMode, locationTimeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone: mode === 'utc' ? 'UTC' : locationTimeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * ============================================================================
+ * TREND ANALYSIS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Detects long-term trends in yearly series (e.g. the share of days around
+ * the target date that were "very hot", 2000-present):
+ * - Mann-Kendall test: non-parametric test for a monotonic trend, robust
+ *   to outliers and to non-normal data such as frequencies stuck at 0%
+ * - Sen's slope: median of all pairwise slopes, a robust trend magnitude
+ *
+ * METHOD:
+ * S = Σ sign(xj - xi) over all pairs i < j (in year order), with the
+ * tie-corrected variance
+ *   Var(S) = [n(n-1)(2n+5) - Σ t(t-1)(2t+5)] / 18
+ * (t = size of each group of equal values) and the continuity-corrected
+ * normal score z = (S ∓ 1) / √Var(S). The p-value is two-sided.
+ *
+ * Years without data are simply absent; slopes use the actual years, so
+ * gaps don't distort the trend.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// INTERFACES AND TYPES
+// ============================================================================
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'none';
+
+export interface TrendResult {
+  /** Years in the series */
+  n: number;
+  /** Mann-Kendall S statistic */
+  s: number;
+  /** Kendall's tau (S / number of pairs), -1 to 1 */
+  tau: number;
+  z: number;
+  /** Two-sided p-value */
+  pValue: number;
+  /** pValue below the significance level */
+  significant: boolean;
+  /** Direction of a significant trend, 'none' otherwise */
+  direction: TrendDirection;
+  /** Sen's slope, value units per year */
+  slope: number;
+  /** Intercept so that value ≈ intercept + slope × year */
+  intercept: number;
+}
+
+/**
+ * Fewest years for which a trend is reported as significant
+ */
+const MIN_YEARS = 4;
+
+// ============================================================================
+// PUBLIC FUNCTIONS
+// ============================================================================
+
+/**
+ * Mann-Kendall test and Sen's slope for a yearly series
+ *
+ * @param years - Year of each value (any order, gaps allowed)
+ * @param values - Values (NaN values are ignored)
+ * @param alpha - Significance level (default 0.05)
+ * @returns Test statistics, slope and whether the trend is significant
+ *
+ * @example
+ * const trend = analyzeTrend([2000, 2001, 2002, 2003, 2004], [2, 3, 3, 5, 6]);
+ * trend.slope;     // 1 (per year)
+ * trend.direction; // 'increasing' if trend.pValue < 0.05
+ */
+export function analyzeTrend(years: number[], values: number[], alpha = 0.05): TrendResult {
+  const pairs = years
+    .map((year, i) => ({ year, value: values[i] }))
+    .filter(pair => pair.value !== undefined && !isNaN(pair.value))
+    .sort((a, b) => a.year - b.year);
+
+  const n = pairs.length;
+  const { slope, intercept } = sensSlope(pairs.map(p => p.year), pairs.map(p => p.value));
+
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(pairs[j].value - pairs[i].value);
+    }
+  }
+
+  // Tie correction: groups of equal values (common with 0% years)
+  const tieGroups = new Map<number, number>();
+  pairs.forEach(({ value }) => tieGroups.set(value, (tieGroups.get(value) ?? 0) + 1));
+  const tieTerm = Array.from(tieGroups.values()).reduce((sum, t) => sum + t * (t - 1) * (2 * t + 5), 0);
+  const variance = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+
+  const z = variance > 0 && s !== 0
+    ? (s - Math.sign(s)) / Math.sqrt(variance)
+    : 0;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+  const pairCount = (n * (n - 1)) / 2;
+
+  const significant = n >= MIN_YEARS && pValue < alpha;
+
+  return {
+    n,
+    s,
+    tau: pairCount > 0 ? s / pairCount : 0,
+    z,
+    pValue,
+    significant,
+    direction: significant ? (s > 0 ? 'increasing' : 'decreasing') : 'none',
+    slope,
+    intercept
+  };
+}
+
+/**
+ * Sen's slope (median pairwise slope) and the matching intercept
+ * (median of value - slope × year)
+ *
+ * @returns slope 0 and intercept at the median value with fewer than two years
+ */
+export function sensSlope(years: number[], values: number[]): { slope: number; intercept: number } {
+  const slopes: number[] = [];
+  for (let i = 0; i < years.length - 1; i++) {
+    for (let j = i + 1; j < years.length; j++) {
+      if (years[j] !== years[i]) {
+        slopes.push((values[j] - values[i]) / (years[j] - years[i]));
+      }
+    }
+  }
+
+  const slope = slopes.length > 0 ? median(slopes) : 0;
+  const intercept = values.length > 0 ? median(values.map((value, i) => value - slope * years[i])) : 0;
+
+  return { slope, intercept };
+}
+
+/**
+ * One-line summary, e.g. "Very Hot: ↑ +2.1 pts/decade (p = 0.01, significant)"
+ *
+ * @param label - Series name
+ * @param trend - Trend of a series in percent
+ */
+export function describeTrend(label: string, trend: TrendResult): string {
+  if (trend.n < MIN_YEARS) {
+    return `${label}: not enough years for a trend (${trend.n})`;
+  }
+
+  const perDecade = trend.slope * 10;
+  const arrow = perDecade > 0 ? '↑' : perDecade < 0 ? '↓' : '→';
+  const p = trend.pValue < 0.001 ? 'p < 0.001' : `p = ${trend.pValue.toFixed(3)}`;
+
+  return `${label}: ${arrow} ${perDecade >= 0 ? '+' : ''}${perDecade.toFixed(1)} pts/decade (${p}, ${trend.significant ? 'significant' : 'not significant'})`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}